@@ -0,0 +1,5 @@
+-- Record which merchant an outbox event belongs to, so it can be fanned out to their webhooks
+ALTER TABLE events."outbox"
+  ADD COLUMN "merchantId" UUID;
+
+CREATE INDEX "outbox_merchantId_idx" ON events."outbox"("merchantId");
@@ -0,0 +1,3 @@
+-- Outbox rows aimed at a single webhook (test events) name it here
+ALTER TABLE events."outbox"
+  ADD COLUMN "webhookId" UUID;
@@ -0,0 +1,4 @@
+-- Keep the previous webhook secret signing during its rotation grace window
+ALTER TABLE core."merchants"
+  ADD COLUMN "previousWebhookSecret" VARCHAR(64),
+  ADD COLUMN "previousWebhookSecretExpiresAt" TIMESTAMP(3);
@@ -0,0 +1,27 @@
+-- Log every webhook delivery attempt for the delivery history and redelivery
+CREATE TABLE events."webhook_deliveries" (
+  "id" UUID NOT NULL,
+  "webhookId" UUID NOT NULL,
+  "merchantId" UUID NOT NULL,
+  "eventId" UUID,
+  "eventType" VARCHAR(60) NOT NULL,
+  "trigger" VARCHAR(20) NOT NULL DEFAULT 'event',
+  "attempt" INTEGER NOT NULL DEFAULT 1,
+  "requestBody" TEXT NOT NULL,
+  "responseStatus" INTEGER,
+  "responseBody" TEXT,
+  "latencyMs" INTEGER NOT NULL,
+  "success" BOOLEAN NOT NULL,
+  "error" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "webhook_deliveries_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "webhook_deliveries_webhookId_createdAt_idx" ON events."webhook_deliveries"("webhookId", "createdAt");
+CREATE INDEX "webhook_deliveries_webhookId_success_idx" ON events."webhook_deliveries"("webhookId", "success");
+CREATE INDEX "webhook_deliveries_eventId_idx" ON events."webhook_deliveries"("eventId");
+
+ALTER TABLE events."webhook_deliveries"
+  ADD CONSTRAINT "webhook_deliveries_webhookId_fkey"
+  FOREIGN KEY ("webhookId") REFERENCES events."webhooks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
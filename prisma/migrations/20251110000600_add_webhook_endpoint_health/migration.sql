@@ -0,0 +1,7 @@
+-- Track webhook endpoint health so failing endpoints can be disabled
+ALTER TABLE events."webhooks"
+  ADD COLUMN "consecutiveFailures" INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN "lastSuccessAt" TIMESTAMP(3),
+  ADD COLUMN "lastFailureAt" TIMESTAMP(3),
+  ADD COLUMN "disabledAt" TIMESTAMP(3),
+  ADD COLUMN "disabledReason" VARCHAR(500);
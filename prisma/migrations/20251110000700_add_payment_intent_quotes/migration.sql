@@ -0,0 +1,13 @@
+-- Lock a crypto quote against the merchant wallet a payment intent pays into
+ALTER TABLE payments."payment_intents"
+  ADD COLUMN "walletId" UUID,
+  ADD COLUMN "quoteRate" DECIMAL(38,18),
+  ADD COLUMN "quoteCurrency" VARCHAR(3),
+  ADD COLUMN "quotedAt" TIMESTAMP(3);
+
+DROP INDEX IF EXISTS payments."payment_intents_paymentRequestId_idx";
+CREATE INDEX "payment_intents_paymentRequestId_status_idx" ON payments."payment_intents"("paymentRequestId", "status");
+
+ALTER TABLE payments."payment_intents"
+  ADD CONSTRAINT "payment_intents_walletId_fkey"
+  FOREIGN KEY ("walletId") REFERENCES payments."wallets"("id") ON DELETE SET NULL ON UPDATE CASCADE;
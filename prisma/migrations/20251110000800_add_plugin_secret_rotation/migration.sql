@@ -0,0 +1,4 @@
+-- Plugins sign requests with a secret derived from PLUGIN_HMAC_SECRET and a per-plugin salt
+ALTER TABLE core."plugin_registry"
+  ADD COLUMN "secretSalt" VARCHAR(64),
+  ADD COLUMN "secretRotatedAt" TIMESTAMP(3);
@@ -0,0 +1,33 @@
+-- Accept partial payments and top-ups, and record how the received amount compared with the quote
+ALTER TYPE payments."PaymentStatus" ADD VALUE IF NOT EXISTS 'PARTIALLY_PAID' BEFORE 'COMPLETED';
+
+CREATE TYPE payments."PaymentAmountOutcome" AS ENUM ('WITHIN_TOLERANCE', 'OVERPAID', 'UNDERPAID');
+
+ALTER TABLE core."merchants"
+  ADD COLUMN "allowUnderpaymentTopUp" BOOLEAN NOT NULL DEFAULT true;
+
+ALTER TABLE payments."payment_intents"
+  ADD COLUMN "amountOutcome" payments."PaymentAmountOutcome",
+  ADD COLUMN "surplusAmount" DECIMAL(38,18),
+  ADD COLUMN "shortfallAmount" DECIMAL(38,18);
+
+CREATE TABLE payments."payment_intent_transactions" (
+  "id" UUID NOT NULL,
+  "intentId" UUID NOT NULL,
+  "pluginId" VARCHAR(50) NOT NULL,
+  "txId" VARCHAR(255) NOT NULL,
+  "amount" DECIMAL(38,18) NOT NULL,
+  "confirmations" INTEGER NOT NULL DEFAULT 0,
+  "blockRef" JSONB,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+
+  CONSTRAINT "payment_intent_transactions_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "payment_intent_transactions_txId_key" ON payments."payment_intent_transactions"("txId");
+CREATE INDEX "payment_intent_transactions_intentId_idx" ON payments."payment_intent_transactions"("intentId");
+
+ALTER TABLE payments."payment_intent_transactions"
+  ADD CONSTRAINT "payment_intent_transactions_intentId_fkey"
+  FOREIGN KEY ("intentId") REFERENCES payments."payment_intents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
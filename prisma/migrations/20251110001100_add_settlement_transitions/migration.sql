@@ -0,0 +1,18 @@
+-- History of every settlement status change on a payment request, with who made it and why
+CREATE TABLE payments."settlement_transitions" (
+  "id" UUID NOT NULL,
+  "paymentRequestId" UUID NOT NULL,
+  "fromStatus" payments."SettlementStatus" NOT NULL,
+  "toStatus" payments."SettlementStatus" NOT NULL,
+  "actor" VARCHAR(100) NOT NULL,
+  "reason" VARCHAR(500),
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "settlement_transitions_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "settlement_transitions_paymentRequestId_createdAt_idx" ON payments."settlement_transitions"("paymentRequestId", "createdAt");
+
+ALTER TABLE payments."settlement_transitions"
+  ADD CONSTRAINT "settlement_transitions_paymentRequestId_fkey"
+  FOREIGN KEY ("paymentRequestId") REFERENCES payments."payment_requests"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- Stored first responses for Idempotency-Key retries on payment creation
+CREATE TABLE ops."idempotency_keys" (
+  "id" UUID NOT NULL,
+  "merchantId" UUID NOT NULL,
+  "key" VARCHAR(255) NOT NULL,
+  "requestPath" VARCHAR(255) NOT NULL,
+  "requestHash" VARCHAR(64) NOT NULL,
+  "responseStatus" INTEGER,
+  "responseBody" JSONB,
+  "expiresAt" TIMESTAMP(3) NOT NULL,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "idempotency_keys_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "idempotency_keys_merchantId_key_key" ON ops."idempotency_keys"("merchantId", "key");
+CREATE INDEX "idempotency_keys_expiresAt_idx" ON ops."idempotency_keys"("expiresAt");
+
+ALTER TABLE ops."idempotency_keys"
+  ADD CONSTRAINT "idempotency_keys_merchantId_fkey"
+  FOREIGN KEY ("merchantId") REFERENCES core."merchants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- Processing lease so a key left unanswered by a crashed request can be reclaimed
+ALTER TABLE ops."idempotency_keys"
+  ADD COLUMN "lockedUntil" TIMESTAMP(3);
@@ -0,0 +1,2 @@
+-- Cursor pagination of a merchant's payment requests by creation time
+CREATE INDEX "payment_requests_merchantId_createdAt_idx" ON payments."payment_requests"("merchantId", "createdAt");
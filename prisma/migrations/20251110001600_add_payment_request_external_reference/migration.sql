@@ -0,0 +1,5 @@
+-- Merchant's own invoice/order reference on payment requests, set by bulk uploads and filterable on the list
+ALTER TABLE payments."payment_requests"
+  ADD COLUMN "externalReference" VARCHAR(100);
+
+CREATE INDEX "payment_requests_merchantId_externalReference_idx" ON payments."payment_requests"("merchantId", "externalReference");
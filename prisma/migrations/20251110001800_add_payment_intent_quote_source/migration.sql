@@ -0,0 +1,4 @@
+-- Which price providers an intent's quote was aggregated from, and when the oldest price was fetched
+ALTER TABLE payments."payment_intents"
+  ADD COLUMN "quoteSource" VARCHAR(100),
+  ADD COLUMN "quotePricedAt" TIMESTAMP(3);
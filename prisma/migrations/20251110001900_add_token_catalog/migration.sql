@@ -0,0 +1,41 @@
+-- Catalog of supported tokens, with merchant requests reviewed by an admin
+CREATE TYPE payments."TokenStatus" AS ENUM ('PENDING', 'VERIFIED', 'REJECTED');
+
+CREATE TABLE payments."tokens" (
+  "id" UUID NOT NULL,
+  "network" VARCHAR(20) NOT NULL,
+  "contractAddress" VARCHAR(255),
+  "tokenSymbol" VARCHAR(20) NOT NULL,
+  "tokenName" VARCHAR(100),
+  "tokenType" VARCHAR(20) NOT NULL,
+  "decimals" INTEGER NOT NULL,
+  "priceIds" JSONB NOT NULL DEFAULT '{}',
+  "status" payments."TokenStatus" NOT NULL DEFAULT 'PENDING',
+  "requestedByMerchantId" UUID,
+  "requestNote" VARCHAR(500),
+  "reviewedBy" VARCHAR(255),
+  "reviewedAt" TIMESTAMP(3),
+  "reviewNote" VARCHAR(500),
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+
+  CONSTRAINT "tokens_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "tokens_network_contractAddress_key" ON payments."tokens"("network", "contractAddress");
+CREATE INDEX "tokens_network_tokenSymbol_idx" ON payments."tokens"("network", "tokenSymbol");
+CREATE INDEX "tokens_status_idx" ON payments."tokens"("status");
+CREATE INDEX "tokens_requestedByMerchantId_idx" ON payments."tokens"("requestedByMerchantId");
+
+ALTER TABLE payments."tokens"
+  ADD CONSTRAINT "tokens_requestedByMerchantId_fkey"
+  FOREIGN KEY ("requestedByMerchantId") REFERENCES core."merchants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE payments."wallets"
+  ADD COLUMN "tokenId" UUID;
+
+CREATE INDEX "wallets_tokenId_idx" ON payments."wallets"("tokenId");
+
+ALTER TABLE payments."wallets"
+  ADD CONSTRAINT "wallets_tokenId_fkey"
+  FOREIGN KEY ("tokenId") REFERENCES payments."tokens"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- NULL contract addresses never conflict in "tokens_network_contractAddress_key", so native coins
+-- get their own uniqueness per network and symbol
+CREATE UNIQUE INDEX "tokens_network_tokenSymbol_native_key" ON payments."tokens"("network", "tokenSymbol")
+  WHERE "contractAddress" IS NULL;
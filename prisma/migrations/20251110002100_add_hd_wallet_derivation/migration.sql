@@ -0,0 +1,22 @@
+-- HD wallets: a deposit address derived per payment intent from the wallet's extended public key
+ALTER TABLE payments."wallets"
+  ADD COLUMN "xpub" VARCHAR(255),
+  ADD COLUMN "derivationPath" VARCHAR(50);
+
+ALTER TABLE payments."payment_intents"
+  ADD COLUMN "derivationIndex" INTEGER;
+
+CREATE INDEX "payment_intents_targetAddress_idx" ON payments."payment_intents"("targetAddress");
+
+CREATE TABLE payments."address_derivation_cursors" (
+  "id" UUID NOT NULL,
+  "xpub" VARCHAR(255) NOT NULL,
+  "derivationPath" VARCHAR(50) NOT NULL,
+  "nextIndex" INTEGER NOT NULL DEFAULT 0,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+
+  CONSTRAINT "address_derivation_cursors_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "address_derivation_cursors_xpub_derivationPath_key" ON payments."address_derivation_cursors"("xpub", "derivationPath");
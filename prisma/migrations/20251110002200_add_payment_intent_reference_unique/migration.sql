@@ -0,0 +1,2 @@
+-- A payment reference identifies exactly one intent on its network
+CREATE UNIQUE INDEX "payment_intents_selectedChain_targetMemo_key" ON payments."payment_intents"("selectedChain", "targetMemo");
@@ -0,0 +1,43 @@
+-- Refunds of paid payment intents back to the buyer
+CREATE TYPE payments."RefundStatus" AS ENUM ('REQUESTED', 'APPROVED', 'SENT', 'CONFIRMED', 'CANCELED');
+
+CREATE TABLE payments."refunds" (
+  "id" UUID NOT NULL,
+  "paymentRequestId" UUID NOT NULL,
+  "paymentIntentId" UUID NOT NULL,
+  "merchantId" UUID NOT NULL,
+  "amountFiat" DECIMAL(18,6) NOT NULL,
+  "currencyFiat" VARCHAR(3) NOT NULL,
+  "amountCrypto" DECIMAL(38,18) NOT NULL,
+  "coin" VARCHAR(20) NOT NULL,
+  "network" VARCHAR(20) NOT NULL,
+  "destinationAddress" VARCHAR(255) NOT NULL,
+  "status" payments."RefundStatus" NOT NULL DEFAULT 'REQUESTED',
+  "reason" VARCHAR(500),
+  "txId" VARCHAR(255),
+  "approvedAt" TIMESTAMP(3),
+  "sentAt" TIMESTAMP(3),
+  "confirmedAt" TIMESTAMP(3),
+  "canceledAt" TIMESTAMP(3),
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+
+  CONSTRAINT "refunds_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "refunds_paymentRequestId_idx" ON payments."refunds"("paymentRequestId");
+CREATE INDEX "refunds_paymentIntentId_idx" ON payments."refunds"("paymentIntentId");
+CREATE INDEX "refunds_merchantId_status_idx" ON payments."refunds"("merchantId", "status");
+CREATE INDEX "refunds_txId_idx" ON payments."refunds"("txId");
+
+ALTER TABLE payments."refunds"
+  ADD CONSTRAINT "refunds_paymentRequestId_fkey"
+  FOREIGN KEY ("paymentRequestId") REFERENCES payments."payment_requests"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+ALTER TABLE payments."refunds"
+  ADD CONSTRAINT "refunds_paymentIntentId_fkey"
+  FOREIGN KEY ("paymentIntentId") REFERENCES payments."payment_intents"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+ALTER TABLE payments."refunds"
+  ADD CONSTRAINT "refunds_merchantId_fkey"
+  FOREIGN KEY ("merchantId") REFERENCES core."merchants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
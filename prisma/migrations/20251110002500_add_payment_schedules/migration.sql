@@ -0,0 +1,63 @@
+-- Recurring payment schedules and the payment request created for each of their cycles
+CREATE TYPE payments."ScheduleCadence" AS ENUM ('WEEKLY', 'MONTHLY', 'CRON');
+CREATE TYPE payments."ScheduleStatus" AS ENUM ('ACTIVE', 'PAUSED', 'CANCELED');
+CREATE TYPE payments."ScheduleCycleStatus" AS ENUM ('PENDING', 'PAID', 'MISSED', 'FAILED');
+
+CREATE TABLE payments."payment_schedules" (
+  "id" UUID NOT NULL,
+  "merchantId" UUID NOT NULL,
+  "amountFiat" DECIMAL(18,6) NOT NULL,
+  "currencyFiat" VARCHAR(3) NOT NULL,
+  "description" VARCHAR(500),
+  "cadence" payments."ScheduleCadence" NOT NULL,
+  "cronExpression" VARCHAR(100),
+  "startAt" TIMESTAMP(3) NOT NULL,
+  "nextRunAt" TIMESTAMP(3),
+  "dueDays" INTEGER NOT NULL DEFAULT 7,
+  "buyerEmail" VARCHAR(255),
+  "pauseAfterMissed" INTEGER NOT NULL DEFAULT 3,
+  "missedCycles" INTEGER NOT NULL DEFAULT 0,
+  "cycleCount" INTEGER NOT NULL DEFAULT 0,
+  "status" payments."ScheduleStatus" NOT NULL DEFAULT 'ACTIVE',
+  "pausedAt" TIMESTAMP(3),
+  "pauseReason" VARCHAR(255),
+  "lastRunAt" TIMESTAMP(3),
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+
+  CONSTRAINT "payment_schedules_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "payment_schedules_merchantId_status_idx" ON payments."payment_schedules"("merchantId", "status");
+CREATE INDEX "payment_schedules_status_nextRunAt_idx" ON payments."payment_schedules"("status", "nextRunAt");
+
+ALTER TABLE payments."payment_schedules"
+  ADD CONSTRAINT "payment_schedules_merchantId_fkey"
+  FOREIGN KEY ("merchantId") REFERENCES core."merchants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE TABLE payments."payment_schedule_cycles" (
+  "id" UUID NOT NULL,
+  "scheduleId" UUID NOT NULL,
+  "cycleNumber" INTEGER NOT NULL,
+  "scheduledFor" TIMESTAMP(3) NOT NULL,
+  "paymentRequestId" UUID,
+  "status" payments."ScheduleCycleStatus" NOT NULL DEFAULT 'PENDING',
+  "error" VARCHAR(500),
+  "emailSentAt" TIMESTAMP(3),
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+
+  CONSTRAINT "payment_schedule_cycles_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "payment_schedule_cycles_paymentRequestId_key" ON payments."payment_schedule_cycles"("paymentRequestId");
+CREATE UNIQUE INDEX "payment_schedule_cycles_scheduleId_cycleNumber_key" ON payments."payment_schedule_cycles"("scheduleId", "cycleNumber");
+CREATE INDEX "payment_schedule_cycles_status_idx" ON payments."payment_schedule_cycles"("status");
+
+ALTER TABLE payments."payment_schedule_cycles"
+  ADD CONSTRAINT "payment_schedule_cycles_scheduleId_fkey"
+  FOREIGN KEY ("scheduleId") REFERENCES payments."payment_schedules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE payments."payment_schedule_cycles"
+  ADD CONSTRAINT "payment_schedule_cycles_paymentRequestId_fkey"
+  FOREIGN KEY ("paymentRequestId") REFERENCES payments."payment_requests"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,159 @@
+import { Request, Response, NextFunction } from 'express';
+import { createHash } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../infrastructure/database/client';
+import { config } from '../../config';
+import { logger } from '../../common/logger';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * JSON with object keys sorted, so the same body always hashes the same
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+function hashRequestBody(body: unknown): string {
+  return createHash('sha256').update(canonicalJson(body ?? {})).digest('hex');
+}
+
+interface IdempotencyOptions {
+  // Narrows keys within the merchant, e.g. to one anonymous buyer; scoped keys are stored hashed
+  scope?: (req: Request) => string;
+}
+
+/**
+ * Middleware factory that makes a creation endpoint safe to retry with an Idempotency-Key header
+ *
+ * The first response for a key is stored per merchant; a retry with the same key and body
+ * replays it without running the handler again. Reusing a key with a different body fails
+ * with 422, and a retry while the first request is still running fails with 409.
+ * 5xx and 429 responses are not stored, so the client can retry them.
+ * A key holds a processing lease of lockTtlSeconds; if no response was stored by then (e.g. the
+ * instance crashed) the next retry reclaims the key and runs the handler again.
+ * resolveMerchantId returns the merchant that owns the key, or null to skip idempotency
+ * (the handler then reports the missing merchant itself).
+ */
+export function idempotent(
+  resolveMerchantId: (req: Request) => Promise<string | null> | string | null,
+  options: IdempotencyOptions = {}
+) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const clientKey = req.header(IDEMPOTENCY_KEY_HEADER);
+
+    if (clientKey === undefined) {
+      next();
+      return;
+    }
+
+    if (clientKey.trim().length === 0 || clientKey.length > MAX_KEY_LENGTH) {
+      res.status(400).json({ error: `${IDEMPOTENCY_KEY_HEADER} must be 1-${MAX_KEY_LENGTH} characters` });
+      return;
+    }
+
+    try {
+      const merchantId = await resolveMerchantId(req);
+
+      if (!merchantId) {
+        next();
+        return;
+      }
+
+      const key = options.scope
+        ? createHash('sha256').update(`${options.scope(req)}\n${clientKey}`).digest('hex')
+        : clientKey;
+      const requestPath = req.baseUrl + req.path;
+      const requestHash = hashRequestBody(req.body);
+      const now = new Date();
+
+      // Expired keys, and keys whose request never answered within its lease, may be reused as if they were new
+      await prisma.idempotencyKey.deleteMany({
+        where: {
+          merchantId,
+          key,
+          OR: [{ expiresAt: { lte: now } }, { responseStatus: null, lockedUntil: { lte: now } }],
+        },
+      });
+
+      let record: { id: string };
+      try {
+        record = await prisma.idempotencyKey.create({
+          data: {
+            merchantId,
+            key,
+            requestPath,
+            requestHash,
+            lockedUntil: new Date(now.getTime() + config.idempotency.lockTtlSeconds * 1000),
+            expiresAt: new Date(now.getTime() + config.idempotency.keyTtlHours * 60 * 60 * 1000),
+          },
+          select: { id: true },
+        });
+      } catch (error) {
+        if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') {
+          throw error;
+        }
+
+        const existing = await prisma.idempotencyKey.findUnique({
+          where: { merchantId_key: { merchantId, key } },
+          select: { requestPath: true, requestHash: true, responseStatus: true, responseBody: true },
+        });
+
+        if (!existing) {
+          res.status(409).json({ error: 'A request with this Idempotency-Key is still being processed' });
+          return;
+        }
+
+        if (existing.requestPath !== requestPath || existing.requestHash !== requestHash) {
+          res.status(422).json({ error: 'Idempotency-Key was already used with a different request' });
+          return;
+        }
+
+        if (existing.responseStatus === null) {
+          res.status(409).json({ error: 'A request with this Idempotency-Key is still being processed' });
+          return;
+        }
+
+        res.setHeader('Idempotent-Replayed', 'true');
+        res.status(existing.responseStatus).json(existing.responseBody);
+        return;
+      }
+
+      // Store the first response before it is sent, so a retry never sees it half-written
+      const send = res.json.bind(res);
+      res.json = ((body: unknown) => {
+        const status = res.statusCode;
+        const store =
+          status >= 500 || status === 429
+            ? prisma.idempotencyKey.delete({ where: { id: record.id } })
+            : prisma.idempotencyKey.update({
+                where: { id: record.id },
+                data: { responseStatus: status, responseBody: body as Prisma.InputJsonValue, lockedUntil: null },
+              });
+
+        store
+          .catch((error: any) => {
+            logger.error('Failed to store idempotent response', { key, merchantId, error: error.message });
+          })
+          .finally(() => send(body));
+
+        return res;
+      }) as Response['json'];
+
+      next();
+    } catch (error: any) {
+      logger.error('Idempotency check failed', { key: clientKey, error: error.message });
+      res.status(500).json({ error: 'Failed to process Idempotency-Key' });
+    }
+  };
+}
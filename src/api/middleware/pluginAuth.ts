@@ -0,0 +1,159 @@
+import { Request, Response, NextFunction } from 'express';
+import { prisma } from '../../infrastructure/database/client';
+import { redis } from '../../infrastructure/cache/redis';
+import { config } from '../../config';
+import { logger } from '../../common/logger';
+import {
+  PLUGIN_ID_HEADER,
+  PLUGIN_SIGNATURE_HEADER,
+  PLUGIN_SIGNATURE_TOLERANCE_SECONDS,
+  PLUGIN_TIMESTAMP_HEADER,
+  derivePluginSecret,
+  hashPluginSecret,
+  verifyPluginSignature,
+} from '../../common/plugins/signature';
+
+export interface PluginRequest extends Request {
+  rawBody?: Buffer;
+  plugin?: {
+    id: string;
+    pluginId: string;
+    allowedChains: string[];
+  };
+}
+
+/**
+ * Middleware to authenticate requests from registered chain plugins
+ * Verifies the HMAC over method, path, timestamp and raw body, and rejects replayed signatures
+ */
+export async function authenticatePlugin(
+  req: PluginRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const pluginId = req.header(PLUGIN_ID_HEADER);
+    const timestamp = req.header(PLUGIN_TIMESTAMP_HEADER);
+    const signature = req.header(PLUGIN_SIGNATURE_HEADER);
+
+    if (!pluginId || !timestamp || !signature) {
+      res.status(401).json({ error: 'Missing plugin authentication headers' });
+      return;
+    }
+
+    const plugin = await prisma.pluginRegistry.findUnique({
+      where: { pluginId },
+      select: {
+        id: true,
+        pluginId: true,
+        enabled: true,
+        allowedChains: true,
+        secretHash: true,
+        secretSalt: true,
+      },
+    });
+
+    if (!plugin || !plugin.secretSalt) {
+      logger.warn('Request from unknown plugin', { pluginId });
+      res.status(401).json({ error: 'Invalid plugin credentials' });
+      return;
+    }
+
+    if (!plugin.enabled) {
+      res.status(403).json({ error: 'Plugin is disabled' });
+      return;
+    }
+
+    const secret = derivePluginSecret(config.security.pluginHmacSecret, plugin.pluginId, plugin.secretSalt);
+
+    if (hashPluginSecret(secret) !== plugin.secretHash) {
+      logger.error('Plugin secret does not match stored hash - was PLUGIN_HMAC_SECRET changed?', { pluginId });
+      res.status(401).json({ error: 'Invalid plugin credentials' });
+      return;
+    }
+
+    const valid = verifyPluginSignature({
+      secret,
+      method: req.method,
+      path: req.originalUrl,
+      timestamp,
+      body: req.rawBody ? req.rawBody.toString('utf8') : '',
+      signature,
+    });
+
+    if (!valid) {
+      logger.warn('Invalid plugin request signature', { pluginId, path: req.originalUrl });
+      res.status(401).json({ error: 'Invalid plugin signature' });
+      return;
+    }
+
+    // A signature is only accepted once within the timestamp tolerance window
+    const fresh = await redis.set(
+      `plugin-sig:${plugin.pluginId}:${signature}`,
+      '1',
+      'EX',
+      PLUGIN_SIGNATURE_TOLERANCE_SECONDS * 2,
+      'NX',
+    );
+
+    if (!fresh) {
+      logger.warn('Replayed plugin request rejected', { pluginId, path: req.originalUrl });
+      res.status(401).json({ error: 'Replayed request' });
+      return;
+    }
+
+    await prisma.pluginRegistry.update({
+      where: { id: plugin.id },
+      data: { lastSeenAt: new Date() },
+    });
+
+    req.plugin = {
+      id: plugin.id,
+      pluginId: plugin.pluginId,
+      allowedChains: plugin.allowedChains,
+    };
+
+    next();
+  } catch (error) {
+    logger.error('Plugin authentication failed', { error });
+    res.status(401).json({ error: 'Authentication failed' });
+  }
+}
+
+/**
+ * Middleware factory that rejects plugin requests for chains outside the plugin's allowedChains
+ * resolveChain returns the chain the request acts on, or null when the target does not exist
+ */
+export function requirePluginChain(
+  resolveChain: (req: PluginRequest) => Promise<string | null> | string | null
+) {
+  return async (req: PluginRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.plugin) {
+        res.status(401).json({ error: 'Plugin authentication required' });
+        return;
+      }
+
+      const chain = await resolveChain(req);
+
+      if (!chain) {
+        res.status(404).json({ error: 'Resource not found' });
+        return;
+      }
+
+      if (!req.plugin.allowedChains.includes(chain.toUpperCase())) {
+        logger.warn('Plugin attempted action on disallowed chain', {
+          pluginId: req.plugin.pluginId,
+          chain,
+        });
+        res.status(403).json({ error: `Plugin is not allowed to act on chain ${chain}` });
+        return;
+      }
+
+      next();
+    } catch (error) {
+      logger.error('Plugin chain check failed', { error });
+      res.status(500).json({ error: 'Failed to verify plugin chain' });
+    }
+  };
+}
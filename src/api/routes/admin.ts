@@ -1,7 +1,17 @@
 import { Router, Request, Response } from 'express';
+import crypto from 'crypto';
 import { prisma } from '../../infrastructure/database/client';
 import { authenticateAdmin, AdminRequest } from '../middleware/adminAuth';
 import { validateAdminSupabaseToken } from '../../infrastructure/supabase/adminClient';
+import { publishDomainEvents } from '../../infrastructure/events/outboxPublisher';
+import { MerchantSettingsUpdated, MerchantSuspended, MerchantUnsuspended, MerchantDeleted } from '../../domain/events/DomainEvent';
+import { validate } from '../../common/validation/validator';
+import { adminSchemas, querySchemas, tokenSchemas } from '../../common/validation/schemas';
+import { catalogTokenSelect, findCatalogToken } from '../../application/tokens/TokenCatalog';
+import { normalizeAddressFields } from '../../domain/utils/addresses';
+import { AppError } from '../../common/errors/AppError';
+import { config } from '../../config';
+import { derivePluginSecret, hashPluginSecret } from '../../common/plugins/signature';
 
 const router = Router();
 
@@ -116,9 +126,17 @@ router.patch('/merchants/:id', authenticateAdmin, async (req: AdminRequest, res:
     if (paymentLinkMonthlyLimit !== undefined) updateData.paymentLinkMonthlyLimit = parseInt(paymentLinkMonthlyLimit);
     if (walletLimit !== undefined) updateData.walletLimit = parseInt(walletLimit);
 
-    const merchant = await prisma.merchant.update({
-      where: { id },
-      data: updateData,
+    const merchant = await prisma.$transaction(async (tx) => {
+      const updated = await tx.merchant.update({
+        where: { id },
+        data: updateData,
+      });
+
+      await publishDomainEvents(tx, [
+        new MerchantSettingsUpdated(id, updateData, req.admin?.email || req.authUser?.email || 'admin'),
+      ]);
+
+      return updated;
     });
     
     return res.json({ success: true, data: merchant });
@@ -155,27 +173,33 @@ router.post('/merchants/:id/suspend', authenticateAdmin, async (req: AdminReques
     const suspendedByEmail = req.admin?.email || req.authUser.email || 'unknown';
     const suspendedById = req.admin?.id || req.authUser.id;
 
-    // Update merchant with suspension
-    await prisma.merchant.update({
-      where: { id },
-      data: {
-        suspendedAt: new Date(),
-        suspendedBy: suspendedById,
-        suspendedReason: reason || 'Suspended by admin',
-      },
-    });
+    await prisma.$transaction(async (tx) => {
+      // Update merchant with suspension
+      await tx.merchant.update({
+        where: { id },
+        data: {
+          suspendedAt: new Date(),
+          suspendedBy: suspendedById,
+          suspendedReason: reason || 'Suspended by admin',
+        },
+      });
 
-    // Create audit log
-    await prisma.auditLog.create({
-      data: {
-        merchantId: id,
-        action: 'MERCHANT_SUSPENDED',
-        resourceId: id,
-        payload: {
-          suspendedBy: suspendedByEmail,
-          reason: reason || 'Suspended by admin',
+      // Create audit log
+      await tx.auditLog.create({
+        data: {
+          merchantId: id,
+          action: 'MERCHANT_SUSPENDED',
+          resourceId: id,
+          payload: {
+            suspendedBy: suspendedByEmail,
+            reason: reason || 'Suspended by admin',
+          },
         },
-      },
+      });
+
+      await publishDomainEvents(tx, [
+        new MerchantSuspended(id, reason || 'Suspended by admin', suspendedByEmail),
+      ]);
     });
 
     return res.json({ success: true, message: 'Merchant suspended successfully' });
@@ -210,26 +234,30 @@ router.post('/merchants/:id/unsuspend', authenticateAdmin, async (req: AdminRequ
 
     const unsuspendedByEmail = req.admin?.email || req.authUser.email || 'unknown';
 
-    // Update merchant to remove suspension
-    await prisma.merchant.update({
-      where: { id },
-      data: {
-        suspendedAt: null,
-        suspendedBy: null,
-        suspendedReason: null,
-      },
-    });
+    await prisma.$transaction(async (tx) => {
+      // Update merchant to remove suspension
+      await tx.merchant.update({
+        where: { id },
+        data: {
+          suspendedAt: null,
+          suspendedBy: null,
+          suspendedReason: null,
+        },
+      });
 
-    // Create audit log
-    await prisma.auditLog.create({
-      data: {
-        merchantId: id,
-        action: 'MERCHANT_UNSUSPENDED',
-        resourceId: id,
-        payload: {
-          unsuspendedBy: unsuspendedByEmail,
+      // Create audit log
+      await tx.auditLog.create({
+        data: {
+          merchantId: id,
+          action: 'MERCHANT_UNSUSPENDED',
+          resourceId: id,
+          payload: {
+            unsuspendedBy: unsuspendedByEmail,
+          },
         },
-      },
+      });
+
+      await publishDomainEvents(tx, [new MerchantUnsuspended(id, unsuspendedByEmail)]);
     });
 
     return res.json({ success: true, message: 'Merchant unsuspended successfully' });
@@ -280,23 +308,33 @@ router.delete('/merchants/:id', authenticateAdmin, async (req: AdminRequest, res
     });
 
     // Delete related records in correct order to handle foreign key constraints
+    // Refunds must be deleted before PaymentIntents and PaymentRequests (Restrict constraint)
     // PaymentIntents must be deleted before PaymentRequests (Restrict constraint)
     // PaymentRequests must be deleted before Merchant (Restrict constraint)
     // Wallets, Webhooks will cascade delete automatically
     
-    // Step 1: Delete PaymentIntents (they block PaymentRequest deletion)
+    // Step 1: Delete Refunds (they block PaymentIntent and PaymentRequest deletion)
+    await prisma.refund.deleteMany({
+      where: { merchantId: id },
+    });
+
+    // Step 2: Delete PaymentIntents (they block PaymentRequest deletion)
     await prisma.paymentIntent.deleteMany({
       where: { merchantId: id },
     });
 
-    // Step 2: Delete PaymentRequests (they block Merchant deletion)
+    // Step 3: Delete PaymentRequests (they block Merchant deletion)
     await prisma.paymentRequest.deleteMany({
       where: { merchantId: id },
     });
 
-    // Step 3: Delete merchant (cascades to Wallets, Webhooks; sets AuditLogs.merchantId to null)
-    await prisma.merchant.delete({
-      where: { id },
+    // Step 4: Delete merchant (cascades to Wallets, Webhooks; sets AuditLogs.merchantId to null)
+    await prisma.$transaction(async (tx) => {
+      await tx.merchant.delete({
+        where: { id },
+      });
+
+      await publishDomainEvents(tx, [new MerchantDeleted(id, deletedByEmail)]);
     });
 
     return res.json({ success: true, message: 'Merchant deleted' });
@@ -342,4 +380,355 @@ router.get("/stats", authenticateAdmin, async (req: AdminRequest, res: Response)
   }
 });
 
+/**
+ * Plugin registry (super admins only)
+ */
+const pluginSelect = {
+  id: true,
+  pluginId: true,
+  baseUrl: true,
+  healthUrl: true,
+  allowedChains: true,
+  enabled: true,
+  lastSeenAt: true,
+  secretRotatedAt: true,
+  createdAt: true,
+  updatedAt: true,
+};
+
+/**
+ * Generate a fresh salt and the plugin secret derived from it
+ */
+function issuePluginSecret(pluginId: string): { secret: string; secretSalt: string; secretHash: string } {
+  const secretSalt = crypto.randomBytes(32).toString('hex');
+  const secret = derivePluginSecret(config.security.pluginHmacSecret, pluginId, secretSalt);
+  return { secret, secretSalt, secretHash: hashPluginSecret(secret) };
+}
+
+/**
+ * GET /admin/plugins
+ */
+router.get('/plugins', authenticateAdmin, async (req: AdminRequest, res: Response) => {
+  try {
+    if (!req.admin) {
+      return res.status(403).json({ error: 'Super admin access required' });
+    }
+
+    const plugins = await prisma.pluginRegistry.findMany({
+      select: pluginSelect,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return res.json({ success: true, data: plugins });
+  } catch (error) {
+    console.error('List plugins error:', error);
+    return res.status(500).json({ error: 'Failed to fetch plugins' });
+  }
+});
+
+/**
+ * POST /admin/plugins
+ * Register a chain plugin. The signing secret is returned once
+ */
+router.post('/plugins', authenticateAdmin, validate(adminSchemas.registerPlugin), async (req: AdminRequest, res: Response) => {
+  try {
+    if (!req.admin) {
+      return res.status(403).json({ error: 'Super admin access required' });
+    }
+
+    const { pluginId, baseUrl, healthUrl, allowedChains } = req.body;
+
+    const existing = await prisma.pluginRegistry.findUnique({
+      where: { pluginId },
+      select: { id: true },
+    });
+
+    if (existing) {
+      return res.status(409).json({ error: 'Plugin already registered' });
+    }
+
+    const { secret, secretSalt, secretHash } = issuePluginSecret(pluginId);
+
+    const plugin = await prisma.$transaction(async (tx) => {
+      const created = await tx.pluginRegistry.create({
+        data: {
+          pluginId,
+          baseUrl,
+          healthUrl,
+          allowedChains,
+          secretSalt,
+          secretHash,
+          secretRotatedAt: new Date(),
+        },
+        select: pluginSelect,
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: 'PLUGIN_REGISTERED',
+          resourceId: created.id,
+          payload: { pluginId, baseUrl, allowedChains, registeredBy: req.admin!.email },
+        },
+      });
+
+      return created;
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: { ...plugin, secret },
+      message: 'Plugin registered. Store the secret securely - it will not be shown again.',
+    });
+  } catch (error) {
+    console.error('Register plugin error:', error);
+    return res.status(500).json({ error: 'Failed to register plugin' });
+  }
+});
+
+/**
+ * Enable or disable a plugin
+ */
+async function setPluginEnabled(req: AdminRequest, res: Response, enabled: boolean) {
+  try {
+    if (!req.admin) {
+      return res.status(403).json({ error: 'Super admin access required' });
+    }
+
+    const { pluginId } = req.params;
+
+    const existing = await prisma.pluginRegistry.findUnique({
+      where: { pluginId },
+      select: { id: true },
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Plugin not found' });
+    }
+
+    const plugin = await prisma.$transaction(async (tx) => {
+      const updated = await tx.pluginRegistry.update({
+        where: { id: existing.id },
+        data: { enabled },
+        select: pluginSelect,
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: enabled ? 'PLUGIN_ENABLED' : 'PLUGIN_DISABLED',
+          resourceId: existing.id,
+          payload: { pluginId, changedBy: req.admin!.email },
+        },
+      });
+
+      return updated;
+    });
+
+    return res.json({ success: true, data: plugin });
+  } catch (error) {
+    console.error('Update plugin error:', error);
+    return res.status(500).json({ error: 'Failed to update plugin' });
+  }
+}
+
+/**
+ * POST /admin/plugins/:pluginId/enable
+ */
+router.post('/plugins/:pluginId/enable', authenticateAdmin, (req: AdminRequest, res: Response) =>
+  setPluginEnabled(req, res, true)
+);
+
+/**
+ * POST /admin/plugins/:pluginId/disable
+ */
+router.post('/plugins/:pluginId/disable', authenticateAdmin, (req: AdminRequest, res: Response) =>
+  setPluginEnabled(req, res, false)
+);
+
+/**
+ * POST /admin/plugins/:pluginId/rotate-secret
+ * Issue a new signing secret. The old secret stops working immediately
+ */
+router.post('/plugins/:pluginId/rotate-secret', authenticateAdmin, async (req: AdminRequest, res: Response) => {
+  try {
+    if (!req.admin) {
+      return res.status(403).json({ error: 'Super admin access required' });
+    }
+
+    const { pluginId } = req.params;
+
+    const existing = await prisma.pluginRegistry.findUnique({
+      where: { pluginId },
+      select: { id: true },
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Plugin not found' });
+    }
+
+    const { secret, secretSalt, secretHash } = issuePluginSecret(pluginId);
+
+    await prisma.$transaction(async (tx) => {
+      await tx.pluginRegistry.update({
+        where: { id: existing.id },
+        data: { secretSalt, secretHash, secretRotatedAt: new Date() },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: 'PLUGIN_SECRET_ROTATED',
+          resourceId: existing.id,
+          payload: { pluginId, rotatedBy: req.admin!.email },
+        },
+      });
+    });
+
+    return res.json({
+      success: true,
+      data: { pluginId, secret },
+      message: 'Plugin secret rotated. Store the secret securely - it will not be shown again.',
+    });
+  } catch (error) {
+    console.error('Rotate plugin secret error:', error);
+    return res.status(500).json({ error: 'Failed to rotate plugin secret' });
+  }
+});
+
+/**
+ * GET /admin/tokens
+ * Token catalog, optionally filtered by network or status (e.g. PENDING requests to review)
+ */
+router.get('/tokens', authenticateAdmin, validate(querySchemas.tokenList, 'query'), async (req: AdminRequest, res: Response) => {
+  try {
+    if (!req.admin) {
+      return res.status(403).json({ error: 'Super admin access required' });
+    }
+
+    const { network, status } = req.query as { network?: string; status?: 'PENDING' | 'VERIFIED' | 'REJECTED' };
+
+    const tokens = await prisma.token.findMany({
+      where: { ...(network && { network }), ...(status && { status }) },
+      select: {
+        ...catalogTokenSelect,
+        reviewedBy: true,
+        requestedBy: { select: { id: true, businessName: true } },
+      },
+      orderBy: [{ status: 'asc' }, { createdAt: 'desc' }],
+    });
+
+    return res.json({ success: true, data: tokens });
+  } catch (error) {
+    console.error('List tokens error:', error);
+    return res.status(500).json({ error: 'Failed to fetch tokens' });
+  }
+});
+
+/**
+ * POST /admin/tokens
+ * Add a verified token to the catalog
+ */
+router.post('/tokens', authenticateAdmin, validate(tokenSchemas.createToken), async (req: AdminRequest, res: Response) => {
+  try {
+    if (!req.admin) {
+      return res.status(403).json({ error: 'Super admin access required' });
+    }
+
+    const { network, tokenSymbol, tokenName, tokenType, decimals, priceIds } = req.body;
+    const contractAddress = normalizeAddressFields(network, { contractAddress: req.body.contractAddress }).contractAddress ?? null;
+
+    const existing = await findCatalogToken(network, tokenSymbol, contractAddress);
+
+    if (existing) {
+      return res.status(409).json({ error: `Token already in the catalog (${existing.status})`, data: existing });
+    }
+
+    const token = await prisma.$transaction(async (tx) => {
+      const created = await tx.token.create({
+        data: {
+          network,
+          contractAddress,
+          tokenSymbol,
+          tokenName: tokenName || null,
+          tokenType,
+          decimals,
+          priceIds: priceIds ?? {},
+          status: 'VERIFIED',
+          reviewedBy: req.admin!.email,
+          reviewedAt: new Date(),
+        },
+        select: catalogTokenSelect,
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: 'TOKEN_CREATED',
+          resourceId: created.id,
+          payload: { network, contractAddress, tokenSymbol, createdBy: req.admin!.email },
+        },
+      });
+
+      return created;
+    });
+
+    return res.status(201).json({ success: true, data: token });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message, details: error.details });
+    }
+    console.error('Create token error:', error);
+    return res.status(500).json({ error: 'Failed to create token' });
+  }
+});
+
+/**
+ * PATCH /admin/tokens/:id
+ * Edit a catalog token, or verify/reject a merchant's request
+ */
+router.patch('/tokens/:id', authenticateAdmin, validate(tokenSchemas.updateToken), async (req: AdminRequest, res: Response) => {
+  try {
+    if (!req.admin) {
+      return res.status(403).json({ error: 'Super admin access required' });
+    }
+
+    const { id } = req.params;
+    const { status, reviewNote, ...fields } = req.body;
+
+    const existing = await prisma.token.findUnique({
+      where: { id },
+      select: { id: true, status: true, requestedByMerchantId: true },
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Token not found' });
+    }
+
+    const token = await prisma.$transaction(async (tx) => {
+      const updated = await tx.token.update({
+        where: { id },
+        data: {
+          ...fields,
+          ...(status && { status, reviewedBy: req.admin!.email, reviewedAt: new Date() }),
+          ...(reviewNote !== undefined && { reviewNote }),
+        },
+        select: catalogTokenSelect,
+      });
+
+      await tx.auditLog.create({
+        data: {
+          merchantId: existing.requestedByMerchantId,
+          action: status && status !== existing.status ? `TOKEN_${status}` : 'TOKEN_UPDATED',
+          resourceId: id,
+          payload: { ...fields, status, reviewNote, changedBy: req.admin!.email },
+        },
+      });
+
+      return updated;
+    });
+
+    return res.json({ success: true, data: token });
+  } catch (error) {
+    console.error('Update token error:', error);
+    return res.status(500).json({ error: 'Failed to update token' });
+  }
+});
+
 export default router;
@@ -6,6 +6,8 @@ import { validate } from '../../common/validation/validator';
 import { authSchemas } from '../../common/validation/schemas';
 import { generateSlug, normalizeEmail } from '../../domain/utils/auth';
 import { logger } from '../../common/logger';
+import { publishDomainEvents } from '../../infrastructure/events/outboxPublisher';
+import { MerchantRegistered, MerchantSettingsUpdated } from '../../domain/events/DomainEvent';
 
 const router = Router();
 
@@ -19,6 +21,7 @@ const merchantSelect = {
   timezone: true,
   maxBuyerOrdersPerHour: true,
   allowUnsolicitedPayments: true,
+  allowUnderpaymentTopUp: true,
   defaultPaymentExpiryMinutes: true,
   settleTolerancePct: true,
   emailVerified: true,
@@ -80,18 +83,23 @@ router.post(
         select: merchantSelect,
       });
 
+      const profile = { businessName, defaultCurrency: currency, timezone: tz, email: normalizedEmail };
+
       if (existingByAuth) {
-        const updated = await prisma.merchant.update({
-          where: { id: existingByAuth.id },
-          data: {
-            businessName,
-            defaultCurrency: currency,
-            timezone: tz,
-            email: normalizedEmail,
-            lastLoginAt: new Date(),
-            emailVerified: true,
-          },
-          select: merchantSelect,
+        const updated = await prisma.$transaction(async (tx) => {
+          const merchant = await tx.merchant.update({
+            where: { id: existingByAuth.id },
+            data: {
+              ...profile,
+              lastLoginAt: new Date(),
+              emailVerified: true,
+            },
+            select: merchantSelect,
+          });
+
+          await publishDomainEvents(tx, [new MerchantSettingsUpdated(merchant.id, profile, 'merchant')]);
+
+          return merchant;
         });
 
         return res.json({
@@ -107,18 +115,22 @@ router.post(
       });
 
       if (existingByEmail) {
-        const updated = await prisma.merchant.update({
-          where: { id: existingByEmail.id },
-          data: {
-            authUserId: req.authUser.id,
-            businessName,
-            defaultCurrency: currency,
-            timezone: tz,
-            email: normalizedEmail,
-            lastLoginAt: new Date(),
-            emailVerified: true,
-          },
-          select: merchantSelect,
+        const authUserId = req.authUser.id;
+        const updated = await prisma.$transaction(async (tx) => {
+          const merchant = await tx.merchant.update({
+            where: { id: existingByEmail.id },
+            data: {
+              authUserId,
+              ...profile,
+              lastLoginAt: new Date(),
+              emailVerified: true,
+            },
+            select: merchantSelect,
+          });
+
+          await publishDomainEvents(tx, [new MerchantSettingsUpdated(merchant.id, profile, 'merchant')]);
+
+          return merchant;
         });
 
         return res.json({
@@ -130,20 +142,29 @@ router.post(
 
       const slug = await generateUniqueSlug();
 
-      const created = await prisma.merchant.create({
-        data: {
-          id: crypto.randomUUID(),
-          authUserId: req.authUser.id,
-          slug,
-          email: normalizedEmail,
-          businessName,
-          defaultCurrency: currency,
-          timezone: tz,
-          webhookSecret: crypto.randomUUID(),
-          emailVerified: true,
-          lastLoginAt: new Date(),
-        },
-        select: merchantSelect,
+      const authUserId = req.authUser.id;
+      const created = await prisma.$transaction(async (tx) => {
+        const merchant = await tx.merchant.create({
+          data: {
+            id: crypto.randomUUID(),
+            authUserId,
+            slug,
+            email: normalizedEmail,
+            businessName,
+            defaultCurrency: currency,
+            timezone: tz,
+            webhookSecret: crypto.randomUUID(),
+            emailVerified: true,
+            lastLoginAt: new Date(),
+          },
+          select: merchantSelect,
+        });
+
+        await publishDomainEvents(tx, [
+          new MerchantRegistered(merchant.id, merchant.email, merchant.businessName),
+        ]);
+
+        return merchant;
       });
 
       return res.status(201).json({
@@ -0,0 +1,122 @@
+import { Router, Response } from 'express';
+import { prisma } from '../../infrastructure/database/client';
+import { authenticatePlugin, requirePluginChain, PluginRequest } from '../middleware/pluginAuth';
+import { validate } from '../../common/validation/validator';
+import { pluginSchemas, querySchemas } from '../../common/validation/schemas';
+import { AppError } from '../../common/errors/AppError';
+import { recordPaymentEvidence } from '../../application/payments/RecordPaymentEvidence';
+import { findPaymentIntentByReference } from '../../application/payments/FindPaymentIntentByReference';
+
+const router = Router();
+
+/**
+ * Internal API for chain plugins
+ * Every request must be signed - see common/plugins/signature.ts
+ */
+router.use(authenticatePlugin);
+
+/**
+ * GET /internal/plugins/me
+ * Lets a plugin confirm its credentials and see its registration
+ */
+router.get('/plugins/me', async (req: PluginRequest, res: Response) => {
+  try {
+    const plugin = await prisma.pluginRegistry.findUnique({
+      where: { id: req.plugin!.id },
+      select: {
+        pluginId: true,
+        baseUrl: true,
+        healthUrl: true,
+        allowedChains: true,
+        enabled: true,
+        lastSeenAt: true,
+      },
+    });
+
+    return res.json({
+      success: true,
+      data: plugin,
+    });
+  } catch (error) {
+    console.error('Get plugin error:', error);
+    return res.status(500).json({ error: 'Failed to fetch plugin' });
+  }
+});
+
+/**
+ * GET /internal/intents/lookup?network=&memo=|address=
+ * Match an observed transaction to its payment intent by reference (memo) or derived address
+ */
+router.get(
+  '/intents/lookup',
+  validate(querySchemas.intentLookup, 'query'),
+  requirePluginChain((req) => req.query.network as string),
+  async (req: PluginRequest, res: Response) => {
+    try {
+      const { network, memo, address } = req.query as { network: string; memo?: string; address?: string };
+
+      const intent = await findPaymentIntentByReference({ network, memo, address });
+
+      if (!intent) {
+        return res.status(404).json({ error: 'No payment intent matches this reference' });
+      }
+
+      return res.json({
+        success: true,
+        data: intent,
+      });
+    } catch (error) {
+      console.error('Payment intent lookup error:', error);
+      return res.status(500).json({ error: 'Failed to look up payment intent' });
+    }
+  }
+);
+
+/**
+ * Chain of the payment intent a plugin request refers to
+ */
+async function intentChain(req: PluginRequest): Promise<string | null> {
+  const intent = await prisma.paymentIntent.findUnique({
+    where: { id: req.body.intentId },
+    select: { selectedChain: true },
+  });
+  return intent?.selectedChain ?? null;
+}
+
+/**
+ * POST /internal/decisions/settlement
+ * Report on-chain evidence (txId, amountReceived, confirmations, blockRef) for a payment intent
+ * Plugins report again as confirmations grow; the intent settles once requiredConfs is reached
+ */
+router.post(
+  '/decisions/settlement',
+  validate(pluginSchemas.settlementEvidence),
+  requirePluginChain(intentChain),
+  async (req: PluginRequest, res: Response) => {
+    try {
+      const { intentId, txId, amountReceived, confirmations, blockRef } = req.body;
+
+      const result = await recordPaymentEvidence({
+        pluginId: req.plugin!.pluginId,
+        intentId,
+        txId,
+        amountReceived,
+        confirmations,
+        blockRef,
+      });
+
+      return res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error('Record payment evidence error:', error);
+      return res.status(500).json({ error: 'Failed to record payment evidence' });
+    }
+  }
+);
+
+export default router;
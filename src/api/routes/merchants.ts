@@ -4,6 +4,9 @@ import { authenticateAdmin, AdminRequest } from '../middleware/adminAuth';
 import { prisma } from '../../infrastructure/database/client';
 import { generateSlug } from '../../domain/utils/auth';
 import { ApiKey } from '../../domain/value-objects/ApiKey';
+import { isSupportedFiatCurrency } from '../../domain/value-objects/Money';
+import { publishDomainEvents } from '../../infrastructure/events/outboxPublisher';
+import { MerchantSettingsUpdated, MerchantSuspended, MerchantUnsuspended, MerchantDeleted } from '../../domain/events/DomainEvent';
 
 const router = Router();
 
@@ -25,6 +28,7 @@ router.get('/me', authenticate, async (req: AuthRequest, res: Response) => {
         businessName: true,
         maxBuyerOrdersPerHour: true,
         allowUnsolicitedPayments: true,
+        allowUnderpaymentTopUp: true,
         emailVerified: true,
         createdAt: true,
         defaultPaymentExpiryMinutes: true,
@@ -89,17 +93,21 @@ router.patch('/me', authenticate, async (req: AuthRequest, res: Response) => {
     // Handle originalSlug safely (in case migration hasn't run yet)
     const currentOriginalSlug = currentMerchant.originalSlug || null;
 
-    const { allowUnsolicitedPayments, maxBuyerOrdersPerHour, defaultCurrency, timezone, defaultPaymentExpiryMinutes, phoneNumber } = req.body;
+    const { allowUnsolicitedPayments, allowUnderpaymentTopUp, maxBuyerOrdersPerHour, defaultCurrency, timezone, defaultPaymentExpiryMinutes, phoneNumber } = req.body;
     
     if (typeof allowUnsolicitedPayments === 'boolean') {
       updates.allowUnsolicitedPayments = allowUnsolicitedPayments;
     }
+
+    if (typeof allowUnderpaymentTopUp === 'boolean') {
+      updates.allowUnderpaymentTopUp = allowUnderpaymentTopUp;
+    }
     
     if (typeof maxBuyerOrdersPerHour === 'number' && maxBuyerOrdersPerHour >= 1 && maxBuyerOrdersPerHour <= 100) {
       updates.maxBuyerOrdersPerHour = maxBuyerOrdersPerHour;
     }
     
-    if (defaultCurrency && ['USD', 'EUR', 'GBP'].includes(defaultCurrency)) {
+    if (defaultCurrency && isSupportedFiatCurrency(defaultCurrency)) {
       updates.defaultCurrency = defaultCurrency;
     }
     
@@ -224,21 +232,29 @@ router.patch('/me', authenticate, async (req: AuthRequest, res: Response) => {
       }
     }
 
-    const merchant = await prisma.merchant.update({
-      where: { id: req.merchant.id },
-      data: updates,
-      select: {
-        id: true,
-        slug: true,
-        defaultCurrency: true,
-        timezone: true,
-        email: true,
-        businessName: true,
-        phoneNumber: true,
-        maxBuyerOrdersPerHour: true,
-        allowUnsolicitedPayments: true,
-        defaultPaymentExpiryMinutes: true,
-      },
+    const merchantId = req.merchant.id;
+    const merchant = await prisma.$transaction(async (tx) => {
+      const updated = await tx.merchant.update({
+        where: { id: merchantId },
+        data: updates,
+        select: {
+          id: true,
+          slug: true,
+          defaultCurrency: true,
+          timezone: true,
+          email: true,
+          businessName: true,
+          phoneNumber: true,
+          maxBuyerOrdersPerHour: true,
+          allowUnsolicitedPayments: true,
+          allowUnderpaymentTopUp: true,
+          defaultPaymentExpiryMinutes: true,
+        },
+      });
+
+      await publishDomainEvents(tx, [new MerchantSettingsUpdated(merchantId, updates, 'merchant')]);
+
+      return updated;
     });
 
     return res.json({
@@ -271,21 +287,29 @@ router.patch('/me', authenticate, async (req: AuthRequest, res: Response) => {
       const retryUpdates = { ...updates };
       delete retryUpdates.originalSlug;
       try {
-        const merchant = await prisma.merchant.update({
-          where: { id: req.merchant.id },
-          data: retryUpdates,
-          select: {
-            id: true,
-            slug: true,
-            defaultCurrency: true,
-            timezone: true,
-            email: true,
-            businessName: true,
-            phoneNumber: true,
-            maxBuyerOrdersPerHour: true,
-            allowUnsolicitedPayments: true,
-            defaultPaymentExpiryMinutes: true,
-          },
+        const merchantId = req.merchant.id;
+        const merchant = await prisma.$transaction(async (tx) => {
+          const updated = await tx.merchant.update({
+            where: { id: merchantId },
+            data: retryUpdates,
+            select: {
+              id: true,
+              slug: true,
+              defaultCurrency: true,
+              timezone: true,
+              email: true,
+              businessName: true,
+              phoneNumber: true,
+              maxBuyerOrdersPerHour: true,
+              allowUnsolicitedPayments: true,
+              allowUnderpaymentTopUp: true,
+              defaultPaymentExpiryMinutes: true,
+            },
+          });
+
+          await publishDomainEvents(tx, [new MerchantSettingsUpdated(merchantId, retryUpdates, 'merchant')]);
+
+          return updated;
         });
         return res.json({
           success: true,
@@ -324,23 +348,34 @@ router.delete('/me', authenticate, async (req: AuthRequest, res: Response) => {
     }
 
     // Delete related records in correct order to handle foreign key constraints
+    // Refunds must be deleted before PaymentIntents and PaymentRequests (Restrict constraint)
     // PaymentIntents must be deleted before PaymentRequests (Restrict constraint)
     // PaymentRequests must be deleted before Merchant (Restrict constraint)
     // Wallets, Webhooks will cascade delete automatically
     
-    // Step 1: Delete PaymentIntents (they block PaymentRequest deletion)
+    // Step 1: Delete Refunds (they block PaymentIntent and PaymentRequest deletion)
+    await prisma.refund.deleteMany({
+      where: { merchantId: req.merchant.id },
+    });
+
+    // Step 2: Delete PaymentIntents (they block PaymentRequest deletion)
     await prisma.paymentIntent.deleteMany({
       where: { merchantId: req.merchant.id },
     });
 
-    // Step 2: Delete PaymentRequests (they block Merchant deletion)
+    // Step 3: Delete PaymentRequests (they block Merchant deletion)
     await prisma.paymentRequest.deleteMany({
       where: { merchantId: req.merchant.id },
     });
 
-    // Step 3: Delete merchant (cascades to Wallets, Webhooks; sets AuditLogs.merchantId to null)
-    await prisma.merchant.delete({
-      where: { id: req.merchant.id },
+    // Step 4: Delete merchant (cascades to Wallets, Webhooks; sets AuditLogs.merchantId to null)
+    const merchantId = req.merchant.id;
+    await prisma.$transaction(async (tx) => {
+      await tx.merchant.delete({
+        where: { id: merchantId },
+      });
+
+      await publishDomainEvents(tx, [new MerchantDeleted(merchantId, 'merchant')]);
     });
 
     return res.json({
@@ -458,26 +493,30 @@ router.post('/:merchantId/suspend', authenticateAdmin, async (req: AdminRequest,
       return res.status(400).json({ error: 'Merchant already suspended' });
     }
 
-    await prisma.merchant.update({
-      where: { id: merchantId },
-      data: {
-        suspendedAt: new Date(),
-        suspendedBy: req.admin!.id,
-        suspendedReason: reason,
-      },
-    });
+    await prisma.$transaction(async (tx) => {
+      await tx.merchant.update({
+        where: { id: merchantId },
+        data: {
+          suspendedAt: new Date(),
+          suspendedBy: req.admin!.id,
+          suspendedReason: reason,
+        },
+      });
 
-    // Audit log
-    await prisma.auditLog.create({
-      data: {
-        merchantId,
-        action: 'MERCHANT_SUSPENDED',
-        resourceId: merchantId,
-        payload: { 
-          suspendedBy: req.admin!.email,
-          reason 
+      // Audit log
+      await tx.auditLog.create({
+        data: {
+          merchantId,
+          action: 'MERCHANT_SUSPENDED',
+          resourceId: merchantId,
+          payload: { 
+            suspendedBy: req.admin!.email,
+            reason 
+          },
         },
-      },
+      });
+
+      await publishDomainEvents(tx, [new MerchantSuspended(merchantId, reason, req.admin!.email)]);
     });
 
     return res.status(200).json({
@@ -510,25 +549,29 @@ router.post('/:merchantId/unsuspend', authenticateAdmin, async (req: AdminReques
       return res.status(400).json({ error: 'Merchant is not suspended' });
     }
 
-    await prisma.merchant.update({
-      where: { id: merchantId },
-      data: {
-        suspendedAt: null,
-        suspendedBy: null,
-        suspendedReason: null,
-      },
-    });
+    await prisma.$transaction(async (tx) => {
+      await tx.merchant.update({
+        where: { id: merchantId },
+        data: {
+          suspendedAt: null,
+          suspendedBy: null,
+          suspendedReason: null,
+        },
+      });
 
-    // Audit log
-    await prisma.auditLog.create({
-      data: {
-        merchantId,
-        action: 'MERCHANT_UNSUSPENDED',
-        resourceId: merchantId,
-        payload: { 
-          unsuspendedBy: req.admin!.email 
+      // Audit log
+      await tx.auditLog.create({
+        data: {
+          merchantId,
+          action: 'MERCHANT_UNSUSPENDED',
+          resourceId: merchantId,
+          payload: { 
+            unsuspendedBy: req.admin!.email 
+          },
         },
-      },
+      });
+
+      await publishDomainEvents(tx, [new MerchantUnsuspended(merchantId, req.admin!.email)]);
     });
 
     return res.status(200).json({
@@ -589,23 +632,33 @@ router.delete('/:merchantId', authenticateAdmin, async (req: AdminRequest, res:
     });
 
     // Delete related records in correct order to handle foreign key constraints
+    // Refunds must be deleted before PaymentIntents and PaymentRequests (Restrict constraint)
     // PaymentIntents must be deleted before PaymentRequests (Restrict constraint)
     // PaymentRequests must be deleted before Merchant (Restrict constraint)
     // Wallets, Webhooks will cascade delete automatically
     
-    // Step 1: Delete PaymentIntents (they block PaymentRequest deletion)
+    // Step 1: Delete Refunds (they block PaymentIntent and PaymentRequest deletion)
+    await prisma.refund.deleteMany({
+      where: { merchantId },
+    });
+
+    // Step 2: Delete PaymentIntents (they block PaymentRequest deletion)
     await prisma.paymentIntent.deleteMany({
       where: { merchantId },
     });
 
-    // Step 2: Delete PaymentRequests (they block Merchant deletion)
+    // Step 3: Delete PaymentRequests (they block Merchant deletion)
     await prisma.paymentRequest.deleteMany({
       where: { merchantId },
     });
 
-    // Step 3: Delete merchant (cascades to Wallets, Webhooks; sets AuditLogs.merchantId to null)
-    await prisma.merchant.delete({
-      where: { id: merchantId },
+    // Step 4: Delete merchant (cascades to Wallets, Webhooks; sets AuditLogs.merchantId to null)
+    await prisma.$transaction(async (tx) => {
+      await tx.merchant.delete({
+        where: { id: merchantId },
+      });
+
+      await publishDomainEvents(tx, [new MerchantDeleted(merchantId, deletedByEmail)]);
     });
 
     return res.status(200).json({
@@ -641,14 +694,23 @@ router.post('/api-key', authenticate, async (req: AuthRequest, res: Response) =>
     // Generate new API key
     const { apiKey, plaintext, fingerprint } = await ApiKey.generate();
 
-    // Store in merchant table (replaces existing key)
-    await prisma.merchant.update({
-      where: { id: req.merchant.id },
-      data: {
-        apiKeyHash: apiKey.getHash(),
-        apiKeyFingerprint: fingerprint,
-        apiKeyCreatedAt: new Date(),
-      },
+    // Store in merchant table (replaces existing key); the event carries the fingerprint, never the hash
+    const merchantId = req.merchant.id;
+    await prisma.$transaction(async (tx) => {
+      const apiKeyCreatedAt = new Date();
+
+      await tx.merchant.update({
+        where: { id: merchantId },
+        data: {
+          apiKeyHash: apiKey.getHash(),
+          apiKeyFingerprint: fingerprint,
+          apiKeyCreatedAt,
+        },
+      });
+
+      await publishDomainEvents(tx, [
+        new MerchantSettingsUpdated(merchantId, { apiKeyFingerprint: fingerprint, apiKeyCreatedAt }, 'merchant'),
+      ]);
     });
 
     // Return plaintext key once
@@ -1,97 +1,440 @@
-import { Router, Response } from 'express';
+import express, { Router, Response } from 'express';
+import { RefundStatus } from '@prisma/client';
+import { parse as parseCsv } from 'csv-parse/sync';
 import { authenticate, AuthRequest } from '../middleware/auth';
+import { idempotent } from '../middleware/idempotency';
+import { validate } from '../../common/validation/validator';
+import { paymentSchemas, querySchemas, refundSchemas } from '../../common/validation/schemas';
 import { prisma } from '../../infrastructure/database/client';
 import { createPaymentRequest } from '../../application/payments/CreatePaymentRequest';
+import { BULK_MAX_ROWS, bulkCreatePaymentRequests } from '../../application/payments/BulkCreatePaymentRequests';
+import { updateSettlementStatus } from '../../application/payments/UpdateSettlementStatus';
+import { listPaymentRequests, PaymentRequestFilters } from '../../application/payments/ListPaymentRequests';
+import { EXPORT_CONTENT_TYPES, ExportFormat, exportPaymentRequests } from '../../application/payments/ExportPaymentRequests';
+import { findPaymentIntentByReference } from '../../application/payments/FindPaymentIntentByReference';
+import { refundSelect, requestRefund } from '../../application/refunds/RequestRefund';
+import { updateRefundStatus } from '../../application/refunds/UpdateRefundStatus';
+import { AppError } from '../../common/errors/AppError';
 
 const router = Router();
 
-// Get all payment requests for merchant
-router.get('/requests', authenticate, async (req: AuthRequest, res: Response) => {
-  try {
-    if (!req.merchant) {
-      return res.status(404).json({ error: 'Merchant profile not found' });
+// List payment requests for merchant (cursor-paginated, filterable)
+router.get(
+  '/requests',
+  authenticate,
+  validate(querySchemas.paymentRequestList, 'query'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.merchant) {
+        return res.status(404).json({ error: 'Merchant profile not found' });
+      }
+
+      const { cursor, limit, ...filters } = req.query as unknown as PaymentRequestFilters & {
+        cursor?: string;
+        limit: number;
+      };
+
+      const cursorExists = cursor
+        ? await prisma.paymentRequest.count({ where: { id: cursor, merchantId: req.merchant.id } })
+        : 1;
+
+      if (!cursorExists) {
+        return res.status(400).json({ error: 'Invalid cursor' });
+      }
+
+      const page = await listPaymentRequests({
+        merchantId: req.merchant.id,
+        filters,
+        cursor,
+        limit,
+      });
+
+      // status is the stored status; isExpired also covers requests the expiry sweeper has not reached yet
+      const now = new Date();
+      const data = page.items.map((pr) => ({
+        ...pr,
+        amountFiat: parseFloat(pr.amountFiat.toString()),
+        isExpired: now > pr.expiresAt,
+      }));
+
+      return res.json({
+        success: true,
+        data,
+        pagination: {
+          limit,
+          nextCursor: page.nextCursor,
+        },
+      });
+    } catch (error) {
+      console.error('Get payment requests error:', error);
+      return res.status(500).json({ error: 'Failed to fetch payment requests' });
+    }
+  }
+);
+
+// Export payment requests matching the list filters (streamed CSV, JSON Lines or XLSX)
+// Must come before GET /requests/:id
+router.get(
+  '/requests/export',
+  authenticate,
+  validate(querySchemas.paymentRequestExport, 'query'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.merchant) {
+        return res.status(404).json({ error: 'Merchant profile not found' });
+      }
+
+      const { format, ...filters } = req.query as unknown as PaymentRequestFilters & { format: ExportFormat };
+
+      const merchant = await prisma.merchant.findUnique({
+        where: { id: req.merchant.id },
+        select: { timezone: true },
+      });
+
+      const filename = `payment-requests-${new Date().toISOString().slice(0, 10)}.${format}`;
+      res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+      await exportPaymentRequests({
+        merchantId: req.merchant.id,
+        filters,
+        format,
+        timezone: merchant?.timezone ?? 'UTC',
+        output: res,
+      });
+    } catch (error) {
+      console.error('Export payment requests error:', error);
+      if (!res.headersSent) {
+        return res.status(500).json({ error: 'Failed to export payment requests' });
+      }
+      // Part of the file is already on the wire - abort so the client sees a failed download
+      res.destroy();
+    }
+  }
+);
+
+// Find which payment an incoming transaction belongs to (for manual settlement)
+router.get(
+  '/intents/lookup',
+  authenticate,
+  validate(querySchemas.intentLookup, 'query'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.merchant) {
+        return res.status(404).json({ error: 'Merchant profile not found' });
+      }
+
+      const { network, memo, address } = req.query as { network: string; memo?: string; address?: string };
+
+      const intent = await findPaymentIntentByReference({
+        network,
+        memo,
+        address,
+        merchantId: req.merchant.id,
+      });
+
+      if (!intent) {
+        return res.status(404).json({ error: 'No payment matches this reference' });
+      }
+
+      const { merchantId: _merchantId, ...data } = intent;
+
+      return res.json({
+        success: true,
+        data,
+      });
+    } catch (error) {
+      console.error('Payment intent lookup error:', error);
+      return res.status(500).json({ error: 'Failed to look up payment' });
     }
+  }
+);
 
-    const paymentRequests = await prisma.paymentRequest.findMany({
-      where: { merchantId: req.merchant.id },
-      orderBy: { createdAt: 'desc' },
-      select: {
-        id: true,
-        linkId: true,
-        orderDate: true,
-        orderNumber: true,
-        amountFiat: true,
-        currencyFiat: true,
-        description: true,
-        status: true,
-        createdBy: true,
-        settlementStatus: true,
-        expiresAt: true,
-        redirectUrl: true,
-        createdAt: true,
-      },
-    });
-
-    // Transform status to ACTIVE/EXPIRED
-    const now = new Date();
-    const transformed = paymentRequests.map((pr: any) => ({
-      ...pr,
-      amountFiat: parseFloat(pr.amountFiat.toString()),
-      status: now > pr.expiresAt ? 'EXPIRED' : 'ACTIVE',
-      originalStatus: pr.status,
-    }));
-
-    return res.json({
-      success: true,
-      data: transformed,
-    });
-  } catch (error) {
-    console.error('Get payment requests error:', error);
-    return res.status(500).json({ error: 'Failed to fetch payment requests' });
+// Get a payment request with its payment intents and settlement history
+router.get(
+  '/requests/:id',
+  authenticate,
+  validate(paymentSchemas.paymentRequestParams, 'params'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.merchant) {
+        return res.status(404).json({ error: 'Merchant profile not found' });
+      }
+
+      const paymentRequest = await prisma.paymentRequest.findFirst({
+        where: { id: req.params.id, merchantId: req.merchant.id },
+        select: {
+          id: true,
+          linkId: true,
+          orderDate: true,
+          orderNumber: true,
+          amountFiat: true,
+          currencyFiat: true,
+          description: true,
+          status: true,
+          createdBy: true,
+          settlementStatus: true,
+          expiresAt: true,
+          redirectUrl: true,
+          externalReference: true,
+          buyerNote: true,
+          createdAt: true,
+          updatedAt: true,
+          paymentIntents: {
+            select: {
+              id: true,
+              selectedChain: true,
+              selectedCoin: true,
+              amountCrypto: true,
+              amountReceived: true,
+              amountOutcome: true,
+              surplusAmount: true,
+              shortfallAmount: true,
+              status: true,
+              settlementStatus: true,
+              targetAddress: true,
+              targetMemo: true,
+              txId: true,
+              expiresAt: true,
+              createdAt: true,
+            },
+            orderBy: { createdAt: 'desc' },
+          },
+          settlementTransitions: {
+            select: {
+              fromStatus: true,
+              toStatus: true,
+              actor: true,
+              reason: true,
+              createdAt: true,
+            },
+            orderBy: { createdAt: 'asc' },
+          },
+          refunds: {
+            select: refundSelect,
+            orderBy: { createdAt: 'asc' },
+          },
+        },
+      });
+
+      if (!paymentRequest) {
+        return res.status(404).json({ error: 'Payment request not found' });
+      }
+
+      const { settlementTransitions, ...rest } = paymentRequest;
+
+      return res.json({
+        success: true,
+        data: {
+          ...rest,
+          amountFiat: parseFloat(rest.amountFiat.toString()),
+          settlementHistory: settlementTransitions,
+        },
+      });
+    } catch (error) {
+      console.error('Get payment request error:', error);
+      return res.status(500).json({ error: 'Failed to fetch payment request' });
+    }
   }
-});
+);
 
 // Update settlement status
-router.patch('/requests/:id/settlement', authenticate, async (req: AuthRequest, res: Response) => {
-  try {
-    if (!req.merchant) {
-      return res.status(404).json({ error: 'Merchant profile not found' });
+router.patch(
+  '/requests/:id/settlement',
+  authenticate,
+  validate(paymentSchemas.paymentRequestParams, 'params'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.merchant) {
+        return res.status(404).json({ error: 'Merchant profile not found' });
+      }
+
+      const { id } = req.params;
+      const { settlementStatus, reason } = req.body;
+
+      if (!['PENDING', 'PAID', 'SETTLED', 'REJECTED', 'REISSUED', 'CANCELED', 'CLAIMED_PAID'].includes(settlementStatus)) {
+        return res.status(400).json({ error: 'Invalid settlement status' });
+      }
+
+      if (reason !== undefined && (typeof reason !== 'string' || reason.trim().length > 500)) {
+        return res.status(400).json({ error: 'reason must be a string of at most 500 characters' });
+      }
+
+      const paymentRequest = await prisma.paymentRequest.findUnique({
+        where: { id },
+        select: { merchantId: true },
+      });
+
+      if (!paymentRequest || paymentRequest.merchantId !== req.merchant.id) {
+        return res.status(404).json({ error: 'Payment request not found' });
+      }
+
+      const updated = await updateSettlementStatus({
+        paymentRequestId: id,
+        settlementStatus,
+        changedBy: 'merchant',
+        reason: reason?.trim() || undefined,
+      });
+
+      return res.json({
+        success: true,
+        data: {
+          id: updated.id,
+          settlementStatus: updated.settlementStatus,
+        },
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message, details: error.details });
+      }
+      console.error('Update settlement status error:', error);
+      return res.status(500).json({ error: 'Failed to update settlement status' });
     }
+  }
+);
+
+// List refunds of a payment request
+router.get(
+  '/requests/:id/refunds',
+  authenticate,
+  validate(paymentSchemas.paymentRequestParams, 'params'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.merchant) {
+        return res.status(404).json({ error: 'Merchant profile not found' });
+      }
 
-    const { id } = req.params;
-    const { settlementStatus } = req.body;
+      const paymentRequest = await prisma.paymentRequest.findFirst({
+        where: { id: req.params.id, merchantId: req.merchant.id },
+        select: { id: true },
+      });
 
-    if (!['PENDING', 'PAID', 'SETTLED', 'REJECTED', 'REISSUED', 'CANCELED', 'CLAIMED_PAID'].includes(settlementStatus)) {
-      return res.status(400).json({ error: 'Invalid settlement status' });
+      if (!paymentRequest) {
+        return res.status(404).json({ error: 'Payment request not found' });
+      }
+
+      const refunds = await prisma.refund.findMany({
+        where: { paymentRequestId: paymentRequest.id },
+        select: refundSelect,
+        orderBy: { createdAt: 'asc' },
+      });
+
+      return res.json({
+        success: true,
+        data: refunds,
+      });
+    } catch (error) {
+      console.error('Get refunds error:', error);
+      return res.status(500).json({ error: 'Failed to fetch refunds' });
     }
+  }
+);
+
+// Refund a paid payment request in full or in part to an address the buyer provided
+router.post(
+  '/requests/:id/refunds',
+  authenticate,
+  validate(paymentSchemas.paymentRequestParams, 'params'),
+  idempotent((req: AuthRequest) => req.merchant?.id ?? null),
+  validate(refundSchemas.requestRefund),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.merchant) {
+        return res.status(404).json({ error: 'Merchant profile not found' });
+      }
+
+      const { paymentIntentId, amountFiat, amountCrypto, destinationAddress, reason } = req.body;
+
+      const refund = await requestRefund({
+        merchantId: req.merchant.id,
+        paymentRequestId: req.params.id,
+        paymentIntentId,
+        amountFiat,
+        amountCrypto,
+        destinationAddress,
+        reason,
+      });
+
+      return res.status(201).json({
+        success: true,
+        data: refund,
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message, details: error.details });
+      }
+      console.error('Request refund error:', error);
+      return res.status(500).json({ error: 'Failed to request refund' });
+    }
+  }
+);
+
+// List the merchant's refunds across payment requests (?status=, repeatable)
+router.get(
+  '/refunds',
+  authenticate,
+  validate(querySchemas.refundList, 'query'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.merchant) {
+        return res.status(404).json({ error: 'Merchant profile not found' });
+      }
+
+      const { status } = req.query as { status?: RefundStatus[] };
 
-    const paymentRequest = await prisma.paymentRequest.findUnique({
-      where: { id },
-      select: { merchantId: true },
-    });
+      const refunds = await prisma.refund.findMany({
+        where: { merchantId: req.merchant.id, ...(status && { status: { in: status } }) },
+        select: refundSelect,
+        orderBy: { createdAt: 'desc' },
+        take: 500,
+      });
 
-    if (!paymentRequest || paymentRequest.merchantId !== req.merchant.id) {
-      return res.status(404).json({ error: 'Payment request not found' });
+      return res.json({
+        success: true,
+        data: refunds,
+      });
+    } catch (error) {
+      console.error('Get refunds error:', error);
+      return res.status(500).json({ error: 'Failed to fetch refunds' });
     }
+  }
+);
+
+// Approve, mark sent (with txId), confirm or cancel a refund
+router.patch(
+  '/refunds/:refundId/status',
+  authenticate,
+  validate(refundSchemas.refundParams, 'params'),
+  validate(refundSchemas.updateStatus),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.merchant) {
+        return res.status(404).json({ error: 'Merchant profile not found' });
+      }
+
+      const { status, txId, reason } = req.body;
+
+      const refund = await updateRefundStatus({
+        merchantId: req.merchant.id,
+        refundId: req.params.refundId,
+        status,
+        txId,
+        reason,
+      });
 
-    const updated = await prisma.paymentRequest.update({
-      where: { id },
-      data: { settlementStatus },
-      select: {
-        id: true,
-        settlementStatus: true,
-      },
-    });
-
-    return res.json({
-      success: true,
-      data: updated,
-    });
-  } catch (error) {
-    console.error('Update settlement status error:', error);
-    return res.status(500).json({ error: 'Failed to update settlement status' });
+      return res.json({
+        success: true,
+        data: refund,
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message, details: error.details });
+      }
+      console.error('Update refund status error:', error);
+      return res.status(500).json({ error: 'Failed to update refund status' });
+    }
   }
-});
+);
 
 // Basic URL validation - must start with http:// or https://
 function isValidUrl(url: string): boolean {
@@ -104,51 +447,150 @@ function isValidUrl(url: string): boolean {
 }
 
 // Create payment request (existing endpoint)
-router.post('/requests', authenticate, async (req: AuthRequest, res: Response) => {
-  try {
-    if (!req.merchant) {
-      return res.status(404).json({ error: 'Merchant profile not found' });
-    }
+router.post(
+  '/requests',
+  authenticate,
+  idempotent((req: AuthRequest) => req.merchant?.id ?? null),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.merchant) {
+        return res.status(404).json({ error: 'Merchant profile not found' });
+      }
 
-    const { amount, description, expiryMinutes, redirectUrl } = req.body;
-    const parsedAmount = Number(amount);
-    const parsedExpiry = Number(expiryMinutes || 60);
+      const { amount, description, expiryMinutes, redirectUrl } = req.body;
+      const parsedAmount = Number(amount);
+      const parsedExpiry = Number(expiryMinutes || 60);
 
-    if (!parsedAmount || parsedAmount <= 0) {
-      return res.status(400).json({ error: 'Valid amount is required' });
-    }
+      if (!parsedAmount || parsedAmount <= 0) {
+        return res.status(400).json({ error: 'Valid amount is required' });
+      }
 
-    // Validate redirectUrl if provided
-    if (redirectUrl !== undefined && redirectUrl !== null) {
-      if (typeof redirectUrl !== 'string' || redirectUrl.trim() === '') {
-        return res.status(400).json({ error: 'redirectUrl must be a non-empty string' });
+      // Validate redirectUrl if provided
+      if (redirectUrl !== undefined && redirectUrl !== null) {
+        if (typeof redirectUrl !== 'string' || redirectUrl.trim() === '') {
+          return res.status(400).json({ error: 'redirectUrl must be a non-empty string' });
+        }
+        if (!isValidUrl(redirectUrl.trim())) {
+          return res.status(400).json({ error: 'redirectUrl must be a valid URL starting with http:// or https://' });
+        }
       }
-      if (!isValidUrl(redirectUrl.trim())) {
-        return res.status(400).json({ error: 'redirectUrl must be a valid URL starting with http:// or https://' });
+
+      const result = await createPaymentRequest({
+        merchantId: req.merchant.id,
+        amountFiat: parsedAmount,
+        description,
+        expiryMinutes: parsedExpiry,
+        redirectUrl: redirectUrl ? redirectUrl.trim() : undefined,
+        createdBy: 'merchant',
+      });
+
+      if (!result.success) {
+        return res.status(400).json({ error: result.message });
       }
-    }
 
-    const result = await createPaymentRequest({
-      merchantId: req.merchant.id,
-      amountFiat: parsedAmount,
-      description,
-      expiryMinutes: parsedExpiry,
-      redirectUrl: redirectUrl ? redirectUrl.trim() : undefined,
-      createdBy: 'merchant',
-    });
-
-    if (!result.success) {
-      return res.status(400).json({ error: result.message });
+      return res.status(201).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Create payment request error:', error);
+      return res.status(500).json({ error: 'Failed to create payment request' });
     }
+  }
+);
+
+// CSV column headers accepted for each bulk row field (compared case-insensitively)
+const BULK_COLUMN_ALIASES: Record<string, string> = {
+  amount: 'amountFiat',
+  amountfiat: 'amountFiat',
+  description: 'description',
+  expiry: 'expiresInMinutes',
+  expiryminutes: 'expiresInMinutes',
+  expiresinminutes: 'expiresInMinutes',
+  redirecturl: 'redirectUrl',
+  externalreference: 'externalReference',
+  reference: 'externalReference',
+};
+
+/**
+ * Rows of a bulk CSV upload keyed by field name; empty cells are left out so optional columns can be blank
+ */
+function parseBulkCsv(text: string): Record<string, string>[] {
+  const records: Record<string, string>[] = parseCsv(text, {
+    columns: (header: string[]) =>
+      header.map((column) => BULK_COLUMN_ALIASES[column.trim().replace(/[\s_-]/g, '').toLowerCase()] ?? column.trim()),
+    bom: true,
+    trim: true,
+    skip_empty_lines: true,
+  });
 
-    return res.status(201).json({
-      success: true,
-      data: result,
-    });
-  } catch (error) {
-    console.error('Create payment request error:', error);
-    return res.status(500).json({ error: 'Failed to create payment request' });
+  return records.map((record) =>
+    Object.fromEntries(Object.entries(record).filter(([, value]) => value !== ''))
+  );
+}
+
+// Create payment requests in bulk from a CSV upload (text/csv) or a JSON array of rows
+router.post(
+  '/requests/bulk',
+  authenticate,
+  express.text({ type: ['text/csv', 'application/csv'], limit: '1mb' }),
+  idempotent((req: AuthRequest) => req.merchant?.id ?? null),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.merchant) {
+        return res.status(404).json({ error: 'Merchant profile not found' });
+      }
+
+      let rows: unknown[];
+
+      if (typeof req.body === 'string') {
+        try {
+          rows = parseBulkCsv(req.body);
+        } catch (error: any) {
+          return res.status(400).json({ error: `Invalid CSV: ${error.message}` });
+        }
+      } else if (Array.isArray(req.body)) {
+        rows = req.body;
+      } else if (Array.isArray(req.body?.rows)) {
+        rows = req.body.rows;
+      } else {
+        return res.status(400).json({ error: 'Send a CSV file (text/csv) or a JSON array of rows' });
+      }
+
+      if (rows.length === 0) {
+        return res.status(400).json({ error: 'No rows to create' });
+      }
+
+      if (rows.length > BULK_MAX_ROWS) {
+        return res.status(400).json({ error: `A bulk upload may contain at most ${BULK_MAX_ROWS} rows` });
+      }
+
+      const result = await bulkCreatePaymentRequests({
+        merchantId: req.merchant.id,
+        rows,
+      });
+
+      // Nothing was created because the whole batch does not fit the monthly limit
+      if (result.limitExceeded) {
+        return res.status(409).json({ error: result.message, data: result });
+      }
+
+      if (result.created === 0) {
+        return res.status(400).json({ error: result.message, data: result });
+      }
+
+      return res.status(result.failed > 0 ? 207 : 201).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message, details: error.details });
+      }
+      console.error('Bulk create payment requests error:', error);
+      return res.status(500).json({ error: 'Failed to create payment requests' });
+    }
   }
-});
+);
 
 export default router;
@@ -1,18 +1,45 @@
 import { Router, Request, Response } from 'express';
-import { CoinGeckoPriceService } from '../../infrastructure/pricing/CoinGeckoPriceService';
+import { container } from '../../infrastructure/di/Container';
+import { config } from '../../config';
+import { AppError } from '../../common/errors/AppError';
+import { SUPPORTED_FIAT_CURRENCIES, isSupportedFiatCurrency } from '../../domain/value-objects/Money';
 
 const router = Router();
 
-// Get current prices for specified coins
+const UNSUPPORTED_CURRENCY_ERROR = `currency must be one of ${SUPPORTED_FIAT_CURRENCIES.join(', ')}`;
+
+// Get current prices for specified coins in a fiat currency (USD by default)
 router.get('/', async (req: Request, res: Response) => {
   try {
     const symbols = (req.query.symbols as string)?.split(',') || ['SOL', 'ETH', 'BTC'];
-    const prices = await CoinGeckoPriceService.getPrices(symbols);
+    const currency = ((req.query.currency as string) || 'USD').toUpperCase();
+
+    if (!isSupportedFiatCurrency(currency)) {
+      return res.status(400).json({ error: UNSUPPORTED_CURRENCY_ERROR });
+    }
+
+    const quotes = await container.priceService.getQuotes(symbols, currency);
+
+    // data keeps the plain symbol -> price map (0 when unavailable); quotes adds sources and age
+    const prices = Object.fromEntries(
+      Object.entries(quotes).map(([symbol, quote]) => [symbol, quote?.price ?? 0])
+    );
 
     return res.json({
       success: true,
       data: prices,
-      cachedFor: 180, // seconds
+      quotes: Object.fromEntries(
+        Object.entries(quotes).map(([symbol, quote]) => [
+          symbol,
+          quote && {
+            price: quote.price,
+            sources: quote.sources.map((source) => source.source),
+            ageSeconds: quote.ageSeconds,
+          },
+        ])
+      ),
+      currency,
+      cachedFor: config.cache.priceCacheTTL, // seconds
     });
   } catch (error) {
     console.error('Price fetch error:', error);
@@ -20,37 +47,51 @@ router.get('/', async (req: Request, res: Response) => {
   }
 });
 
-// Convert USD to crypto
+// Convert a fiat amount (USD by default) to crypto
 router.get('/convert', async (req: Request, res: Response) => {
   try {
     const { amount, symbol } = req.query;
+    const currency = ((req.query.currency as string) || 'USD').toUpperCase();
 
     if (!amount || !symbol) {
       return res.status(400).json({ error: 'Amount and symbol are required' });
     }
 
-    const usdAmount = parseFloat(amount as string);
-    if (isNaN(usdAmount) || usdAmount <= 0) {
+    if (!isSupportedFiatCurrency(currency)) {
+      return res.status(400).json({ error: UNSUPPORTED_CURRENCY_ERROR });
+    }
+
+    const fiatAmount = parseFloat(amount as string);
+    if (isNaN(fiatAmount) || fiatAmount <= 0) {
       return res.status(400).json({ error: 'Invalid amount' });
     }
 
-    const result = await CoinGeckoPriceService.convertUsdToCrypto(
-      usdAmount,
-      symbol as string
+    const result = await container.priceService.convertFiatToCrypto(
+      fiatAmount,
+      symbol as string,
+      currency
     );
 
     return res.json({
       success: true,
       data: {
-        usd: usdAmount,
+        amount: fiatAmount,
+        currency,
+        // Kept for clients written before multi-currency support; only set for USD
+        ...(currency === 'USD' && { usd: fiatAmount }),
         crypto: result.amount,
         symbol: (symbol as string).toUpperCase(),
-        rate: result.price,
+        rate: result.quote.price,
+        sources: result.quote.sources.map((source) => source.source),
+        ageSeconds: result.quote.ageSeconds,
       },
     });
   } catch (error: any) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
     console.error('Conversion error:', error);
-    return res.status(500).json({ error: error.message || 'Conversion failed' });
+    return res.status(500).json({ error: 'Conversion failed' });
   }
 });
 
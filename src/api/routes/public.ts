@@ -1,10 +1,22 @@
 import { Router, Request, Response } from 'express';
+import QRCode from 'qrcode';
 import { prisma } from '../../infrastructure/database/client';
-import { CoinGeckoPriceService } from '../../infrastructure/pricing/CoinGeckoPriceService';
+import { container } from '../../infrastructure/di/Container';
+import { toPriceAsset } from '../../application/tokens/TokenCatalog';
 import { redis } from '../../infrastructure/cache/redis';
 import { config } from '../../config';
 import { createPaymentRequest } from '../../application/payments/CreatePaymentRequest';
+import { updateSettlementStatus } from '../../application/payments/UpdateSettlementStatus';
+import {
+  createPaymentIntent,
+  paymentIntentQuoteSelect,
+  toPaymentIntentQuote,
+} from '../../application/payments/CreatePaymentIntent';
 import { normalizeEmail } from '../../domain/utils/auth';
+import { AppError } from '../../common/errors/AppError';
+import { idempotent } from '../middleware/idempotency';
+import { validate } from '../../common/validation/validator';
+import { querySchemas } from '../../common/validation/schemas';
 
 const router = Router();
 
@@ -60,6 +72,7 @@ router.get('/wallets/:slug', async (req: Request, res: Response) => {
         tokenName: true,
         tokenType: true,
         walletAddress: true,
+        xpub: true,
         contractAddress: true,
         createdAt: true,
       },
@@ -75,7 +88,12 @@ router.get('/wallets/:slug', async (req: Request, res: Response) => {
           name: merchant.businessName,
           slug: merchant.slug,
         },
-        wallets,
+        // The xpub stays private; HD wallets only reveal an address once a payment intent is locked
+        wallets: wallets.map(({ xpub, walletAddress, ...wallet }) => ({
+          ...wallet,
+          walletAddress: xpub ? null : walletAddress,
+          addressPerPayment: Boolean(xpub),
+        })),
       },
     });
   } catch (error) {
@@ -84,78 +102,96 @@ router.get('/wallets/:slug', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Idempotency keys for unsolicited payments belong to the merchant the buyer is paying
+ */
+async function merchantIdFromSlug(req: Request): Promise<string | null> {
+  if (typeof req.body?.merchantSlug !== 'string') {
+    return null;
+  }
+  const merchant = await prisma.merchant.findUnique({
+    where: { slug: req.body.merchantSlug },
+    select: { id: true },
+  });
+  return merchant?.id ?? null;
+}
+
 // Create payment request (public - no auth, rate limited)
-router.post('/create-payment', async (req: Request, res: Response) => {
-  try {
-    const { merchantSlug, amount, description } = req.body;
-    const clientIp = req.ip || req.socket.remoteAddress || 'unknown';
+router.post(
+  '/create-payment',
+  idempotent(merchantIdFromSlug, { scope: (req) => req.ip || req.socket.remoteAddress || 'unknown' }),
+  async (req: Request, res: Response) => {
+    try {
+      const { merchantSlug, amount, description } = req.body;
+      const clientIp = req.ip || req.socket.remoteAddress || 'unknown';
+
+      if (!merchantSlug || !amount) {
+        return res.status(400).json({ error: 'Merchant slug and amount are required' });
+      }
 
-    if (!merchantSlug || !amount) {
-      return res.status(400).json({ error: 'Merchant slug and amount are required' });
-    }
+      const parsedAmount = parseFloat(amount);
+      if (isNaN(parsedAmount) || parsedAmount <= 0) {
+        return res.status(400).json({ error: 'Invalid amount' });
+      }
 
-    const parsedAmount = parseFloat(amount);
-    if (isNaN(parsedAmount) || parsedAmount <= 0) {
-      return res.status(400).json({ error: 'Invalid amount' });
-    }
+      const merchant = await prisma.merchant.findUnique({
+        where: { slug: merchantSlug },
+        select: {
+          id: true,
+          slug: true,
+          businessName: true,
+          allowUnsolicitedPayments: true,
+          maxBuyerOrdersPerHour: true,
+          defaultPaymentExpiryMinutes: true,
+        },
+      });
 
-    const merchant = await prisma.merchant.findUnique({
-      where: { slug: merchantSlug },
-      select: {
-        id: true,
-        slug: true,
-        businessName: true,
-        allowUnsolicitedPayments: true,
-        maxBuyerOrdersPerHour: true,
-        defaultPaymentExpiryMinutes: true,
-      },
-    });
+      if (!merchant) {
+        return res.status(404).json({ error: 'Merchant not found' });
+      }
 
-    if (!merchant) {
-      return res.status(404).json({ error: 'Merchant not found' });
-    }
+      if (!merchant.allowUnsolicitedPayments) {
+        return res.status(403).json({ error: 'This merchant does not accept unsolicited payments' });
+      }
 
-    if (!merchant.allowUnsolicitedPayments) {
-      return res.status(403).json({ error: 'This merchant does not accept unsolicited payments' });
-    }
+      const allowed = await checkRateLimit(merchant.id, clientIp, merchant.maxBuyerOrdersPerHour);
+      if (!allowed) {
+        return res.status(429).json({ 
+          error: `Rate limit exceeded. You can create ${merchant.maxBuyerOrdersPerHour} payment(s) per hour.` 
+        });
+      }
 
-    const allowed = await checkRateLimit(merchant.id, clientIp, merchant.maxBuyerOrdersPerHour);
-    if (!allowed) {
-      return res.status(429).json({ 
-        error: `Rate limit exceeded. You can create ${merchant.maxBuyerOrdersPerHour} payment(s) per hour.` 
+      const result = await createPaymentRequest({
+        merchantId: merchant.id,
+        amountFiat: parsedAmount,
+        description,
+        expiryMinutes: merchant.defaultPaymentExpiryMinutes,
+        createdBy: 'buyer',
+        buyerIp: clientIp,
       });
-    }
 
-    const result = await createPaymentRequest({
-      merchantId: merchant.id,
-      amountFiat: parsedAmount,
-      description,
-      expiryMinutes: merchant.defaultPaymentExpiryMinutes,
-      createdBy: 'buyer',
-      buyerIp: clientIp,
-    });
-
-    if (!result.success) {
-      return res.status(400).json({ error: result.message });
-    }
+      if (!result.success) {
+        return res.status(400).json({ error: result.message });
+      }
 
-    const ttlSeconds = 3600;
-    await incrementRateLimit(merchant.id, clientIp, ttlSeconds);
+      const ttlSeconds = 3600;
+      await incrementRateLimit(merchant.id, clientIp, ttlSeconds);
 
-    return res.status(201).json({
-      success: true,
-      data: {
-        linkId: result.linkId,
-        paymentUrl: result.paymentUrl,
-        expiresAt: result.expiresAt,
-        orderNumber: result.linkId?.split('/').pop(),
-      },
-    });
-  } catch (error) {
-    console.error('Create public payment error:', error);
-    return res.status(500).json({ error: 'Failed to create payment request' });
+      return res.status(201).json({
+        success: true,
+        data: {
+          linkId: result.linkId,
+          paymentUrl: result.paymentUrl,
+          expiresAt: result.expiresAt,
+          orderNumber: result.linkId?.split('/').pop(),
+        },
+      });
+    } catch (error) {
+      console.error('Create public payment error:', error);
+      return res.status(500).json({ error: 'Failed to create payment request' });
+    }
   }
-});
+);
 
 /**
  * PATCH /public/payment/{linkId}/status
@@ -203,15 +239,10 @@ router.patch('/payment/*/status', async (req: Request, res: Response) => {
     }
 
     // Update settlement status
-    const updated = await prisma.paymentRequest.update({
-      where: { id: paymentRequest.id },
-      data: { settlementStatus: status },
-      select: {
-        id: true,
-        linkId: true,
-        settlementStatus: true,
-        status: true,
-      },
+    const updated = await updateSettlementStatus({
+      paymentRequestId: paymentRequest.id,
+      settlementStatus: status,
+      changedBy: 'buyer',
     });
 
     return res.json({
@@ -222,11 +253,118 @@ router.patch('/payment/*/status', async (req: Request, res: Response) => {
         : 'Payment marked as claimed paid',
     });
   } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
     console.error('Update payment status error:', error);
     return res.status(500).json({ error: 'Failed to update payment status' });
   }
 });
 
+/**
+ * POST /public/payment/{linkId}/intent
+ * Lock a crypto quote for the network/token the buyer picked
+ * The quoted amount, rate and target wallet stay fixed until the intent expires
+ */
+router.post('/payment/*/intent', async (req: Request, res: Response) => {
+  try {
+    const linkId = req.params[0];
+
+    if (!linkId) {
+      return res.status(400).json({ error: 'Link ID is required' });
+    }
+
+    const { network, tokenSymbol } = req.body;
+
+    if (!network || !tokenSymbol || typeof network !== 'string' || typeof tokenSymbol !== 'string') {
+      return res.status(400).json({ error: 'Network and token symbol are required' });
+    }
+
+    const result = await createPaymentIntent({ linkId, network, tokenSymbol });
+
+    if (!result.success) {
+      const status = result.message === 'Payment request not found' ? 404 : 400;
+      return res.status(status).json({ error: result.message });
+    }
+
+    return res.status(result.reused ? 200 : 201).json({
+      success: true,
+      data: result.intent,
+      message: result.message,
+    });
+  } catch (error) {
+    console.error('Create payment intent error:', error);
+    return res.status(500).json({ error: 'Failed to create payment intent' });
+  }
+});
+
+/**
+ * GET /public/payment/{linkId}/qr?wallet={walletId}&format=svg|png
+ * QR code of the payment URI for the buyer's locked quote on a wallet option
+ */
+router.get('/payment/*/qr', validate(querySchemas.paymentQr, 'query'), async (req: Request, res: Response) => {
+  try {
+    const linkId = req.params[0];
+    const { wallet: walletId, format } = req.query as { wallet: string; format: 'svg' | 'png' };
+
+    const paymentRequest = await prisma.paymentRequest.findUnique({
+      where: { linkId },
+      select: { id: true, merchantId: true },
+    });
+
+    if (!paymentRequest) {
+      return res.status(404).json({ error: 'Payment request not found' });
+    }
+
+    const wallet = await prisma.wallet.findFirst({
+      where: { id: walletId, merchantId: paymentRequest.merchantId, enabled: true },
+      select: { network: true, tokenSymbol: true },
+    });
+
+    if (!wallet) {
+      return res.status(404).json({ error: 'Wallet not found' });
+    }
+
+    // The QR carries the locked amount (and address/reference), never an estimate
+    const intent = await prisma.paymentIntent.findFirst({
+      where: {
+        paymentRequestId: paymentRequest.id,
+        selectedChain: wallet.network,
+        selectedCoin: wallet.tokenSymbol,
+        status: { in: ['PENDING', 'PARTIALLY_PAID'] },
+        expiresAt: { gt: new Date() },
+      },
+      select: paymentIntentQuoteSelect,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (!intent) {
+      return res.status(409).json({
+        error: `Lock a quote first: POST /public/payment/${linkId}/intent`,
+      });
+    }
+
+    const { paymentUri } = toPaymentIntentQuote(intent);
+
+    if (!paymentUri) {
+      return res.status(400).json({ error: `No payment URI scheme for ${wallet.network}` });
+    }
+
+    res.set('Cache-Control', 'no-store');
+
+    if (format === 'png') {
+      const png = await QRCode.toBuffer(paymentUri, { type: 'png', errorCorrectionLevel: 'M', margin: 2, width: 512 });
+      return res.type('png').send(png);
+    }
+
+    const svg = await QRCode.toString(paymentUri, { type: 'svg', errorCorrectionLevel: 'M', margin: 2 });
+    return res.type('image/svg+xml').send(svg);
+  } catch (error) {
+    console.error('Render payment QR error:', error);
+    return res.status(500).json({ error: 'Failed to render payment QR code' });
+  }
+});
+
 // Get payment request details with network+token combinations
 router.get('/payment/*', async (req: Request, res: Response) => {
   try {
@@ -279,13 +417,27 @@ router.get('/payment/*', async (req: Request, res: Response) => {
         tokenDecimals: true,
         contractAddress: true,
         walletAddress: true,
+        xpub: true,
         createdAt: true,
+        token: { select: { priceIds: true } },
       },
       orderBy: {
         createdAt: 'desc',
       },
     });
 
+    // Quotes the buyer has already locked and that are still valid,
+    // including underpaid intents that are still open for a top-up
+    const activeIntents = await prisma.paymentIntent.findMany({
+      where: {
+        paymentRequestId: paymentRequest.id,
+        status: { in: ['PENDING', 'PARTIALLY_PAID'] },
+        expiresAt: { gt: new Date() },
+      },
+      select: paymentIntentQuoteSelect,
+      orderBy: { createdAt: 'desc' },
+    });
+
     const walletsByNetworkToken: Record<string, any> = {};
     const availableOptions: Array<{network: string, token: string}> = [];
 
@@ -300,21 +452,31 @@ router.get('/payment/*', async (req: Request, res: Response) => {
       }
     });
 
+    const intentQuotes = activeIntents.map(toPaymentIntentQuote);
+
     const walletsWithPrices = await Promise.all(
       availableOptions.map(async (option) => {
         const key = `${option.network}-${option.token}`;
         const wallet = walletsByNetworkToken[key];
+        const lockedQuote = intentQuotes.find(
+          (quote) => quote.network === option.network && quote.tokenSymbol === option.token
+        );
         let cryptoAmount = 0;
         let coinPrice = 0;
+        let priceSource: string[] = [];
+        let priceAgeSeconds: number | null = null;
 
         try {
-          const conversion = await CoinGeckoPriceService.convertUsdToCrypto(
+          const conversion = await container.priceService.convertFiatToCrypto(
             parseFloat(paymentRequest.amountFiat.toString()),
-            wallet.tokenSymbol
+            toPriceAsset(wallet),
+            paymentRequest.currencyFiat
           );
 
           cryptoAmount = conversion.amount;
-          coinPrice = conversion.price;
+          coinPrice = conversion.quote.price;
+          priceSource = conversion.quote.sources.map((source) => source.source);
+          priceAgeSeconds = conversion.quote.ageSeconds;
         } catch (error) {
           console.error(`Failed to convert for ${wallet.network} ${wallet.tokenSymbol}:`, error);
         }
@@ -327,9 +489,15 @@ router.get('/payment/*', async (req: Request, res: Response) => {
           tokenType: wallet.tokenType,
           tokenDecimals: wallet.tokenDecimals,
           contractAddress: wallet.contractAddress,
-          walletAddress: wallet.walletAddress,
+          // HD wallets: pay the intent's targetAddress, never a shared address
+          walletAddress: wallet.xpub ? null : wallet.walletAddress,
+          addressPerPayment: Boolean(wallet.xpub),
+          // Only a locked quote can be paid by scanning; until then the amount is an estimate
+          paymentUri: lockedQuote?.paymentUri ?? null,
           cryptoAmount,
           coinPrice,
+          priceSource,
+          priceAgeSeconds,
         };
       })
     );
@@ -339,8 +507,10 @@ router.get('/payment/*', async (req: Request, res: Response) => {
       data: {
         linkId: paymentRequest.linkId,
         orderNumber: paymentRequest.orderNumber.toString().padStart(4, '0'),
-        amountUsd: parseFloat(paymentRequest.amountFiat.toString()),
+        amountFiat: parseFloat(paymentRequest.amountFiat.toString()),
         currency: paymentRequest.currencyFiat,
+        // Deprecated alias of amountFiat (in `currency`, not necessarily USD) for older checkout clients
+        amountUsd: parseFloat(paymentRequest.amountFiat.toString()),
         description: paymentRequest.description,
         status: isExpired ? 'EXPIRED' : paymentRequest.status,
         settlementStatus: paymentRequest.settlementStatus,
@@ -352,6 +522,7 @@ router.get('/payment/*', async (req: Request, res: Response) => {
         },
         wallets: walletsWithPrices,
         availableOptions,
+        intents: intentQuotes,
       },
     });
   } catch (error) {
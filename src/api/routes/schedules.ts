@@ -0,0 +1,167 @@
+import { Router, Response } from 'express';
+import { ScheduleStatus } from '@prisma/client';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { validate } from '../../common/validation/validator';
+import { querySchemas, scheduleSchemas } from '../../common/validation/schemas';
+import { prisma } from '../../infrastructure/database/client';
+import { createPaymentSchedule, paymentScheduleSelect } from '../../application/schedules/CreatePaymentSchedule';
+import { updatePaymentSchedule } from '../../application/schedules/UpdatePaymentSchedule';
+import { AppError } from '../../common/errors/AppError';
+
+const router = Router();
+
+// List the merchant's recurring payment schedules (?status=, repeatable)
+router.get(
+  '/',
+  authenticate,
+  validate(querySchemas.scheduleList, 'query'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.merchant) {
+        return res.status(404).json({ error: 'Merchant profile not found' });
+      }
+
+      const { status } = req.query as { status?: ScheduleStatus[] };
+
+      const schedules = await prisma.paymentSchedule.findMany({
+        where: { merchantId: req.merchant.id, ...(status && { status: { in: status } }) },
+        select: paymentScheduleSelect,
+        orderBy: { createdAt: 'desc' },
+      });
+
+      return res.json({
+        success: true,
+        data: schedules,
+      });
+    } catch (error) {
+      console.error('Get payment schedules error:', error);
+      return res.status(500).json({ error: 'Failed to fetch payment schedules' });
+    }
+  }
+);
+
+// Create a schedule that invoices weekly, monthly or on a cron expression in the merchant's timezone
+router.post('/', authenticate, validate(scheduleSchemas.createSchedule), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.merchant) {
+      return res.status(404).json({ error: 'Merchant profile not found' });
+    }
+
+    const { amountFiat, currency, description, cadence, cronExpression, startAt, dueDays, buyerEmail, pauseAfterMissed } =
+      req.body;
+
+    const schedule = await createPaymentSchedule({
+      merchantId: req.merchant.id,
+      amountFiat,
+      currency,
+      description,
+      cadence,
+      cronExpression,
+      startAt,
+      dueDays,
+      buyerEmail,
+      pauseAfterMissed,
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: schedule,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message, details: error.details });
+    }
+    console.error('Create payment schedule error:', error);
+    return res.status(500).json({ error: 'Failed to create payment schedule' });
+  }
+});
+
+// Get a schedule with its cycles, newest first, and whether each was paid
+router.get(
+  '/:id',
+  authenticate,
+  validate(scheduleSchemas.scheduleParams, 'params'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.merchant) {
+        return res.status(404).json({ error: 'Merchant profile not found' });
+      }
+
+      const schedule = await prisma.paymentSchedule.findFirst({
+        where: { id: req.params.id, merchantId: req.merchant.id },
+        select: {
+          ...paymentScheduleSelect,
+          cycles: {
+            select: {
+              id: true,
+              cycleNumber: true,
+              scheduledFor: true,
+              status: true,
+              error: true,
+              emailSentAt: true,
+              createdAt: true,
+              paymentRequest: {
+                select: { id: true, linkId: true, status: true, settlementStatus: true, expiresAt: true },
+              },
+            },
+            orderBy: { cycleNumber: 'desc' },
+            take: 100,
+          },
+        },
+      });
+
+      if (!schedule) {
+        return res.status(404).json({ error: 'Payment schedule not found' });
+      }
+
+      return res.json({
+        success: true,
+        data: schedule,
+      });
+    } catch (error) {
+      console.error('Get payment schedule error:', error);
+      return res.status(500).json({ error: 'Failed to fetch payment schedule' });
+    }
+  }
+);
+
+// Change a schedule's terms, or pause, resume or cancel it
+router.patch(
+  '/:id',
+  authenticate,
+  validate(scheduleSchemas.scheduleParams, 'params'),
+  validate(scheduleSchemas.updateSchedule),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.merchant) {
+        return res.status(404).json({ error: 'Merchant profile not found' });
+      }
+
+      const { amountFiat, description, dueDays, buyerEmail, pauseAfterMissed, status } = req.body;
+
+      const schedule = await updatePaymentSchedule({
+        merchantId: req.merchant.id,
+        scheduleId: req.params.id,
+        amountFiat,
+        description,
+        dueDays,
+        buyerEmail,
+        pauseAfterMissed,
+        status,
+      });
+
+      return res.json({
+        success: true,
+        data: schedule,
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message, details: error.details });
+      }
+      console.error('Update payment schedule error:', error);
+      return res.status(500).json({ error: 'Failed to update payment schedule' });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,122 @@
+import { Router, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { validate } from '../../common/validation/validator';
+import { querySchemas, tokenSchemas } from '../../common/validation/schemas';
+import { prisma } from '../../infrastructure/database/client';
+import { catalogTokenSelect, findCatalogToken } from '../../application/tokens/TokenCatalog';
+import { normalizeAddressFields } from '../../domain/utils/addresses';
+import { AppError } from '../../common/errors/AppError';
+
+const router = Router();
+
+// List verified tokens merchants can add wallets for
+router.get('/', authenticate, validate(querySchemas.tokenList, 'query'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { network } = req.query as { network?: string };
+
+    const tokens = await prisma.token.findMany({
+      where: { status: 'VERIFIED', ...(network && { network }) },
+      select: catalogTokenSelect,
+      orderBy: [{ network: 'asc' }, { tokenSymbol: 'asc' }],
+    });
+
+    return res.json({
+      success: true,
+      data: tokens,
+    });
+  } catch (error) {
+    console.error('Get tokens error:', error);
+    return res.status(500).json({ error: 'Failed to fetch tokens' });
+  }
+});
+
+// List the merchant's own catalog requests and their review status
+router.get('/requests', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.merchant) {
+      return res.status(404).json({ error: 'Merchant profile not found' });
+    }
+
+    const tokens = await prisma.token.findMany({
+      where: { requestedByMerchantId: req.merchant.id },
+      select: catalogTokenSelect,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return res.json({
+      success: true,
+      data: tokens,
+    });
+  } catch (error) {
+    console.error('Get token requests error:', error);
+    return res.status(500).json({ error: 'Failed to fetch token requests' });
+  }
+});
+
+// Request a token be added to the catalog (reviewed by an admin)
+router.post('/requests', authenticate, validate(tokenSchemas.requestToken), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.merchant) {
+      return res.status(404).json({ error: 'Merchant profile not found' });
+    }
+
+    const { network, tokenSymbol, tokenName, tokenType, decimals, priceIds, note } = req.body;
+    const contractAddress = normalizeAddressFields(network, { contractAddress: req.body.contractAddress }).contractAddress ?? null;
+
+    const existing = await findCatalogToken(network, tokenSymbol, contractAddress);
+
+    if (existing) {
+      return res.status(409).json({
+        error: `This token is already in the catalog (${existing.status})`,
+        data: existing,
+      });
+    }
+
+    const token = await prisma.$transaction(async (tx) => {
+      const created = await tx.token.create({
+        data: {
+          network,
+          contractAddress,
+          tokenSymbol,
+          tokenName: tokenName || null,
+          tokenType,
+          decimals,
+          priceIds: priceIds ?? {},
+          status: 'PENDING',
+          requestedByMerchantId: req.merchant!.id,
+          requestNote: note,
+        },
+        select: catalogTokenSelect,
+      });
+
+      await tx.auditLog.create({
+        data: {
+          merchantId: req.merchant!.id,
+          action: 'TOKEN_REQUESTED',
+          resourceId: created.id,
+          payload: { network, contractAddress, tokenSymbol },
+        },
+      });
+
+      return created;
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: token,
+      message: 'Token requested. Wallets can be added once an admin verifies it.',
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message, details: error.details });
+    }
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return res.status(409).json({ error: 'This token is already in the catalog' });
+    }
+    console.error('Request token error:', error);
+    return res.status(500).json({ error: 'Failed to request token' });
+  }
+});
+
+export default router;
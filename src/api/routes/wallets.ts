@@ -1,6 +1,12 @@
 import { Router, Request, Response } from 'express';
 import { authenticate, AuthRequest } from '../middleware/auth';
 import { prisma } from '../../infrastructure/database/client';
+import { catalogTokenProblem, findCatalogToken } from '../../application/tokens/TokenCatalog';
+import { normalizeAddressFields } from '../../domain/utils/addresses';
+import { DEFAULT_DERIVATION_PATH, deriveAddress, validateExtendedPublicKey } from '../../domain/utils/hdWallet';
+import { registerDerivationCursor } from '../../application/wallets/DepositAddresses';
+import { AppError } from '../../common/errors/AppError';
+import { Prisma } from '@prisma/client';
 
 const router = Router();
 
@@ -41,16 +47,56 @@ router.post('/', authenticate, async (req: AuthRequest, res: Response) => {
       tokenDecimals, 
       contractAddress, 
       walletAddress, 
+      xpub,
+      derivationPath,
       label 
     } = req.body;
 
     // Validate required fields
-    if (!network || !tokenSymbol || !tokenType || !walletAddress) {
+    if (!network || !tokenSymbol || (!walletAddress && !xpub)) {
       return res.status(400).json({ 
-        error: 'Network, token symbol, token type, and wallet address are required' 
+        error: 'Network, token symbol, and a wallet address or xpub are required' 
       });
     }
 
+    if (walletAddress && xpub) {
+      return res.status(400).json({
+        error: 'Provide either a wallet address or an xpub, not both',
+      });
+    }
+
+    // Canonical forms (e.g. EIP-55 checksum case) so lookups and the uniqueness check compare like with like
+    const addresses = normalizeAddressFields(network, { walletAddress, contractAddress });
+
+    // HD wallets are identified by their first address; payments get the following ones
+    const hdPath = xpub ? derivationPath || DEFAULT_DERIVATION_PATH : null;
+    if (xpub) {
+      validateExtendedPublicKey(network, xpub, hdPath!);
+    }
+    const receivingAddress = xpub ? deriveAddress(network, xpub, hdPath!, 0) : addresses.walletAddress!;
+
+    // Only catalog tokens can be accepted - the catalog supplies type, decimals and price source
+    const token = await findCatalogToken(network, tokenSymbol, addresses.contractAddress ?? null);
+    const tokenProblem = catalogTokenProblem(token, network, tokenSymbol);
+
+    if (tokenProblem || !token) {
+      return res.status(400).json({ error: tokenProblem });
+    }
+
+    if (token.tokenSymbol !== tokenSymbol.toUpperCase()) {
+      return res.status(400).json({
+        error: `Contract ${addresses.contractAddress} is ${token.tokenSymbol} in the token catalog, not ${tokenSymbol.toUpperCase()}`,
+      });
+    }
+
+    if (tokenType && tokenType.toUpperCase() !== token.tokenType) {
+      return res.status(400).json({ error: `Token type for ${token.tokenSymbol} must be ${token.tokenType}` });
+    }
+
+    if (tokenDecimals !== undefined && tokenDecimals !== null && Number(tokenDecimals) !== token.decimals) {
+      return res.status(400).json({ error: `${token.tokenSymbol} has ${token.decimals} decimals` });
+    }
+
     const merchant = await prisma.merchant.findUnique({
       where: { id: req.merchant.id },
       select: { walletLimit: true },
@@ -78,7 +124,7 @@ router.post('/', authenticate, async (req: AuthRequest, res: Response) => {
         merchantId: req.merchant.id,
         network: network.toUpperCase(),
         tokenSymbol: tokenSymbol.toUpperCase(),
-        walletAddress,
+        walletAddress: receivingAddress,
       },
     });
 
@@ -88,25 +134,30 @@ router.post('/', authenticate, async (req: AuthRequest, res: Response) => {
       });
     }
 
-    // Validate token decimals
-    const decimals = tokenDecimals || 9;
-    if (decimals < 0 || decimals > 18) {
-      return res.status(400).json({ error: 'Token decimals must be between 0 and 18' });
-    }
+    const wallet = await prisma.$transaction(async (tx) => {
+      const created = await tx.wallet.create({
+        data: {
+          merchantId: req.merchant!.id,
+          network: token.network,
+          tokenSymbol: token.tokenSymbol,
+          tokenName: tokenName || token.tokenName,
+          tokenType: token.tokenType,
+          tokenDecimals: token.decimals,
+          contractAddress: token.contractAddress,
+          tokenId: token.id,
+          walletAddress: receivingAddress,
+          xpub: xpub || null,
+          derivationPath: hdPath,
+          label: label || null,
+          enabled: true,
+        },
+      });
 
-    const wallet = await prisma.wallet.create({
-      data: {
-        merchantId: req.merchant.id,
-        network: network.toUpperCase(),
-        tokenSymbol: tokenSymbol.toUpperCase(),
-        tokenName: tokenName || null,
-        tokenType: tokenType.toUpperCase(),
-        tokenDecimals: decimals,
-        contractAddress: contractAddress || null,
-        walletAddress,
-        label: label || null,
-        enabled: true,
-      },
+      if (xpub) {
+        await registerDerivationCursor(tx, { network: token.network, xpub, derivationPath: hdPath! });
+      }
+
+      return created;
     });
 
     return res.status(201).json({
@@ -114,12 +165,18 @@ router.post('/', authenticate, async (req: AuthRequest, res: Response) => {
       data: wallet,
     });
   } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message, details: error.details });
+    }
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return res.status(400).json({ error: 'Wallet with this network, token, and address combination already exists' });
+    }
     console.error('Create wallet error:', error);
     return res.status(500).json({ error: 'Failed to create wallet' });
   }
 });
 
-// Update wallet (toggle enabled or change label)
+// Update wallet (toggle enabled, change label or receiving address)
 router.patch('/:id', authenticate, async (req: AuthRequest, res: Response) => {
   try {
     if (!req.merchant) {
@@ -127,7 +184,7 @@ router.patch('/:id', authenticate, async (req: AuthRequest, res: Response) => {
     }
 
     const { id } = req.params;
-    const { enabled, label } = req.body;
+    const { enabled, label, walletAddress } = req.body;
 
     // Verify wallet belongs to merchant
     const wallet = await prisma.wallet.findFirst({
@@ -141,11 +198,48 @@ router.patch('/:id', authenticate, async (req: AuthRequest, res: Response) => {
       return res.status(404).json({ error: 'Wallet not found' });
     }
 
+    // Pending intents keep the address they were quoted with
+    let normalizedAddress: string | undefined;
+    if (walletAddress !== undefined) {
+      if (wallet.xpub) {
+        return res.status(400).json({
+          error: 'Receiving addresses of this wallet are derived from its xpub and cannot be changed',
+        });
+      }
+
+      if (!walletAddress) {
+        return res.status(422).json({
+          error: 'Validation failed',
+          details: [{ field: 'walletAddress', message: 'Address is required', type: 'address.invalid' }],
+        });
+      }
+
+      normalizedAddress = normalizeAddressFields(wallet.network, { walletAddress }).walletAddress;
+
+      const duplicate = await prisma.wallet.findFirst({
+        where: {
+          merchantId: req.merchant.id,
+          network: wallet.network,
+          tokenSymbol: wallet.tokenSymbol,
+          walletAddress: normalizedAddress,
+          id: { not: id },
+        },
+        select: { id: true },
+      });
+
+      if (duplicate) {
+        return res.status(400).json({
+          error: 'Wallet with this network, token, and address combination already exists',
+        });
+      }
+    }
+
     const updated = await prisma.wallet.update({
       where: { id },
       data: {
         ...(typeof enabled === 'boolean' && { enabled }),
         ...(label !== undefined && { label }),
+        ...(normalizedAddress && { walletAddress: normalizedAddress }),
       },
     });
 
@@ -154,6 +248,12 @@ router.patch('/:id', authenticate, async (req: AuthRequest, res: Response) => {
       data: updated,
     });
   } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message, details: error.details });
+    }
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return res.status(400).json({ error: 'Wallet with this network, token, and address combination already exists' });
+    }
     console.error('Update wallet error:', error);
     return res.status(500).json({ error: 'Failed to update wallet' });
   }
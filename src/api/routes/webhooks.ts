@@ -0,0 +1,674 @@
+import { Router, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import crypto from 'crypto';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { validate } from '../../common/validation/validator';
+import { webhookSchemas } from '../../common/validation/schemas';
+import { config } from '../../config';
+import { prisma } from '../../infrastructure/database/client';
+import { container } from '../../infrastructure/di/Container';
+import { publishDomainEvents } from '../../infrastructure/events/outboxPublisher';
+import { WebhookTest } from '../../domain/events/DomainEvent';
+import { validateWebhookUrl, WEBHOOK_LIMITS_BY_TIER } from '../../domain/utils/webhooks';
+import { replayWebhookEvents } from '../../application/webhooks/ReplayWebhookEvents';
+
+const router = Router();
+
+const webhookSelect = {
+  id: true,
+  url: true,
+  events: true,
+  enabled: true,
+  consecutiveFailures: true,
+  lastSuccessAt: true,
+  lastFailureAt: true,
+  disabledAt: true,
+  disabledReason: true,
+  createdAt: true,
+  updatedAt: true,
+};
+
+// Window for the rolling success rate reported with each webhook
+const HEALTH_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Success rate (0-1) of delivery attempts in the health window, per webhook
+ * Webhooks without attempts in the window get null
+ */
+async function getSuccessRates(webhookIds: string[]): Promise<Map<string, number | null>> {
+  const grouped = await prisma.webhookDelivery.groupBy({
+    by: ['webhookId', 'success'],
+    where: {
+      webhookId: { in: webhookIds },
+      createdAt: { gte: new Date(Date.now() - HEALTH_WINDOW_MS) },
+    },
+    _count: { _all: true },
+  });
+
+  const totals = new Map<string, { succeeded: number; total: number }>();
+  for (const row of grouped) {
+    const entry = totals.get(row.webhookId) ?? { succeeded: 0, total: 0 };
+    entry.total += row._count._all;
+    if (row.success) {
+      entry.succeeded += row._count._all;
+    }
+    totals.set(row.webhookId, entry);
+  }
+
+  const rates = new Map<string, number | null>();
+  for (const id of webhookIds) {
+    const entry = totals.get(id);
+    rates.set(id, entry ? Math.round((entry.succeeded / entry.total) * 1000) / 1000 : null);
+  }
+  return rates;
+}
+
+/**
+ * GET /merchants/me/webhooks
+ * List the merchant's webhook subscriptions
+ */
+router.get('/', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.merchant) {
+      return res.status(404).json({ error: 'Merchant profile not found' });
+    }
+
+    const webhooks = await prisma.webhook.findMany({
+      where: { merchantId: req.merchant.id },
+      select: webhookSelect,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const successRates = await getSuccessRates(webhooks.map((webhook) => webhook.id));
+
+    return res.json({
+      success: true,
+      data: webhooks.map((webhook) => ({
+        ...webhook,
+        successRate24h: successRates.get(webhook.id) ?? null,
+      })),
+    });
+  } catch (error) {
+    console.error('List webhooks error:', error);
+    return res.status(500).json({ error: 'Failed to fetch webhooks' });
+  }
+});
+
+/**
+ * POST /merchants/me/webhooks
+ * Register a webhook endpoint, subject to the merchant's tier limit
+ */
+router.post('/', authenticate, validate(webhookSchemas.createWebhook), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.merchant) {
+      return res.status(404).json({ error: 'Merchant profile not found' });
+    }
+
+    const { url, events, enabled } = req.body;
+
+    const urlError = await validateWebhookUrl(url);
+    if (urlError) {
+      return res.status(400).json({ error: urlError });
+    }
+
+    const merchant = await prisma.merchant.findUnique({
+      where: { id: req.merchant.id },
+      select: { tier: true },
+    });
+
+    if (!merchant) {
+      return res.status(404).json({ error: 'Merchant not found' });
+    }
+
+    const merchantId = req.merchant.id;
+    const limit = WEBHOOK_LIMITS_BY_TIER[merchant.tier];
+
+    const webhook = await prisma.$transaction(async (tx) => {
+      // Serialize registrations for the merchant so concurrent requests cannot both fit under the limit
+      await tx.$queryRaw`SELECT id FROM core.merchants WHERE id = ${merchantId}::uuid FOR UPDATE`;
+
+      const existingCount = await tx.webhook.count({
+        where: { merchantId },
+      });
+
+      if (existingCount >= limit) {
+        return null;
+      }
+
+      const created = await tx.webhook.create({
+        data: {
+          merchantId,
+          url,
+          events,
+          enabled,
+        },
+        select: webhookSelect,
+      });
+
+      await tx.auditLog.create({
+        data: {
+          merchantId,
+          action: 'WEBHOOK_CREATED',
+          resourceId: created.id,
+          payload: { url, events },
+        },
+      });
+
+      return created;
+    });
+
+    if (!webhook) {
+      return res.status(403).json({
+        error: `Webhook limit reached. Your tier allows ${limit} webhook endpoints.`,
+      });
+    }
+
+    return res.status(201).json({
+      success: true,
+      data: webhook,
+    });
+  } catch (error) {
+    console.error('Create webhook error:', error);
+    return res.status(500).json({ error: 'Failed to create webhook' });
+  }
+});
+
+/**
+ * POST /merchants/me/webhooks/secret/rotate
+ * Replace the merchant's signing secret. Deliveries keep a second signature made with
+ * the old secret until the grace window ends, so receivers can switch over without failures
+ */
+router.post('/secret/rotate', authenticate, validate(webhookSchemas.rotateSecret), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.merchant) {
+      return res.status(404).json({ error: 'Merchant profile not found' });
+    }
+
+    const graceMinutes: number = req.body.graceMinutes ?? config.webhooks.secretGraceMinutes;
+    const webhookSecret = crypto.randomBytes(32).toString('hex');
+    const previousWebhookSecretExpiresAt = new Date(Date.now() + graceMinutes * 60 * 1000);
+
+    await prisma.$transaction(async (tx) => {
+      const current = await tx.merchant.findUnique({
+        where: { id: req.merchant!.id },
+        select: { webhookSecret: true },
+      });
+
+      if (!current) {
+        throw new Error('Merchant not found');
+      }
+
+      await tx.merchant.update({
+        where: { id: req.merchant!.id },
+        data: {
+          webhookSecret,
+          previousWebhookSecret: graceMinutes > 0 ? current.webhookSecret : null,
+          previousWebhookSecretExpiresAt: graceMinutes > 0 ? previousWebhookSecretExpiresAt : null,
+        },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          merchantId: req.merchant!.id,
+          action: 'WEBHOOK_SECRET_ROTATED',
+          resourceId: req.merchant!.id,
+          payload: { graceMinutes },
+        },
+      });
+    });
+
+    return res.json({
+      success: true,
+      data: {
+        webhookSecret,
+        previousSecretValidUntil: graceMinutes > 0 ? previousWebhookSecretExpiresAt : null,
+      },
+      message: 'Webhook secret rotated. Store the new secret securely - it will not be shown again.',
+    });
+  } catch (error) {
+    console.error('Rotate webhook secret error:', error);
+    return res.status(500).json({ error: 'Failed to rotate webhook secret' });
+  }
+});
+
+/**
+ * GET /merchants/me/webhooks/:id
+ * Get a single webhook subscription
+ */
+router.get('/:id', authenticate, validate(webhookSchemas.webhookParams, 'params'), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.merchant) {
+      return res.status(404).json({ error: 'Merchant profile not found' });
+    }
+
+    const webhook = await prisma.webhook.findFirst({
+      where: {
+        id: req.params.id,
+        merchantId: req.merchant.id,
+      },
+      select: webhookSelect,
+    });
+
+    if (!webhook) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    const successRates = await getSuccessRates([webhook.id]);
+
+    return res.json({
+      success: true,
+      data: {
+        ...webhook,
+        successRate24h: successRates.get(webhook.id) ?? null,
+      },
+    });
+  } catch (error) {
+    console.error('Get webhook error:', error);
+    return res.status(500).json({ error: 'Failed to fetch webhook' });
+  }
+});
+
+/**
+ * PATCH /merchants/me/webhooks/:id
+ * Update a webhook's URL, subscribed events or enabled flag
+ * Re-enabling resets its health counters; with replayMissed, events it missed since its
+ * last successful delivery are replayed
+ */
+router.patch(
+  '/:id',
+  authenticate,
+  validate(webhookSchemas.webhookParams, 'params'),
+  validate(webhookSchemas.updateWebhook),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.merchant) {
+        return res.status(404).json({ error: 'Merchant profile not found' });
+      }
+
+      const { url, events, enabled, replayMissed } = req.body;
+
+      const existing = await prisma.webhook.findFirst({
+        where: {
+          id: req.params.id,
+          merchantId: req.merchant.id,
+        },
+        select: {
+          id: true,
+          enabled: true,
+          lastSuccessAt: true,
+          createdAt: true,
+        },
+      });
+
+      if (!existing) {
+        return res.status(404).json({ error: 'Webhook not found' });
+      }
+
+      if (url !== undefined) {
+        const urlError = await validateWebhookUrl(url);
+        if (urlError) {
+          return res.status(400).json({ error: urlError });
+        }
+      }
+
+      const now = new Date();
+      const reEnabling = enabled === true && !existing.enabled;
+
+      const updates: Prisma.WebhookUpdateInput = {};
+      if (url !== undefined) updates.url = url;
+      if (events !== undefined) updates.events = events;
+      if (enabled !== undefined) updates.enabled = enabled;
+      if (reEnabling) {
+        updates.consecutiveFailures = 0;
+        updates.disabledAt = null;
+        updates.disabledReason = null;
+      } else if (enabled === false && existing.enabled) {
+        updates.disabledAt = now;
+        updates.disabledReason = 'Disabled by merchant';
+      }
+
+      const webhook = await prisma.$transaction(async (tx) => {
+        const updated = await tx.webhook.update({
+          where: { id: existing.id },
+          data: updates,
+          select: webhookSelect,
+        });
+
+        await tx.auditLog.create({
+          data: {
+            merchantId: req.merchant!.id,
+            action: 'WEBHOOK_UPDATED',
+            resourceId: existing.id,
+            payload: { url, events, enabled },
+          },
+        });
+
+        return updated;
+      });
+
+      // Events created up to the moment of re-enabling were skipped by the dispatcher;
+      // anything later is delivered normally
+      let replay: { queued: number; message: string } | undefined;
+      if (reEnabling && replayMissed) {
+        const result = await replayWebhookEvents({
+          merchantId: req.merchant.id,
+          merchantEmail: req.merchant.email,
+          webhook,
+          from: existing.lastSuccessAt ?? existing.createdAt,
+          to: now,
+          onlyFailed: true,
+        });
+        replay = { queued: result.queued, message: result.message };
+      }
+
+      return res.json({
+        success: true,
+        data: webhook,
+        ...(replay && { replay }),
+      });
+    } catch (error) {
+      console.error('Update webhook error:', error);
+      return res.status(500).json({ error: 'Failed to update webhook' });
+    }
+  }
+);
+
+/**
+ * DELETE /merchants/me/webhooks/:id
+ * Remove a webhook subscription
+ */
+router.delete('/:id', authenticate, validate(webhookSchemas.webhookParams, 'params'), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.merchant) {
+      return res.status(404).json({ error: 'Merchant profile not found' });
+    }
+
+    const existing = await prisma.webhook.findFirst({
+      where: {
+        id: req.params.id,
+        merchantId: req.merchant.id,
+      },
+      select: { id: true, url: true },
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.webhook.delete({
+        where: { id: existing.id },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          merchantId: req.merchant!.id,
+          action: 'WEBHOOK_DELETED',
+          resourceId: existing.id,
+          payload: { url: existing.url },
+        },
+      });
+    });
+
+    return res.json({
+      success: true,
+      message: 'Webhook deleted successfully',
+    });
+  } catch (error) {
+    console.error('Delete webhook error:', error);
+    return res.status(500).json({ error: 'Failed to delete webhook' });
+  }
+});
+
+/**
+ * POST /merchants/me/webhooks/:id/test
+ * Send a WebhookTest event to this endpoint through the outbox and delivery queue
+ */
+router.post('/:id/test', authenticate, validate(webhookSchemas.webhookParams, 'params'), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.merchant) {
+      return res.status(404).json({ error: 'Merchant profile not found' });
+    }
+
+    const webhook = await prisma.webhook.findFirst({
+      where: {
+        id: req.params.id,
+        merchantId: req.merchant.id,
+      },
+      select: { id: true },
+    });
+
+    if (!webhook) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    const event = new WebhookTest(webhook.id, req.merchant.id);
+
+    await prisma.$transaction(async (tx) => {
+      await publishDomainEvents(tx, [event], { webhookId: webhook.id });
+    });
+
+    return res.status(202).json({
+      success: true,
+      message: 'Test event queued for delivery',
+      data: {
+        eventId: event.eventId,
+      },
+    });
+  } catch (error) {
+    console.error('Send test webhook error:', error);
+    return res.status(500).json({ error: 'Failed to send test event' });
+  }
+});
+
+/**
+ * GET /merchants/me/webhooks/:id/deliveries
+ * List delivery attempts for a webhook, newest first
+ */
+router.get(
+  '/:id/deliveries',
+  authenticate,
+  validate(webhookSchemas.webhookParams, 'params'),
+  validate(webhookSchemas.listDeliveries, 'query'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.merchant) {
+        return res.status(404).json({ error: 'Merchant profile not found' });
+      }
+
+      const { status, before, limit } = req.query as unknown as {
+        status?: 'succeeded' | 'failed';
+        before?: Date;
+        limit: number;
+      };
+
+      const webhook = await prisma.webhook.findFirst({
+        where: {
+          id: req.params.id,
+          merchantId: req.merchant.id,
+        },
+        select: { id: true },
+      });
+
+      if (!webhook) {
+        return res.status(404).json({ error: 'Webhook not found' });
+      }
+
+      const deliveries = await prisma.webhookDelivery.findMany({
+        where: {
+          webhookId: webhook.id,
+          ...(status && { success: status === 'succeeded' }),
+          ...(before && { createdAt: { lt: before } }),
+        },
+        select: {
+          id: true,
+          eventId: true,
+          eventType: true,
+          trigger: true,
+          attempt: true,
+          responseStatus: true,
+          latencyMs: true,
+          success: true,
+          error: true,
+          createdAt: true,
+        },
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+      });
+
+      return res.json({
+        success: true,
+        data: deliveries,
+        pagination: {
+          nextBefore: deliveries.length === limit ? deliveries[deliveries.length - 1].createdAt : null,
+        },
+      });
+    } catch (error) {
+      console.error('List webhook deliveries error:', error);
+      return res.status(500).json({ error: 'Failed to fetch webhook deliveries' });
+    }
+  }
+);
+
+/**
+ * GET /merchants/me/webhooks/:id/deliveries/:deliveryId
+ * Inspect a single delivery attempt including request and response bodies
+ */
+router.get('/:id/deliveries/:deliveryId', authenticate, validate(webhookSchemas.deliveryParams, 'params'), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.merchant) {
+      return res.status(404).json({ error: 'Merchant profile not found' });
+    }
+
+    const delivery = await prisma.webhookDelivery.findFirst({
+      where: {
+        id: req.params.deliveryId,
+        webhookId: req.params.id,
+        merchantId: req.merchant.id,
+      },
+    });
+
+    if (!delivery) {
+      return res.status(404).json({ error: 'Delivery not found' });
+    }
+
+    return res.json({
+      success: true,
+      data: delivery,
+    });
+  } catch (error) {
+    console.error('Get webhook delivery error:', error);
+    return res.status(500).json({ error: 'Failed to fetch webhook delivery' });
+  }
+});
+
+/**
+ * POST /merchants/me/webhooks/:id/deliveries/:deliveryId/redeliver
+ * Queue the event from a past delivery again, signed fresh and sent to the webhook's current URL
+ */
+router.post('/:id/deliveries/:deliveryId/redeliver', authenticate, validate(webhookSchemas.deliveryParams, 'params'), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.merchant) {
+      return res.status(404).json({ error: 'Merchant profile not found' });
+    }
+
+    const delivery = await prisma.webhookDelivery.findFirst({
+      where: {
+        id: req.params.deliveryId,
+        webhookId: req.params.id,
+        merchantId: req.merchant.id,
+      },
+      select: {
+        eventId: true,
+        eventType: true,
+        requestBody: true,
+        webhook: {
+          select: { id: true, url: true },
+        },
+      },
+    });
+
+    if (!delivery) {
+      return res.status(404).json({ error: 'Delivery not found' });
+    }
+
+    const { data } = JSON.parse(delivery.requestBody);
+
+    await container.webhookService.queueWebhook({
+      merchantId: req.merchant.id,
+      webhookUrl: delivery.webhook.url,
+      event: delivery.eventType,
+      data,
+      merchantEmail: req.merchant.email,
+      webhookId: delivery.webhook.id,
+      eventId: delivery.eventId ?? undefined,
+      trigger: 'redelivery',
+    });
+
+    return res.status(202).json({
+      success: true,
+      message: 'Redelivery queued',
+    });
+  } catch (error) {
+    console.error('Redeliver webhook error:', error);
+    return res.status(500).json({ error: 'Failed to queue redelivery' });
+  }
+});
+
+/**
+ * POST /merchants/me/webhooks/:id/replay
+ * Re-send every subscribed event created in a time range (by default only those never delivered successfully)
+ */
+router.post(
+  '/:id/replay',
+  authenticate,
+  validate(webhookSchemas.webhookParams, 'params'),
+  validate(webhookSchemas.replay),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.merchant) {
+        return res.status(404).json({ error: 'Merchant profile not found' });
+      }
+
+      const { from, to, onlyFailed } = req.body as { from: Date; to: Date; onlyFailed: boolean };
+
+      const webhook = await prisma.webhook.findFirst({
+        where: {
+          id: req.params.id,
+          merchantId: req.merchant.id,
+        },
+        select: { id: true, url: true, events: true },
+      });
+
+      if (!webhook) {
+        return res.status(404).json({ error: 'Webhook not found' });
+      }
+
+      const result = await replayWebhookEvents({
+        merchantId: req.merchant.id,
+        merchantEmail: req.merchant.email,
+        webhook,
+        from,
+        to,
+        onlyFailed,
+      });
+
+      if (!result.success) {
+        return res.status(400).json({ error: result.message });
+      }
+
+      return res.status(202).json({
+        success: true,
+        message: result.message,
+        data: {
+          queued: result.queued,
+        },
+      });
+    } catch (error) {
+      console.error('Replay webhook events error:', error);
+      return res.status(500).json({ error: 'Failed to replay webhook events' });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,213 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../infrastructure/database/client';
+import { paymentSchemas } from '../../common/validation/schemas';
+import { countLinksThisMonth, createPaymentRequest } from './CreatePaymentRequest';
+import { ConflictError } from '../../common/errors/AppError';
+
+export const BULK_MAX_ROWS = 500;
+// Attempts at the batch transaction before giving up on serialization failures
+const BULK_MAX_ATTEMPTS = 3;
+
+interface BulkPaymentRequestRow {
+  amountFiat: number;
+  description?: string;
+  expiresInMinutes?: number;
+  redirectUrl?: string;
+  externalReference?: string;
+}
+
+interface BulkCreatePaymentRequestsInput {
+  merchantId: string;
+  rows: unknown[];
+}
+
+interface BulkRowResult {
+  row: number; // 1-based position in the upload
+  success: boolean;
+  externalReference?: string;
+  paymentRequestId?: string;
+  linkId?: string;
+  paymentUrl?: string;
+  expiresAt?: Date;
+  errors?: string[];
+}
+
+interface BulkCreatePaymentRequestsOutput {
+  success: boolean;
+  created: number;
+  failed: number;
+  results: BulkRowResult[];
+  limitExceeded?: boolean;
+  message: string;
+}
+
+/**
+ * Create many payment requests from one upload
+ *
+ * Every row is validated first and invalid rows are reported without being created.
+ * Valid rows are created through createPaymentRequest in one serializable transaction,
+ * so order numbers stay sequential and the monthly link limit is checked for the whole
+ * batch - if the valid rows do not all fit, nothing is created.
+ */
+export async function bulkCreatePaymentRequests(
+  input: BulkCreatePaymentRequestsInput
+): Promise<BulkCreatePaymentRequestsOutput> {
+  const { merchantId, rows } = input;
+
+  if (rows.length === 0) {
+    return { success: false, created: 0, failed: 0, results: [], message: 'No rows to create' };
+  }
+
+  if (rows.length > BULK_MAX_ROWS) {
+    return {
+      success: false,
+      created: 0,
+      failed: rows.length,
+      results: [],
+      message: `A bulk upload may contain at most ${BULK_MAX_ROWS} rows`,
+    };
+  }
+
+  const results: BulkRowResult[] = [];
+  const valid: { row: number; value: BulkPaymentRequestRow }[] = [];
+
+  rows.forEach((raw, index) => {
+    const { error, value } = paymentSchemas.bulkPaymentRequestRow.validate(raw, {
+      abortEarly: false,
+      stripUnknown: true,
+      errors: { wrap: { label: '' } },
+    });
+
+    if (error) {
+      results.push({
+        row: index + 1,
+        success: false,
+        externalReference: (raw as BulkPaymentRequestRow | null)?.externalReference,
+        errors: error.details.map((detail) => detail.message),
+      });
+    } else {
+      valid.push({ row: index + 1, value });
+    }
+  });
+
+  if (valid.length === 0) {
+    return {
+      success: false,
+      created: 0,
+      failed: results.length,
+      results,
+      message: 'No valid rows to create',
+    };
+  }
+
+  const merchant = await prisma.merchant.findUnique({
+    where: { id: merchantId },
+    select: { timezone: true, paymentLinkMonthlyLimit: true, suspendedAt: true },
+  });
+
+  if (!merchant) {
+    return { success: false, created: 0, failed: rows.length, results, message: 'Merchant not found' };
+  }
+
+  if (merchant.suspendedAt) {
+    return { success: false, created: 0, failed: rows.length, results, message: 'Merchant account suspended' };
+  }
+
+  const createBatch = () =>
+    prisma.$transaction(
+      async (tx) => {
+        // Serialize bulk uploads for the merchant so two batches cannot both fit the same remaining quota
+        await tx.$queryRaw`SELECT id FROM core.merchants WHERE id = ${merchantId}::uuid FOR UPDATE`;
+
+        if (merchant.paymentLinkMonthlyLimit > 0) {
+          const used = await countLinksThisMonth(tx, merchantId, merchant.timezone);
+          const remaining = Math.max(merchant.paymentLinkMonthlyLimit - used, 0);
+
+          if (valid.length > remaining) {
+            return { remaining, created: [] as BulkRowResult[] };
+          }
+        }
+
+        const created: BulkRowResult[] = [];
+
+        for (const { row, value } of valid) {
+          const result = await createPaymentRequest(
+            {
+              merchantId,
+              amountFiat: value.amountFiat,
+              description: value.description,
+              expiryMinutes: value.expiresInMinutes,
+              redirectUrl: value.redirectUrl,
+              externalReference: value.externalReference,
+              createdBy: 'merchant',
+            },
+            tx
+          );
+
+          created.push(
+            result.success
+              ? {
+                  row,
+                  success: true,
+                  externalReference: value.externalReference,
+                  paymentRequestId: result.paymentRequestId,
+                  linkId: result.linkId,
+                  paymentUrl: result.paymentUrl,
+                  expiresAt: result.expiresAt,
+                }
+              : { row, success: false, externalReference: value.externalReference, errors: [result.message] }
+          );
+        }
+
+        return { remaining: null, created };
+      },
+      {
+        isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+        timeout: 60000,
+      }
+    );
+
+  let outcome: Awaited<ReturnType<typeof createBatch>> | undefined;
+
+  // Concurrent writers can abort the serializable transaction; nothing was created, so run it again
+  for (let attempt = 1; !outcome; attempt++) {
+    try {
+      outcome = await createBatch();
+    } catch (error) {
+      const serializationFailure = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034';
+
+      if (!serializationFailure) {
+        throw error;
+      }
+
+      if (attempt >= BULK_MAX_ATTEMPTS) {
+        throw new ConflictError(
+          'Payment requests are being created concurrently for this merchant - retry the upload',
+          'BULK_CREATE_CONFLICT'
+        );
+      }
+    }
+  }
+
+  if (outcome.remaining !== null) {
+    return {
+      success: false,
+      created: 0,
+      failed: rows.length,
+      results,
+      limitExceeded: true,
+      message: `Monthly payment link limit reached. ${valid.length} valid row(s) but only ${outcome.remaining} link(s) left this month - nothing was created.`,
+    };
+  }
+
+  const all = [...results, ...outcome.created].sort((a, b) => a.row - b.row);
+  const created = all.filter((result) => result.success).length;
+
+  return {
+    success: created > 0,
+    created,
+    failed: all.length - created,
+    results: all,
+    message: `${created} of ${rows.length} payment request(s) created`,
+  };
+}
@@ -0,0 +1,322 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../infrastructure/database/client';
+import { config } from '../../config';
+import { container } from '../../infrastructure/di/Container';
+import { AggregatedPriceQuote } from '../../infrastructure/pricing/PriceAggregator';
+import { toPriceAsset } from '../tokens/TokenCatalog';
+import { allocateDepositAddress } from '../wallets/DepositAddresses';
+import { PaymentIntentCreated } from '../../domain/events/DomainEvent';
+import { publishDomainEvents } from '../../infrastructure/events/outboxPublisher';
+import { getRequiredConfirmations } from '../../domain/utils/settlement';
+import { quoteCryptoAmount } from '../../domain/utils/quotes';
+import { DEFAULT_DERIVATION_PATH } from '../../domain/utils/hdWallet';
+import { buildPaymentUri } from '../../domain/utils/paymentUris';
+import { generatePaymentReference, paymentReferenceType, PaymentReferenceType } from '../../domain/utils/paymentReferences';
+
+// Intents on chains no registered plugin watches are settled manually by the merchant
+const MANUAL_PLUGIN_ID = 'manual';
+
+const MAX_REFERENCE_ATTEMPTS = 3;
+
+interface CreatePaymentIntentInput {
+  linkId: string;
+  network: string;
+  tokenSymbol: string;
+}
+
+export interface PaymentIntentQuote {
+  id: string;
+  network: string;
+  tokenSymbol: string;
+  amountCrypto: string;
+  amountFiat: string;
+  currency: string;
+  quoteRate: string;
+  quoteSource: string | null;
+  quotePricedAt: Date | null;
+  targetAddress: string | null;
+  targetMemo: string | null;
+  // How the buyer's wallet must attach targetMemo, when set
+  targetMemoType: PaymentReferenceType | null;
+  quotedAt: Date | null;
+  expiresAt: Date;
+  status: string;
+  amountReceived: string | null;
+  // Remaining amount to top up when the buyer underpaid
+  amountDue: string | null;
+  // Wallet deep link (BIP21, EIP-681, Solana Pay) for the amount still to pay
+  paymentUri: string | null;
+}
+
+interface CreatePaymentIntentOutput {
+  success: boolean;
+  intent?: PaymentIntentQuote;
+  reused?: boolean;
+  message: string;
+}
+
+export const paymentIntentQuoteSelect = {
+  id: true,
+  selectedChain: true,
+  selectedCoin: true,
+  amountCrypto: true,
+  amountFiat: true,
+  quoteCurrency: true,
+  quoteRate: true,
+  quoteSource: true,
+  quotePricedAt: true,
+  targetAddress: true,
+  targetMemo: true,
+  quotedAt: true,
+  expiresAt: true,
+  status: true,
+  amountReceived: true,
+  shortfallAmount: true,
+  wallet: { select: { contractAddress: true, tokenDecimals: true } },
+  paymentRequest: { select: { description: true, merchant: { select: { businessName: true } } } },
+} satisfies Prisma.PaymentIntentSelect;
+
+type SelectedIntent = Prisma.PaymentIntentGetPayload<{ select: typeof paymentIntentQuoteSelect }>;
+
+/**
+ * Payment URI for an intent that still expects a transfer
+ */
+function intentPaymentUri(intent: SelectedIntent, amountDue: Prisma.Decimal | null): string | null {
+  const amount = intent.status === 'PENDING' ? intent.amountCrypto : amountDue;
+
+  if (!amount || !intent.wallet || !intent.targetAddress) {
+    return null;
+  }
+
+  return buildPaymentUri({
+    network: intent.selectedChain,
+    address: intent.targetAddress,
+    amount,
+    decimals: intent.wallet.tokenDecimals,
+    contractAddress: intent.wallet.contractAddress,
+    reference: intent.targetMemo,
+    label: intent.paymentRequest.merchant.businessName,
+    message: intent.paymentRequest.description,
+  });
+}
+
+/**
+ * Map a stored intent to the quote shape returned to buyers
+ */
+export function toPaymentIntentQuote(intent: SelectedIntent): PaymentIntentQuote {
+  const amountDue = intent.status === 'PARTIALLY_PAID' ? intent.shortfallAmount : null;
+
+  return {
+    id: intent.id,
+    network: intent.selectedChain,
+    tokenSymbol: intent.selectedCoin,
+    amountCrypto: intent.amountCrypto.toString(),
+    amountFiat: intent.amountFiat.toString(),
+    currency: intent.quoteCurrency ?? 'USD',
+    quoteRate: intent.quoteRate?.toString() ?? '0',
+    quoteSource: intent.quoteSource,
+    quotePricedAt: intent.quotePricedAt,
+    targetAddress: intent.targetAddress,
+    targetMemo: intent.targetMemo,
+    targetMemoType: intent.targetMemo ? paymentReferenceType(intent.selectedChain) : null,
+    quotedAt: intent.quotedAt,
+    expiresAt: intent.expiresAt,
+    status: intent.status,
+    amountReceived: intent.amountReceived?.toString() ?? null,
+    amountDue: amountDue?.toString() ?? null,
+    paymentUri: intentPaymentUri(intent, amountDue),
+  };
+}
+
+function isReferenceCollision(error: unknown): boolean {
+  return (
+    error instanceof Prisma.PrismaClientKnownRequestError &&
+    error.code === 'P2002' &&
+    String(error.meta?.target).includes('targetMemo')
+  );
+}
+
+/**
+ * Lock a crypto quote for a payment request on the network/token the buyer picked
+ * An unexpired pending intent for the same network/token is returned instead of re-quoting,
+ * so reloading the payment page keeps showing the same amount
+ */
+export async function createPaymentIntent(
+  input: CreatePaymentIntentInput
+): Promise<CreatePaymentIntentOutput> {
+  const network = input.network.toUpperCase();
+  const tokenSymbol = input.tokenSymbol.toUpperCase();
+
+  const paymentRequest = await prisma.paymentRequest.findUnique({
+    where: { linkId: input.linkId },
+    select: {
+      id: true,
+      merchantId: true,
+      amountFiat: true,
+      currencyFiat: true,
+      status: true,
+      settlementStatus: true,
+      expiresAt: true,
+      merchant: {
+        select: { suspendedAt: true },
+      },
+    },
+  });
+
+  if (!paymentRequest) {
+    return { success: false, message: 'Payment request not found' };
+  }
+
+  const now = new Date();
+
+  if (paymentRequest.expiresAt <= now) {
+    return { success: false, message: 'Payment request has expired' };
+  }
+
+  if (paymentRequest.status !== 'PENDING' || paymentRequest.settlementStatus !== 'PENDING') {
+    return { success: false, message: 'Payment request is no longer open for payment' };
+  }
+
+  if (paymentRequest.merchant.suspendedAt) {
+    return { success: false, message: 'Merchant account suspended' };
+  }
+
+  const existing = await prisma.paymentIntent.findFirst({
+    where: {
+      paymentRequestId: paymentRequest.id,
+      selectedChain: network,
+      selectedCoin: tokenSymbol,
+      status: 'PENDING',
+      expiresAt: { gt: now },
+    },
+    select: paymentIntentQuoteSelect,
+    orderBy: { createdAt: 'desc' },
+  });
+
+  if (existing) {
+    return {
+      success: true,
+      intent: toPaymentIntentQuote(existing),
+      reused: true,
+      message: 'Existing quote is still valid',
+    };
+  }
+
+  const wallet = await prisma.wallet.findFirst({
+    where: {
+      merchantId: paymentRequest.merchantId,
+      network,
+      tokenSymbol,
+      enabled: true,
+    },
+    select: {
+      id: true,
+      network: true,
+      walletAddress: true,
+      xpub: true,
+      derivationPath: true,
+      tokenSymbol: true,
+      tokenDecimals: true,
+      token: { select: { priceIds: true } },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  if (!wallet) {
+    return { success: false, message: `Merchant does not accept ${tokenSymbol} on ${network}` };
+  }
+
+  // Stale prices are never locked into an intent
+  let price: AggregatedPriceQuote;
+  try {
+    price = await container.priceService.getFreshQuote(toPriceAsset(wallet), paymentRequest.currencyFiat);
+  } catch (error) {
+    console.error(`Failed to quote ${network} ${tokenSymbol} in ${paymentRequest.currencyFiat}:`, error);
+    return { success: false, message: `Price for ${tokenSymbol} is currently unavailable` };
+  }
+
+  const quoteRate = new Prisma.Decimal(price.price);
+  const amountCrypto = quoteCryptoAmount(paymentRequest.amountFiat, quoteRate, wallet.tokenDecimals);
+
+  const quoteExpiresAt = new Date(now.getTime() + config.payment.quoteValidityMinutes * 60 * 1000);
+  const expiresAt = quoteExpiresAt < paymentRequest.expiresAt ? quoteExpiresAt : paymentRequest.expiresAt;
+
+  const plugin = await prisma.pluginRegistry.findFirst({
+    where: {
+      enabled: true,
+      allowedChains: { has: network },
+    },
+    select: { pluginId: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const lockIntent = () => prisma.$transaction(async (tx) => {
+    // HD wallets give every intent its own address so incoming transactions map to exactly one payment
+    const deposit = wallet.xpub
+      ? await allocateDepositAddress(tx, {
+          network: wallet.network,
+          xpub: wallet.xpub,
+          derivationPath: wallet.derivationPath ?? DEFAULT_DERIVATION_PATH,
+        })
+      : null;
+
+    const created = await tx.paymentIntent.create({
+      data: {
+        paymentRequestId: paymentRequest.id,
+        merchantId: paymentRequest.merchantId,
+        pluginId: plugin?.pluginId ?? MANUAL_PLUGIN_ID,
+        amountCrypto,
+        amountFiat: paymentRequest.amountFiat,
+        selectedCoin: tokenSymbol,
+        selectedChain: network,
+        walletId: wallet.id,
+        quoteRate,
+        quoteCurrency: paymentRequest.currencyFiat,
+        quotedAt: now,
+        quoteSource: price.sources.map((source) => source.source).join(',').slice(0, 100),
+        quotePricedAt: price.fetchedAt,
+        targetAddress: deposit?.address ?? wallet.walletAddress,
+        derivationIndex: deposit?.derivationIndex ?? null,
+        // Buyers sharing one address are told apart by a reference on chains that carry one
+        targetMemo: deposit ? null : generatePaymentReference(network),
+        requiredConfs: getRequiredConfirmations(network),
+        expiresAt,
+      },
+      select: paymentIntentQuoteSelect,
+    });
+
+    await publishDomainEvents(tx, [
+      new PaymentIntentCreated(
+        created.id,
+        paymentRequest.id,
+        paymentRequest.merchantId,
+        tokenSymbol,
+        network,
+        amountCrypto.toString(),
+        quoteRate.toString(),
+        expiresAt,
+      ),
+    ]);
+
+    return created;
+  });
+
+  let intent: SelectedIntent;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      intent = await lockIntent();
+      break;
+    } catch (error) {
+      // A random reference can collide with an earlier intent's; draw a new one
+      if (attempt < MAX_REFERENCE_ATTEMPTS && isReferenceCollision(error)) continue;
+      throw error;
+    }
+  }
+
+  return {
+    success: true,
+    intent: toPaymentIntentQuote(intent),
+    reused: false,
+    message: 'Quote locked',
+  };
+}
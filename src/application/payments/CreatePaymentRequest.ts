@@ -4,6 +4,8 @@ import { getCurrentOrderDate, getNextOrderNumber, generateLinkId } from '../../d
 import { canBuyerCreateOrder, recordBuyerOrder } from '../../domain/utils/buyerRateLimit';
 import { DateTime } from 'luxon';
 import { Prisma } from '@prisma/client';
+import { PaymentRequestCreated } from '../../domain/events/DomainEvent';
+import { publishDomainEvents } from '../../infrastructure/events/outboxPublisher';
 
 class MonthlyLimitExceededError extends Error {
   limit: number;
@@ -23,6 +25,11 @@ interface CreatePaymentRequestInput {
   createdBy: 'merchant' | 'buyer';
   buyerIp?: string;
   buyerNote?: string;
+  externalReference?: string;
+  // Fixed expiry for invoices that stay open longer than the checkout expiries (recurring schedules)
+  expiresAt?: Date;
+  // Defaults to the merchant's defaultCurrency
+  currency?: string;
 }
 
 interface CreatePaymentRequestOutput {
@@ -34,8 +41,36 @@ interface CreatePaymentRequestOutput {
   message: string;
 }
 
+/**
+ * Payment links a merchant has created in the current calendar month of their timezone
+ */
+export async function countLinksThisMonth(
+  tx: Prisma.TransactionClient,
+  merchantId: string,
+  timezone: string
+): Promise<number> {
+  const monthStartUtc = DateTime.now().setZone(timezone || 'UTC').startOf('month').toUTC();
+  const nextMonthStartUtc = monthStartUtc.plus({ months: 1 });
+
+  return tx.paymentRequest.count({
+    where: {
+      merchantId,
+      createdAt: {
+        gte: monthStartUtc.toJSDate(),
+        lt: nextMonthStartUtc.toJSDate(),
+      },
+    },
+  });
+}
+
+/**
+ * Create a payment request with the next order number for the merchant's day
+ * Pass outerTx to create it inside the caller's transaction (e.g. a bulk upload); database
+ * errors are then rethrown so the caller can roll back the whole transaction
+ */
 export async function createPaymentRequest(
-  input: CreatePaymentRequestInput
+  input: CreatePaymentRequestInput,
+  outerTx?: Prisma.TransactionClient
 ): Promise<CreatePaymentRequestOutput> {
   const {
     merchantId,
@@ -46,6 +81,8 @@ export async function createPaymentRequest(
     createdBy,
     buyerIp,
     buyerNote,
+    externalReference,
+    currency,
   } = input;
 
   if (amountFiat <= 0) {
@@ -89,79 +126,78 @@ export async function createPaymentRequest(
     }
   }
 
-  const timezone = merchant.timezone || 'UTC';
-  const nowInZone = DateTime.now().setZone(timezone);
-  const monthStartUtc = nowInZone.startOf('month').toUTC();
-  const nextMonthStartUtc = monthStartUtc.plus({ months: 1 });
   const allowedExpiries = [15, 30, 60, 120];
-  const effectiveExpiry = expiryMinutes ?? merchant.defaultPaymentExpiryMinutes ?? 60;
+  const effectiveExpiry = input.expiresAt
+    ? Math.ceil((input.expiresAt.getTime() - Date.now()) / 60000)
+    : expiryMinutes ?? merchant.defaultPaymentExpiryMinutes ?? 60;
 
-  if (!allowedExpiries.includes(effectiveExpiry)) {
+  if (input.expiresAt ? effectiveExpiry <= 0 : !allowedExpiries.includes(effectiveExpiry)) {
     return { success: false, message: 'Invalid expiry time. Must be 15, 30, 60, or 120 minutes' };
   }
 
+  const currencyFiat = currency ?? merchant.defaultCurrency;
+
   try {
-    const { paymentRequest, linkId, expiresAt } = await prisma.$transaction(
-      async (tx) => {
-        if (merchant.paymentLinkMonthlyLimit > 0) {
-          const monthlyCount = await tx.paymentRequest.count({
-            where: {
-              merchantId,
-              createdAt: {
-                gte: monthStartUtc.toJSDate(),
-                lt: nextMonthStartUtc.toJSDate(),
-              },
-            },
-          });
-
-          if (monthlyCount >= merchant.paymentLinkMonthlyLimit) {
-            throw new MonthlyLimitExceededError(merchant.paymentLinkMonthlyLimit);
-          }
-        }
+    const create = async (tx: Prisma.TransactionClient) => {
+      if (merchant.paymentLinkMonthlyLimit > 0) {
+        const monthlyCount = await countLinksThisMonth(tx, merchantId, merchant.timezone);
 
-        const orderDate = getCurrentOrderDate(merchant.timezone);
-        const orderNumber = await getNextOrderNumber(merchantId, orderDate, tx);
-        const linkId = generateLinkId(merchant.slug, orderDate, orderNumber);
-        const expiresAt = new Date(Date.now() + effectiveExpiry * 60 * 1000);
+        if (monthlyCount >= merchant.paymentLinkMonthlyLimit) {
+          throw new MonthlyLimitExceededError(merchant.paymentLinkMonthlyLimit);
+        }
+      }
 
-        const paymentRequest = await tx.paymentRequest.create({
-          data: {
-            merchantId,
-            orderDate,
-            orderNumber,
+      const orderDate = getCurrentOrderDate(merchant.timezone);
+      const orderNumber = await getNextOrderNumber(merchantId, orderDate, tx);
+      const linkId = generateLinkId(merchant.slug, orderDate, orderNumber);
+      const expiresAt = input.expiresAt ?? new Date(Date.now() + effectiveExpiry * 60 * 1000);
+
+      const paymentRequest = await tx.paymentRequest.create({
+        data: {
+          merchantId,
+          orderDate,
+          orderNumber,
+          linkId,
+          amountFiat,
+          currencyFiat,
+          description,
+          expiryMinutes: effectiveExpiry,
+          expiresAt,
+          createdBy,
+          createdByIp: buyerIp,
+          buyerNote,
+          redirectUrl,
+          externalReference,
+          status: 'PENDING',
+        },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          merchantId,
+          action: 'PAYMENT_REQUEST_CREATED',
+          resourceId: paymentRequest.id,
+          payload: {
             linkId,
-            amountFiat,
-            currencyFiat: merchant.defaultCurrency,
-            description,
-            expiryMinutes: effectiveExpiry,
-            expiresAt,
             createdBy,
-            createdByIp: buyerIp,
-            buyerNote,
-            redirectUrl,
-            status: 'PENDING',
+            amountFiat,
+            externalReference,
           },
-        });
+        },
+      });
 
-        await tx.auditLog.create({
-          data: {
-            merchantId,
-            action: 'PAYMENT_REQUEST_CREATED',
-            resourceId: paymentRequest.id,
-            payload: {
-              linkId,
-              createdBy,
-              amountFiat,
-            },
-          },
-        });
+      await publishDomainEvents(tx, [
+        new PaymentRequestCreated(paymentRequest.id, merchantId, amountFiat, currencyFiat),
+      ]);
 
-        return { paymentRequest, linkId, expiresAt };
-      },
-      {
-        isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
-      }
-    );
+      return { paymentRequest, linkId, expiresAt };
+    };
+
+    const { paymentRequest, linkId, expiresAt } = outerTx
+      ? await create(outerTx)
+      : await prisma.$transaction(create, {
+          isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+        });
 
     if (createdBy === 'buyer' && buyerIp) {
       await recordBuyerOrder(merchantId, buyerIp);
@@ -185,6 +221,11 @@ export async function createPaymentRequest(
       };
     }
 
+    // The caller's transaction is aborted - let the caller roll it back
+    if (outerTx) {
+      throw error;
+    }
+
     if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
       return {
         success: false,
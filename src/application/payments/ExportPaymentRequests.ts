@@ -0,0 +1,246 @@
+import { Writable } from 'stream';
+import { once } from 'events';
+import { Prisma } from '@prisma/client';
+import { DateTime } from 'luxon';
+import ExcelJS from 'exceljs';
+import { prisma } from '../../infrastructure/database/client';
+import {
+  PaymentRequestFilters,
+  buildPaymentRequestOrderBy,
+  buildPaymentRequestWhere,
+} from './ListPaymentRequests';
+
+export type ExportFormat = 'csv' | 'jsonl' | 'xlsx';
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  jsonl: 'application/x-ndjson; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+// Rows fetched per query - only one batch is held in memory at a time
+const EXPORT_BATCH_SIZE = 500;
+
+interface ExportPaymentRequestsInput {
+  merchantId: string;
+  filters: PaymentRequestFilters;
+  format: ExportFormat;
+  timezone: string;
+  output: Writable;
+}
+
+interface ExportIntent {
+  coin: string;
+  chain: string;
+  status: string;
+  txId: string | null;
+}
+
+interface ExportRow {
+  linkId: string;
+  orderDate: string;
+  orderNumber: number;
+  amountFiat: string;
+  currency: string;
+  status: string;
+  settlementStatus: string;
+  createdBy: string;
+  description: string | null;
+  externalReference: string | null;
+  createdAt: string;
+  settledAt: string | null;
+  intents: ExportIntent[];
+}
+
+const COLUMNS: (keyof ExportRow)[] = [
+  'linkId',
+  'orderDate',
+  'orderNumber',
+  'amountFiat',
+  'currency',
+  'status',
+  'settlementStatus',
+  'createdBy',
+  'description',
+  'externalReference',
+  'createdAt',
+  'settledAt',
+  'intents',
+];
+
+const exportSelect = {
+  id: true,
+  linkId: true,
+  orderDate: true,
+  orderNumber: true,
+  amountFiat: true,
+  currencyFiat: true,
+  status: true,
+  settlementStatus: true,
+  createdBy: true,
+  description: true,
+  externalReference: true,
+  createdAt: true,
+  paymentIntents: {
+    select: { selectedCoin: true, selectedChain: true, status: true, txId: true, settledAt: true },
+    orderBy: { createdAt: 'asc' },
+  },
+  settlementTransitions: {
+    where: { toStatus: 'SETTLED' },
+    select: { createdAt: true },
+    orderBy: { createdAt: 'desc' },
+    take: 1,
+  },
+} satisfies Prisma.PaymentRequestSelect;
+
+type ExportRecord = Prisma.PaymentRequestGetPayload<{ select: typeof exportSelect }>;
+
+function toExportRow(record: ExportRecord, timezone: string): ExportRow {
+  const inZone = (date: Date) => DateTime.fromJSDate(date, { zone: timezone }).toISO({ suppressMilliseconds: true });
+
+  const settledAt =
+    record.settlementStatus === 'SETTLED'
+      ? record.settlementTransitions[0]?.createdAt ??
+        record.paymentIntents.find((intent) => intent.settledAt)?.settledAt ??
+        null
+      : null;
+
+  return {
+    linkId: record.linkId,
+    orderDate: record.orderDate,
+    orderNumber: record.orderNumber,
+    amountFiat: record.amountFiat.toString(),
+    currency: record.currencyFiat,
+    status: record.status,
+    settlementStatus: record.settlementStatus,
+    createdBy: record.createdBy,
+    description: record.description,
+    externalReference: record.externalReference,
+    createdAt: inZone(record.createdAt) ?? record.createdAt.toISOString(),
+    settledAt: settledAt ? inZone(settledAt) : null,
+    intents: record.paymentIntents.map((intent) => ({
+      coin: intent.selectedCoin,
+      chain: intent.selectedChain,
+      status: intent.status,
+      txId: intent.txId,
+    })),
+  };
+}
+
+/**
+ * Intents flattened into one cell for tabular formats: COIN/CHAIN/STATUS/txId; ...
+ */
+function formatIntents(intents: ExportIntent[]): string {
+  return intents
+    .map((intent) => [intent.coin, intent.chain, intent.status, intent.txId].filter(Boolean).join('/'))
+    .join('; ');
+}
+
+function tabularValues(row: ExportRow): (string | number)[] {
+  return COLUMNS.map((column) => {
+    const value = row[column];
+    if (column === 'intents') return formatIntents(row.intents);
+    return value === null ? '' : (value as string | number);
+  });
+}
+
+/**
+ * Quote a CSV field; text starting with a formula character is prefixed so spreadsheets
+ * do not evaluate buyer-supplied descriptions
+ */
+function csvField(value: string | number): string {
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+async function write(output: Writable, chunk: string): Promise<void> {
+  if (!output.write(chunk)) {
+    await Promise.race([once(output, 'drain'), once(output, 'close')]);
+  }
+}
+
+/**
+ * Batches of export rows, walking the list order with a cursor
+ */
+async function* exportBatches(
+  merchantId: string,
+  filters: PaymentRequestFilters,
+  timezone: string
+): AsyncGenerator<ExportRow[]> {
+  let cursor: string | undefined;
+
+  for (;;) {
+    const records = await prisma.paymentRequest.findMany({
+      where: buildPaymentRequestWhere(merchantId, filters),
+      orderBy: buildPaymentRequestOrderBy(filters),
+      select: exportSelect,
+      take: EXPORT_BATCH_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+
+    if (records.length === 0) {
+      return;
+    }
+
+    yield records.map((record) => toExportRow(record, timezone));
+
+    if (records.length < EXPORT_BATCH_SIZE) {
+      return;
+    }
+    cursor = records[records.length - 1].id;
+  }
+}
+
+/**
+ * Stream a merchant's payment requests matching the list filters to output in the chosen format
+ * Dates are rendered in the merchant's timezone. Stops early if output is closed (client went away)
+ */
+export async function exportPaymentRequests(input: ExportPaymentRequestsInput): Promise<number> {
+  const { merchantId, filters, format, output } = input;
+  const timezone = DateTime.local().setZone(input.timezone).isValid ? input.timezone : 'UTC';
+  let count = 0;
+
+  if (format === 'xlsx') {
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+      stream: output,
+      useStyles: false,
+      useSharedStrings: false,
+    });
+    const sheet = workbook.addWorksheet('Payment requests');
+    sheet.addRow(COLUMNS).commit();
+
+    for await (const rows of exportBatches(merchantId, filters, timezone)) {
+      if (output.destroyed) break;
+      for (const row of rows) {
+        sheet.addRow(tabularValues(row)).commit();
+      }
+      count += rows.length;
+    }
+
+    sheet.commit();
+    await workbook.commit();
+    return count;
+  }
+
+  if (format === 'csv') {
+    await write(output, `${COLUMNS.join(',')}\r\n`);
+  }
+
+  for await (const rows of exportBatches(merchantId, filters, timezone)) {
+    if (output.destroyed) break;
+
+    const chunk =
+      format === 'csv'
+        ? rows.map((row) => `${tabularValues(row).map(csvField).join(',')}\r\n`).join('')
+        : rows.map((row) => `${JSON.stringify(row)}\n`).join('');
+
+    await write(output, chunk);
+    count += rows.length;
+  }
+
+  output.end();
+  return count;
+}
@@ -0,0 +1,69 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../infrastructure/database/client';
+import { validateAddress } from '../../domain/utils/addresses';
+
+interface FindPaymentIntentByReferenceInput {
+  network: string;
+  memo?: string;
+  address?: string;
+  // Restricts the match to one merchant's intents (merchant API)
+  merchantId?: string;
+}
+
+const intentReferenceSelect = {
+  id: true,
+  merchantId: true,
+  selectedChain: true,
+  selectedCoin: true,
+  amountCrypto: true,
+  amountReceived: true,
+  targetAddress: true,
+  targetMemo: true,
+  derivationIndex: true,
+  status: true,
+  settlementStatus: true,
+  expiresAt: true,
+  createdAt: true,
+  paymentRequest: {
+    select: { id: true, linkId: true, externalReference: true },
+  },
+} satisfies Prisma.PaymentIntentSelect;
+
+export type PaymentIntentReferenceMatch = Prisma.PaymentIntentGetPayload<{ select: typeof intentReferenceSelect }>;
+
+/**
+ * Find the single payment intent an incoming transaction belongs to
+ * A reference (targetMemo) is unique per network. An address alone only identifies an intent
+ * when it was derived for it - a shared wallet address could belong to any of its payments
+ */
+export async function findPaymentIntentByReference(
+  input: FindPaymentIntentByReferenceInput
+): Promise<PaymentIntentReferenceMatch | null> {
+  const network = input.network.toUpperCase();
+
+  // Compare in the canonical form addresses are stored in (e.g. EIP-55 checksum case)
+  let address = input.address;
+  if (address) {
+    const result = validateAddress(network, address);
+    if (!result.valid) return null;
+    address = result.address;
+  }
+
+  const intent = input.memo
+    ? await prisma.paymentIntent.findUnique({
+        where: { selectedChain_targetMemo: { selectedChain: network, targetMemo: input.memo } },
+        select: intentReferenceSelect,
+      })
+    : await prisma.paymentIntent.findFirst({
+        where: { selectedChain: network, targetAddress: address, derivationIndex: { not: null } },
+        select: intentReferenceSelect,
+        // Addresses of intents that expired unpaid are reused; the newest intent owns the address
+        orderBy: { createdAt: 'desc' },
+      });
+
+  if (!intent) return null;
+  if (input.memo && address && intent.targetAddress !== address) return null;
+  if (input.merchantId && intent.merchantId !== input.merchantId) return null;
+
+  return intent;
+}
@@ -0,0 +1,122 @@
+import { PaymentStatus, Prisma, SettlementStatus } from '@prisma/client';
+import { prisma } from '../../infrastructure/database/client';
+
+export interface PaymentRequestFilters {
+  status?: PaymentStatus[];
+  settlementStatus?: SettlementStatus[];
+  createdBy?: 'merchant' | 'buyer';
+  from?: Date;
+  to?: Date;
+  minAmount?: number;
+  maxAmount?: number;
+  description?: string;
+  externalReference?: string;
+  sortBy: 'createdAt' | 'expiresAt' | 'amountFiat';
+  sortOrder: 'asc' | 'desc';
+}
+
+interface ListPaymentRequestsInput {
+  merchantId: string;
+  filters: PaymentRequestFilters;
+  cursor?: string;
+  limit: number;
+}
+
+const listSelect = {
+  id: true,
+  linkId: true,
+  orderDate: true,
+  orderNumber: true,
+  amountFiat: true,
+  currencyFiat: true,
+  description: true,
+  status: true,
+  createdBy: true,
+  settlementStatus: true,
+  expiresAt: true,
+  redirectUrl: true,
+  externalReference: true,
+  createdAt: true,
+} satisfies Prisma.PaymentRequestSelect;
+
+type ListedPaymentRequest = Prisma.PaymentRequestGetPayload<{ select: typeof listSelect }>;
+
+interface ListPaymentRequestsOutput {
+  items: ListedPaymentRequest[];
+  nextCursor: string | null;
+}
+
+/**
+ * Where clause for a merchant's payment requests matching the list/export filters
+ */
+export function buildPaymentRequestWhere(
+  merchantId: string,
+  filters: PaymentRequestFilters
+): Prisma.PaymentRequestWhereInput {
+  const where: Prisma.PaymentRequestWhereInput = { merchantId };
+
+  if (filters.status?.length) {
+    where.status = { in: filters.status };
+  }
+
+  if (filters.settlementStatus?.length) {
+    where.settlementStatus = { in: filters.settlementStatus };
+  }
+
+  if (filters.createdBy) {
+    where.createdBy = filters.createdBy;
+  }
+
+  if (filters.from || filters.to) {
+    where.createdAt = { gte: filters.from, lt: filters.to };
+  }
+
+  if (filters.minAmount !== undefined || filters.maxAmount !== undefined) {
+    where.amountFiat = { gte: filters.minAmount, lte: filters.maxAmount };
+  }
+
+  if (filters.description) {
+    where.description = { contains: filters.description, mode: 'insensitive' };
+  }
+
+  if (filters.externalReference) {
+    where.externalReference = filters.externalReference;
+  }
+
+  return where;
+}
+
+/**
+ * Sort order for the list/export; id breaks ties so cursors are stable
+ */
+export function buildPaymentRequestOrderBy(
+  filters: PaymentRequestFilters
+): Prisma.PaymentRequestOrderByWithRelationInput[] {
+  return [{ [filters.sortBy]: filters.sortOrder }, { id: filters.sortOrder }];
+}
+
+/**
+ * One page of a merchant's payment requests
+ * nextCursor is the id to pass as cursor for the following page, or null on the last page
+ */
+export async function listPaymentRequests(
+  input: ListPaymentRequestsInput
+): Promise<ListPaymentRequestsOutput> {
+  const { merchantId, filters, cursor, limit } = input;
+
+  const rows = await prisma.paymentRequest.findMany({
+    where: buildPaymentRequestWhere(merchantId, filters),
+    orderBy: buildPaymentRequestOrderBy(filters),
+    select: listSelect,
+    take: limit + 1,
+    ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+  });
+
+  const hasMore = rows.length > limit;
+  const items = hasMore ? rows.slice(0, limit) : rows;
+
+  return {
+    items,
+    nextCursor: hasMore ? items[items.length - 1].id : null,
+  };
+}
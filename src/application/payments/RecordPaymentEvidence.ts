@@ -0,0 +1,350 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../infrastructure/database/client';
+import { publishDomainEvents } from '../../infrastructure/events/outboxPublisher';
+import {
+  DomainEvent,
+  PaymentOverpaid,
+  PaymentReceived,
+  PaymentReceivedLate,
+  PaymentSettled,
+  PaymentSettlementStatusChanged,
+  PaymentUnderpaid,
+  PaymentWithinTolerance,
+} from '../../domain/events/DomainEvent';
+import {
+  AmountOutcome,
+  canAdvanceRequestStatus,
+  classifyReceivedAmount,
+  getRequiredConfirmations,
+} from '../../domain/utils/settlement';
+import { ConflictError, NotFoundError } from '../../common/errors/AppError';
+import { PaymentRequest, SettlementStatus as DomainSettlementStatus } from '../../domain/entities/PaymentRequest';
+
+interface RecordPaymentEvidenceInput {
+  pluginId: string;
+  intentId: string;
+  txId: string;
+  amountReceived: string;
+  blockRef?: Record<string, unknown>;
+  confirmations: number;
+}
+
+interface RecordPaymentEvidenceOutput {
+  intentId: string;
+  status: string;
+  settlementStatus: string;
+  confirmations: number;
+  requiredConfs: number;
+  amountReceived: string;
+  outcome: AmountOutcome | null;
+  surplusAmount: string | null;
+  shortfallAmount: string | null;
+}
+
+// Intent states that still accept evidence; an EXPIRED intent takes it as a late payment
+const OPEN_INTENT_STATUSES = ['PENDING', 'PROCESSING', 'PARTIALLY_PAID', 'EXPIRED'];
+
+/**
+ * Record on-chain evidence reported by a chain plugin for a payment intent
+ *
+ * Each transaction is tracked separately so a buyer can top up an underpaid intent.
+ * First evidence moves the intent and its payment request to PROCESSING. Once every
+ * transaction has requiredConfs, the total received is compared with the quote using the
+ * merchant's settleTolerancePct:
+ * - within tolerance: the intent completes and is auto-settled
+ * - overpaid: the intent completes and is auto-settled, with the surplus recorded
+ * - underpaid: the intent goes to PARTIALLY_PAID and accepts top-ups until it expires; if the
+ *   merchant disabled top-ups or the intent already expired, it completes at PAID for the
+ *   merchant to decide
+ * Funds first seen after the quote expired are still recorded, so they can be settled or
+ * refunded, but as a late payment: the rate may have moved, so the intent completes at PAID
+ * for the merchant to review instead of auto-settling.
+ * The payment request's status only advances through EVIDENCE_REQUEST_STATUS_TRANSITIONS.
+ */
+export async function recordPaymentEvidence(
+  input: RecordPaymentEvidenceInput
+): Promise<RecordPaymentEvidenceOutput> {
+  const { pluginId, intentId, txId, confirmations } = input;
+  const amount = new Prisma.Decimal(input.amountReceived);
+
+  return prisma.$transaction(async (tx) => {
+    // Serialize concurrent reports for the same intent
+    await tx.$queryRaw`SELECT id FROM payments.payment_intents WHERE id = ${intentId}::uuid FOR UPDATE`;
+
+    const intent = await tx.paymentIntent.findUnique({
+      where: { id: intentId },
+      select: {
+        id: true,
+        paymentRequestId: true,
+        merchantId: true,
+        selectedChain: true,
+        selectedCoin: true,
+        amountCrypto: true,
+        amountReceived: true,
+        amountOutcome: true,
+        surplusAmount: true,
+        shortfallAmount: true,
+        requiredConfs: true,
+        status: true,
+        settlementStatus: true,
+        txId: true,
+        expiresAt: true,
+        transactions: {
+          select: { txId: true, amount: true, confirmations: true, createdAt: true },
+          orderBy: { createdAt: 'asc' },
+        },
+        paymentRequest: {
+          select: { status: true, settlementStatus: true },
+        },
+        merchant: {
+          select: { settleTolerancePct: true, allowUnderpaymentTopUp: true },
+        },
+      },
+    });
+
+    if (!intent) {
+      throw new NotFoundError('Payment intent not found');
+    }
+
+    const requiredConfs = intent.requiredConfs ?? getRequiredConfirmations(intent.selectedChain);
+    const known = intent.transactions.find((t) => t.txId === txId);
+    const now = new Date();
+
+    // Repeated reports for a completed intent are acknowledged without changes
+    if (intent.status === 'COMPLETED') {
+      if (!known && intent.txId !== txId) {
+        throw new ConflictError('Payment intent already has evidence for a different transaction');
+      }
+      return {
+        intentId,
+        status: intent.status,
+        settlementStatus: intent.settlementStatus,
+        confirmations,
+        requiredConfs,
+        amountReceived: (intent.amountReceived ?? amount).toString(),
+        outcome: intent.amountOutcome,
+        surplusAmount: intent.surplusAmount?.toString() ?? null,
+        shortfallAmount: intent.shortfallAmount?.toString() ?? null,
+      };
+    }
+
+    if (!OPEN_INTENT_STATUSES.includes(intent.status)) {
+      throw new ConflictError(`Payment intent is ${intent.status.toLowerCase()}`);
+    }
+
+    if (!known) {
+      const [recorded, legacy] = await Promise.all([
+        tx.paymentIntentTransaction.findUnique({ where: { txId }, select: { id: true } }),
+        tx.paymentIntent.findFirst({ where: { txId, id: { not: intentId } }, select: { id: true } }),
+      ]);
+
+      if (recorded || legacy) {
+        throw new ConflictError('Transaction is already recorded against another payment intent');
+      }
+    }
+
+    const blockRef = input.blockRef ? (input.blockRef as Prisma.InputJsonObject) : undefined;
+
+    await tx.paymentIntentTransaction.upsert({
+      where: { txId },
+      create: { intentId, pluginId, txId, amount, confirmations, blockRef },
+      update: { amount, confirmations, blockRef },
+    });
+
+    const transactions = [
+      ...intent.transactions.filter((t) => t.txId !== txId),
+      { txId, amount, confirmations, createdAt: known?.createdAt ?? now },
+    ];
+    const late = transactions.some((t) => t.createdAt > intent.expiresAt);
+    const totalReceived = transactions.reduce((sum, t) => sum.plus(t.amount), new Prisma.Decimal(0));
+    const confirmed = transactions.every((t) => t.confirmations >= requiredConfs);
+    const outcome = confirmed
+      ? classifyReceivedAmount(intent.amountCrypto, totalReceived, intent.merchant.settleTolerancePct)
+      : null;
+
+    const topUpOpen = intent.merchant.allowUnderpaymentTopUp && intent.expiresAt > now;
+    const partial = outcome === 'UNDERPAID' && topUpOpen;
+    const settled = !late && (outcome === 'WITHIN_TOLERANCE' || outcome === 'OVERPAID');
+
+    const intentStatus = !confirmed ? 'PROCESSING' : partial ? 'PARTIALLY_PAID' : 'COMPLETED';
+    const intentSettlementStatus = settled ? 'SETTLED' : confirmed && !partial ? 'PAID' : intent.settlementStatus;
+
+    const surplusAmount = outcome === 'OVERPAID' ? totalReceived.minus(intent.amountCrypto) : null;
+    const shortfallAmount = outcome === 'UNDERPAID' ? intent.amountCrypto.minus(totalReceived) : null;
+
+    await tx.paymentIntent.update({
+      where: { id: intentId },
+      data: {
+        status: intentStatus,
+        settlementStatus: intentSettlementStatus,
+        txId: intent.txId ?? txId,
+        amountReceived: totalReceived,
+        ...(confirmed && { amountOutcome: outcome, surplusAmount, shortfallAmount }),
+        blockRef,
+        requiredConfs,
+        evidenceReceivedAt: now,
+        settledAt: settled ? now : undefined,
+      },
+    });
+
+    // Evidence never overrides a settlement decision the transition table does not allow from here
+    const previousSettlementStatus = intent.paymentRequest.settlementStatus;
+    const targetSettlementStatus = settled ? 'SETTLED' : confirmed && !partial ? 'PAID' : previousSettlementStatus;
+    const requestSettlementStatus = PaymentRequest.canTransitionSettlement(
+      previousSettlementStatus as DomainSettlementStatus,
+      targetSettlementStatus as DomainSettlementStatus,
+    )
+      ? targetSettlementStatus
+      : previousSettlementStatus;
+
+    // Nor does it reopen a request that already completed, expired or was cancelled
+    const previousRequestStatus = intent.paymentRequest.status;
+    const requestStatus = canAdvanceRequestStatus(previousRequestStatus, intentStatus)
+      ? intentStatus
+      : previousRequestStatus;
+
+    await tx.paymentRequest.update({
+      where: { id: intent.paymentRequestId },
+      data: {
+        status: requestStatus,
+        settlementStatus: requestSettlementStatus,
+      },
+    });
+
+    if (confirmed) {
+      // The buyer paid through this intent - other open quotes are void
+      await tx.paymentIntent.updateMany({
+        where: {
+          paymentRequestId: intent.paymentRequestId,
+          id: { not: intentId },
+          status: 'PENDING',
+        },
+        data: { status: 'CANCELLED' },
+      });
+    }
+
+    const events: DomainEvent[] = [];
+    const settledBy = `plugin:${pluginId}`;
+    const expected = intent.amountCrypto.toString();
+    const received = totalReceived.toString();
+
+    if (!known) {
+      events.push(new PaymentReceived(intent.paymentRequestId, intent.merchantId, txId, amount.toNumber()));
+
+      if (now > intent.expiresAt) {
+        events.push(
+          new PaymentReceivedLate(
+            intent.paymentRequestId,
+            intent.merchantId,
+            intentId,
+            txId,
+            amount.toString(),
+            intent.expiresAt,
+          )
+        );
+      }
+    }
+
+    // Outcome events fire once per state change, not on every confirmation report
+    if (outcome && (intentStatus !== intent.status || outcome !== intent.amountOutcome)) {
+      if (outcome === 'WITHIN_TOLERANCE') {
+        events.push(
+          new PaymentWithinTolerance(
+            intent.paymentRequestId,
+            intent.merchantId,
+            intentId,
+            intent.selectedCoin,
+            expected,
+            received,
+          )
+        );
+      } else if (outcome === 'OVERPAID') {
+        events.push(
+          new PaymentOverpaid(
+            intent.paymentRequestId,
+            intent.merchantId,
+            intentId,
+            intent.selectedCoin,
+            expected,
+            received,
+            surplusAmount!.toString(),
+          )
+        );
+      } else {
+        events.push(
+          new PaymentUnderpaid(
+            intent.paymentRequestId,
+            intent.merchantId,
+            intentId,
+            intent.selectedCoin,
+            expected,
+            received,
+            shortfallAmount!.toString(),
+            partial ? intent.expiresAt : null,
+          )
+        );
+      }
+    }
+
+    if (requestSettlementStatus !== previousSettlementStatus) {
+      await tx.settlementTransition.create({
+        data: {
+          paymentRequestId: intent.paymentRequestId,
+          fromStatus: previousSettlementStatus,
+          toStatus: requestSettlementStatus,
+          actor: settledBy,
+          reason: late
+            ? 'Late on-chain payment confirmed after the quote expired, awaiting merchant review'
+            : `On-chain payment confirmed (${outcome?.toLowerCase().replace(/_/g, ' ')})`,
+        },
+      });
+
+      events.push(
+        new PaymentSettlementStatusChanged(
+          intent.paymentRequestId,
+          intent.merchantId,
+          previousSettlementStatus,
+          requestSettlementStatus,
+          settledBy,
+        )
+      );
+    }
+
+    if (requestSettlementStatus === 'SETTLED' && previousSettlementStatus !== 'SETTLED') {
+      events.push(new PaymentSettled(intent.paymentRequestId, intent.merchantId, settledBy));
+    }
+
+    await tx.auditLog.create({
+      data: {
+        merchantId: intent.merchantId,
+        action: 'PAYMENT_EVIDENCE_RECORDED',
+        resourceId: intentId,
+        payload: {
+          pluginId,
+          txId,
+          amount: amount.toString(),
+          totalReceived: received,
+          confirmations,
+          requiredConfs,
+          outcome,
+          settled,
+          late,
+        },
+      },
+    });
+
+    await publishDomainEvents(tx, events);
+
+    return {
+      intentId,
+      status: intentStatus,
+      settlementStatus: intentSettlementStatus,
+      confirmations,
+      requiredConfs,
+      amountReceived: received,
+      outcome,
+      surplusAmount: surplusAmount?.toString() ?? null,
+      shortfallAmount: shortfallAmount?.toString() ?? null,
+    };
+  });
+}
@@ -0,0 +1,93 @@
+import { SettlementStatus } from '@prisma/client';
+import { prisma } from '../../infrastructure/database/client';
+import { DomainEvent, PaymentSettled, PaymentSettlementStatusChanged } from '../../domain/events/DomainEvent';
+import { publishDomainEvents } from '../../infrastructure/events/outboxPublisher';
+import { NotFoundError } from '../../common/errors/AppError';
+import { PaymentRequest, SettlementStatus as DomainSettlementStatus } from '../../domain/entities/PaymentRequest';
+
+interface UpdateSettlementStatusInput {
+  paymentRequestId: string;
+  settlementStatus: SettlementStatus;
+  changedBy: 'merchant' | 'buyer';
+  reason?: string;
+}
+
+interface UpdateSettlementStatusOutput {
+  id: string;
+  linkId: string;
+  status: string;
+  settlementStatus: SettlementStatus;
+}
+
+/**
+ * Change a payment request's settlement status and record the matching
+ * domain events in the outbox within the same transaction
+ * Transitions outside PaymentRequest's transition table fail with a ConflictError;
+ * every accepted transition is kept in the settlement history
+ */
+export async function updateSettlementStatus(
+  input: UpdateSettlementStatusInput
+): Promise<UpdateSettlementStatusOutput> {
+  const { paymentRequestId, settlementStatus, changedBy, reason } = input;
+
+  return prisma.$transaction(async (tx) => {
+    // Serialize concurrent changes so each one is checked against the latest status
+    await tx.$queryRaw`SELECT id FROM payments.payment_requests WHERE id = ${paymentRequestId}::uuid FOR UPDATE`;
+
+    const current = await tx.paymentRequest.findUnique({
+      where: { id: paymentRequestId },
+      select: {
+        merchantId: true,
+        settlementStatus: true,
+      },
+    });
+
+    if (!current) {
+      throw new NotFoundError('Payment request not found');
+    }
+
+    PaymentRequest.assertSettlementTransition(
+      current.settlementStatus as DomainSettlementStatus,
+      settlementStatus as DomainSettlementStatus,
+    );
+
+    const updated = await tx.paymentRequest.update({
+      where: { id: paymentRequestId },
+      data: { settlementStatus },
+      select: {
+        id: true,
+        linkId: true,
+        status: true,
+        settlementStatus: true,
+      },
+    });
+
+    await tx.settlementTransition.create({
+      data: {
+        paymentRequestId,
+        fromStatus: current.settlementStatus,
+        toStatus: settlementStatus,
+        actor: changedBy,
+        reason,
+      },
+    });
+
+    const events: DomainEvent[] = [
+      new PaymentSettlementStatusChanged(
+        paymentRequestId,
+        current.merchantId,
+        current.settlementStatus,
+        settlementStatus,
+        changedBy,
+      ),
+    ];
+
+    if (settlementStatus === 'SETTLED') {
+      events.push(new PaymentSettled(paymentRequestId, current.merchantId, changedBy));
+    }
+
+    await publishDomainEvents(tx, events);
+
+    return updated;
+  });
+}
@@ -0,0 +1,194 @@
+import { Prisma, SettlementStatus } from '@prisma/client';
+import { prisma } from '../../infrastructure/database/client';
+import { RefundRequested } from '../../domain/events/DomainEvent';
+import { publishDomainEvents } from '../../infrastructure/events/outboxPublisher';
+import { normalizeAddressFields } from '../../domain/utils/addresses';
+import { ConflictError, NotFoundError } from '../../common/errors/AppError';
+
+interface RequestRefundInput {
+  merchantId: string;
+  paymentRequestId: string;
+  // Defaults to the request's most recent intent that received funds
+  paymentIntentId?: string;
+  // At most one of the two; neither refunds everything not yet refunded
+  amountFiat?: number;
+  amountCrypto?: string;
+  destinationAddress: string;
+  reason?: string;
+}
+
+export const refundSelect = {
+  id: true,
+  paymentRequestId: true,
+  paymentIntentId: true,
+  amountFiat: true,
+  currencyFiat: true,
+  amountCrypto: true,
+  coin: true,
+  network: true,
+  destinationAddress: true,
+  status: true,
+  reason: true,
+  txId: true,
+  approvedAt: true,
+  sentAt: true,
+  confirmedAt: true,
+  canceledAt: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.RefundSelect;
+
+export type RefundView = Prisma.RefundGetPayload<{ select: typeof refundSelect }>;
+
+// Only requests whose funds actually arrived can be refunded
+const REFUNDABLE_SETTLEMENT_STATUSES: SettlementStatus[] = ['PAID', 'SETTLED'];
+
+/**
+ * Open a refund against a paid payment request
+ * Amounts convert at the intent's locked quote rate. Refunds that are not canceled
+ * may together return at most what the intent received
+ */
+export async function requestRefund(input: RequestRefundInput): Promise<RefundView> {
+  return prisma.$transaction(async (tx) => {
+    const paymentRequest = await tx.paymentRequest.findFirst({
+      where: { id: input.paymentRequestId, merchantId: input.merchantId },
+      select: { id: true, settlementStatus: true, currencyFiat: true },
+    });
+
+    if (!paymentRequest) {
+      throw new NotFoundError('Payment request not found');
+    }
+
+    if (!REFUNDABLE_SETTLEMENT_STATUSES.includes(paymentRequest.settlementStatus)) {
+      throw new ConflictError(
+        `Only paid or settled payment requests can be refunded (this one is ${paymentRequest.settlementStatus})`,
+        'NOT_REFUNDABLE'
+      );
+    }
+
+    const paidIntent = await tx.paymentIntent.findFirst({
+      where: {
+        paymentRequestId: paymentRequest.id,
+        ...(input.paymentIntentId && { id: input.paymentIntentId }),
+        amountReceived: { gt: 0 },
+      },
+      select: { id: true },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (!paidIntent) {
+      throw new NotFoundError(
+        input.paymentIntentId ? 'Payment intent not found or received no funds' : 'No funds were received for this payment request'
+      );
+    }
+
+    // Serialize refunds of one intent so their total is checked against the latest refunds
+    await tx.$queryRaw`SELECT id FROM payments.payment_intents WHERE id = ${paidIntent.id}::uuid FOR UPDATE`;
+
+    const intent = await tx.paymentIntent.findUniqueOrThrow({
+      where: { id: paidIntent.id },
+      select: {
+        id: true,
+        selectedChain: true,
+        selectedCoin: true,
+        amountReceived: true,
+        quoteRate: true,
+        quoteCurrency: true,
+        wallet: { select: { tokenDecimals: true } },
+      },
+    });
+
+    if (!intent.quoteRate) {
+      throw new ConflictError('Payment intent has no locked quote rate to convert the refund at');
+    }
+
+    const destinationAddress = normalizeAddressFields(intent.selectedChain, {
+      destinationAddress: input.destinationAddress,
+    }).destinationAddress!;
+
+    const refunded = await tx.refund.aggregate({
+      where: { paymentIntentId: intent.id, status: { not: 'CANCELED' } },
+      _sum: { amountCrypto: true },
+    });
+
+    const refundable = intent.amountReceived!.minus(refunded._sum.amountCrypto ?? 0);
+
+    if (refundable.lte(0)) {
+      throw new ConflictError('This payment has already been fully refunded', 'REFUND_EXCEEDS_PAYMENT');
+    }
+
+    // Round down so a fiat-denominated refund never returns more than the buyer paid for it
+    const decimals = Math.min(intent.wallet?.tokenDecimals ?? 18, 18);
+    const amountCrypto = input.amountCrypto
+      ? new Prisma.Decimal(input.amountCrypto)
+      : input.amountFiat !== undefined
+        ? new Prisma.Decimal(input.amountFiat).div(intent.quoteRate).toDecimalPlaces(decimals, Prisma.Decimal.ROUND_DOWN)
+        : refundable;
+
+    if (amountCrypto.lte(0)) {
+      throw new ConflictError('Refund amount rounds to zero', 'REFUND_TOO_SMALL');
+    }
+
+    if (amountCrypto.gt(refundable)) {
+      throw new ConflictError(
+        `Refund exceeds the refundable ${refundable.toString()} ${intent.selectedCoin}`,
+        'REFUND_EXCEEDS_PAYMENT',
+        { refundable: refundable.toString() }
+      );
+    }
+
+    const amountFiat =
+      input.amountFiat !== undefined
+        ? new Prisma.Decimal(input.amountFiat)
+        : amountCrypto.mul(intent.quoteRate).toDecimalPlaces(2, Prisma.Decimal.ROUND_DOWN);
+    const currencyFiat = intent.quoteCurrency ?? paymentRequest.currencyFiat;
+
+    const refund = await tx.refund.create({
+      data: {
+        paymentRequestId: paymentRequest.id,
+        paymentIntentId: intent.id,
+        merchantId: input.merchantId,
+        amountFiat,
+        currencyFiat,
+        amountCrypto,
+        coin: intent.selectedCoin,
+        network: intent.selectedChain,
+        destinationAddress,
+        reason: input.reason,
+      },
+      select: refundSelect,
+    });
+
+    await tx.auditLog.create({
+      data: {
+        merchantId: input.merchantId,
+        action: 'REFUND_REQUESTED',
+        resourceId: refund.id,
+        payload: {
+          paymentRequestId: paymentRequest.id,
+          paymentIntentId: intent.id,
+          amountCrypto: amountCrypto.toString(),
+          amountFiat: amountFiat.toString(),
+          currency: currencyFiat,
+          destinationAddress,
+        },
+      },
+    });
+
+    await publishDomainEvents(tx, [
+      new RefundRequested(
+        refund.id,
+        paymentRequest.id,
+        intent.id,
+        input.merchantId,
+        intent.selectedCoin,
+        intent.selectedChain,
+        amountCrypto.toString(),
+        amountFiat.toString(),
+        currencyFiat,
+      ),
+    ]);
+
+    return refund;
+  });
+}
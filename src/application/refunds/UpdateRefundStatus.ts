@@ -0,0 +1,74 @@
+import { RefundStatus } from '@prisma/client';
+import { prisma } from '../../infrastructure/database/client';
+import { RefundStatusChanged } from '../../domain/events/DomainEvent';
+import { publishDomainEvents } from '../../infrastructure/events/outboxPublisher';
+import { assertRefundTransition, REFUND_STATUS_TIMESTAMPS } from '../../domain/utils/refunds';
+import { NotFoundError, ValidationError } from '../../common/errors/AppError';
+import { refundSelect, RefundView } from './RequestRefund';
+
+interface UpdateRefundStatusInput {
+  merchantId: string;
+  refundId: string;
+  status: Exclude<RefundStatus, 'REQUESTED'>;
+  // Transaction that sent the refund; required to mark it SENT
+  txId?: string;
+  reason?: string;
+}
+
+/**
+ * Move a refund through requested -> approved -> sent -> confirmed (or cancel it before it is sent)
+ * Each change is audited and published as a RefundStatusChanged event in the same transaction
+ */
+export async function updateRefundStatus(input: UpdateRefundStatusInput): Promise<RefundView> {
+  const { merchantId, refundId, status, reason } = input;
+
+  return prisma.$transaction(async (tx) => {
+    // Serialize concurrent changes so each one is checked against the latest status
+    await tx.$queryRaw`SELECT id FROM payments.refunds WHERE id = ${refundId}::uuid FOR UPDATE`;
+
+    const current = await tx.refund.findFirst({
+      where: { id: refundId, merchantId },
+      select: { status: true, txId: true, paymentRequestId: true },
+    });
+
+    if (!current) {
+      throw new NotFoundError('Refund not found');
+    }
+
+    assertRefundTransition(current.status, status);
+
+    const txId = input.txId ?? current.txId;
+
+    if (status === 'SENT' && !txId) {
+      throw new ValidationError('Validation failed', [
+        { field: 'txId', message: 'txId of the refund transaction is required to mark it sent', type: 'any.required' },
+      ]);
+    }
+
+    const refund = await tx.refund.update({
+      where: { id: refundId },
+      data: {
+        status,
+        [REFUND_STATUS_TIMESTAMPS[status]]: new Date(),
+        ...(input.txId && { txId: input.txId }),
+        ...(reason && { reason }),
+      },
+      select: refundSelect,
+    });
+
+    await tx.auditLog.create({
+      data: {
+        merchantId,
+        action: `REFUND_${status}`,
+        resourceId: refundId,
+        payload: { fromStatus: current.status, toStatus: status, txId, reason },
+      },
+    });
+
+    await publishDomainEvents(tx, [
+      new RefundStatusChanged(refundId, current.paymentRequestId, merchantId, current.status, status, txId),
+    ]);
+
+    return refund;
+  });
+}
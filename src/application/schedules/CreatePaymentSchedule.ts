@@ -0,0 +1,135 @@
+import { Prisma, ScheduleCadence } from '@prisma/client';
+import { prisma } from '../../infrastructure/database/client';
+import { config } from '../../config';
+import { cronExpressionProblem, cronIntervalProblem, nextScheduleRunAt } from '../../domain/utils/schedules';
+import { NotFoundError, ValidationError } from '../../common/errors/AppError';
+
+interface CreatePaymentScheduleInput {
+  merchantId: string;
+  amountFiat: number;
+  // Defaults to the merchant's default currency
+  currency?: string;
+  description?: string | null;
+  cadence: ScheduleCadence;
+  cronExpression?: string;
+  // First run; defaults to now
+  startAt?: Date;
+  dueDays?: number;
+  buyerEmail?: string | null;
+  pauseAfterMissed?: number;
+}
+
+export const paymentScheduleSelect = {
+  id: true,
+  amountFiat: true,
+  currencyFiat: true,
+  description: true,
+  cadence: true,
+  cronExpression: true,
+  startAt: true,
+  nextRunAt: true,
+  dueDays: true,
+  buyerEmail: true,
+  pauseAfterMissed: true,
+  missedCycles: true,
+  cycleCount: true,
+  status: true,
+  pausedAt: true,
+  pauseReason: true,
+  lastRunAt: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.PaymentScheduleSelect;
+
+export type PaymentScheduleView = Prisma.PaymentScheduleGetPayload<{ select: typeof paymentScheduleSelect }>;
+
+/**
+ * Check a schedule's cron expression in the merchant's timezone, and that it does not run too often
+ */
+function assertValidCronExpression(expression: string, timezone: string): void {
+  const problem = cronExpressionProblem(expression, timezone);
+
+  if (problem) {
+    throw new ValidationError('Validation failed', [
+      { field: 'cronExpression', message: `Invalid cron expression: ${problem}`, type: 'cron.invalid' },
+    ]);
+  }
+
+  const tooFrequent = cronIntervalProblem(expression, timezone);
+
+  if (tooFrequent) {
+    throw new ValidationError('Validation failed', [
+      { field: 'cronExpression', message: `Cron expression ${tooFrequent}`, type: 'cron.tooFrequent' },
+    ]);
+  }
+}
+
+/**
+ * Create a recurring payment schedule for a merchant
+ * Runs are computed in the merchant's timezone; the first one is startAt (or the first cron
+ * time from it), and the payment scheduler creates a payment request for each run
+ */
+export async function createPaymentSchedule(input: CreatePaymentScheduleInput): Promise<PaymentScheduleView> {
+  return prisma.$transaction(async (tx) => {
+    const merchant = await tx.merchant.findUnique({
+      where: { id: input.merchantId },
+      select: { timezone: true, defaultCurrency: true },
+    });
+
+    if (!merchant) {
+      throw new NotFoundError('Merchant not found');
+    }
+
+    const cronExpression = input.cadence === 'CRON' ? input.cronExpression! : null;
+    if (cronExpression) {
+      assertValidCronExpression(cronExpression, merchant.timezone);
+    }
+
+    const startAt = input.startAt ?? new Date();
+    // The run at startAt itself counts, and runs already in the past are skipped
+    const nextRunAt = nextScheduleRunAt(
+      { cadence: input.cadence, cronExpression, startAt, timezone: merchant.timezone },
+      new Date(Math.max(startAt.getTime(), Date.now()) - 1)
+    );
+
+    if (!nextRunAt) {
+      throw new ValidationError('Validation failed', [
+        { field: 'cronExpression', message: 'Cron expression has no future runs', type: 'cron.invalid' },
+      ]);
+    }
+
+    const schedule = await tx.paymentSchedule.create({
+      data: {
+        merchantId: input.merchantId,
+        amountFiat: input.amountFiat,
+        currencyFiat: input.currency ?? merchant.defaultCurrency,
+        description: input.description,
+        cadence: input.cadence,
+        cronExpression,
+        startAt,
+        nextRunAt,
+        dueDays: input.dueDays,
+        buyerEmail: input.buyerEmail,
+        pauseAfterMissed: input.pauseAfterMissed ?? config.paymentScheduler.pauseAfterMissed,
+      },
+      select: paymentScheduleSelect,
+    });
+
+    await tx.auditLog.create({
+      data: {
+        merchantId: input.merchantId,
+        action: 'PAYMENT_SCHEDULE_CREATED',
+        resourceId: schedule.id,
+        payload: {
+          amountFiat: schedule.amountFiat.toString(),
+          currency: schedule.currencyFiat,
+          cadence: schedule.cadence,
+          cronExpression,
+          nextRunAt: nextRunAt.toISOString(),
+        },
+      },
+    });
+
+    return schedule;
+  });
+}
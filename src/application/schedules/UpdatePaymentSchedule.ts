@@ -0,0 +1,83 @@
+import { Prisma, ScheduleStatus } from '@prisma/client';
+import { prisma } from '../../infrastructure/database/client';
+import { nextScheduleRunAt } from '../../domain/utils/schedules';
+import { ConflictError, NotFoundError } from '../../common/errors/AppError';
+import { paymentScheduleSelect, PaymentScheduleView } from './CreatePaymentSchedule';
+
+interface UpdatePaymentScheduleInput {
+  merchantId: string;
+  scheduleId: string;
+  amountFiat?: number;
+  description?: string | null;
+  dueDays?: number;
+  buyerEmail?: string | null;
+  pauseAfterMissed?: number;
+  status?: ScheduleStatus;
+}
+
+/**
+ * Change a payment schedule's terms, or pause, resume or cancel it
+ * New terms apply from the next cycle. Resuming clears the missed-payment count and skips the
+ * runs that fell while the schedule was paused. Canceling is final
+ */
+export async function updatePaymentSchedule(input: UpdatePaymentScheduleInput): Promise<PaymentScheduleView> {
+  const { merchantId, scheduleId, status, ...terms } = input;
+
+  return prisma.$transaction(async (tx) => {
+    // Serialize with the scheduler, which creates cycles under the same lock
+    await tx.$queryRaw`SELECT id FROM payments.payment_schedules WHERE id = ${scheduleId}::uuid FOR UPDATE`;
+
+    const current = await tx.paymentSchedule.findFirst({
+      where: { id: scheduleId, merchantId },
+      include: { merchant: { select: { timezone: true } } },
+    });
+
+    if (!current) {
+      throw new NotFoundError('Payment schedule not found');
+    }
+
+    if (current.status === 'CANCELED') {
+      throw new ConflictError('Canceled payment schedules cannot be changed', 'SCHEDULE_CANCELED');
+    }
+
+    const data: Prisma.PaymentScheduleUpdateInput = { ...terms };
+    const statusChanged = status !== undefined && status !== current.status;
+
+    if (statusChanged && status === 'ACTIVE') {
+      const nextRunAt = nextScheduleRunAt({ ...current, timezone: current.merchant.timezone }, new Date());
+
+      if (!nextRunAt) {
+        throw new ConflictError('This schedule has no runs left to resume', 'SCHEDULE_FINISHED');
+      }
+
+      Object.assign(data, { status, nextRunAt, missedCycles: 0, pausedAt: null, pauseReason: null });
+    } else if (statusChanged && status === 'PAUSED') {
+      Object.assign(data, { status, nextRunAt: null, pausedAt: new Date(), pauseReason: 'Paused by merchant' });
+    } else if (statusChanged && status === 'CANCELED') {
+      Object.assign(data, { status, nextRunAt: null });
+    }
+
+    const schedule = await tx.paymentSchedule.update({
+      where: { id: scheduleId },
+      data,
+      select: paymentScheduleSelect,
+    });
+
+    const action = !statusChanged
+      ? 'PAYMENT_SCHEDULE_UPDATED'
+      : status === 'ACTIVE'
+        ? 'PAYMENT_SCHEDULE_RESUMED'
+        : `PAYMENT_SCHEDULE_${status}`;
+
+    await tx.auditLog.create({
+      data: {
+        merchantId,
+        action,
+        resourceId: scheduleId,
+        payload: { ...terms, fromStatus: current.status, toStatus: schedule.status },
+      },
+    });
+
+    return schedule;
+  });
+}
@@ -0,0 +1,143 @@
+import { Prisma, TokenStatus } from '@prisma/client';
+import { prisma } from '../../infrastructure/database/client';
+import { logger } from '../../common/logger';
+import { PriceAsset } from '../../infrastructure/pricing/PriceProvider';
+
+interface CatalogTokenSeed {
+  network: string;
+  contractAddress: string | null;
+  tokenSymbol: string;
+  tokenName: string;
+  tokenType: string;
+  decimals: number;
+  priceIds: Record<string, string>;
+}
+
+/**
+ * Tokens the gateway supported before the catalog existed; seeded as VERIFIED so existing
+ * wallets keep working
+ */
+export const BUILT_IN_TOKENS: CatalogTokenSeed[] = [
+  { network: 'SOLANA', contractAddress: null, tokenSymbol: 'SOL', tokenName: 'Solana', tokenType: 'NATIVE', decimals: 9, priceIds: { coingecko: 'solana' } },
+  { network: 'SOLANA', contractAddress: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', tokenSymbol: 'USDC', tokenName: 'USD Coin', tokenType: 'SPL', decimals: 6, priceIds: { coingecko: 'usd-coin' } },
+  { network: 'SOLANA', contractAddress: 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB', tokenSymbol: 'USDT', tokenName: 'Tether USD', tokenType: 'SPL', decimals: 6, priceIds: { coingecko: 'tether' } },
+  { network: 'ETHEREUM', contractAddress: null, tokenSymbol: 'ETH', tokenName: 'Ether', tokenType: 'NATIVE', decimals: 18, priceIds: { coingecko: 'ethereum' } },
+  { network: 'ETHEREUM', contractAddress: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', tokenSymbol: 'USDC', tokenName: 'USD Coin', tokenType: 'ERC20', decimals: 6, priceIds: { coingecko: 'usd-coin' } },
+  { network: 'ETHEREUM', contractAddress: '0xdAC17F958D2ee523a2206206994597C13D831ec7', tokenSymbol: 'USDT', tokenName: 'Tether USD', tokenType: 'ERC20', decimals: 6, priceIds: { coingecko: 'tether' } },
+  { network: 'BITCOIN', contractAddress: null, tokenSymbol: 'BTC', tokenName: 'Bitcoin', tokenType: 'NATIVE', decimals: 8, priceIds: { coingecko: 'bitcoin' } },
+];
+
+export const catalogTokenSelect = {
+  id: true,
+  network: true,
+  contractAddress: true,
+  tokenSymbol: true,
+  tokenName: true,
+  tokenType: true,
+  decimals: true,
+  priceIds: true,
+  status: true,
+  requestNote: true,
+  reviewNote: true,
+  reviewedAt: true,
+  createdAt: true,
+} satisfies Prisma.TokenSelect;
+
+/**
+ * Catalog entry for a network's token: by contract address, or the native coin by symbol
+ */
+export async function findCatalogToken(
+  network: string,
+  tokenSymbol: string,
+  contractAddress?: string | null
+) {
+  return prisma.token.findFirst({
+    where: contractAddress
+      ? { network: network.toUpperCase(), contractAddress }
+      : { network: network.toUpperCase(), contractAddress: null, tokenSymbol: tokenSymbol.toUpperCase() },
+    select: catalogTokenSelect,
+  });
+}
+
+/**
+ * Why a wallet cannot be created for this catalog token, or null when it can
+ */
+export function catalogTokenProblem(
+  token: { status: TokenStatus } | null,
+  network: string,
+  tokenSymbol: string
+): string | null {
+  if (!token) {
+    return `${tokenSymbol.toUpperCase()} on ${network.toUpperCase()} is not in the token catalog. Request it with POST /tokens/requests`;
+  }
+  if (token.status === 'PENDING') {
+    return `${tokenSymbol.toUpperCase()} on ${network.toUpperCase()} is awaiting catalog review`;
+  }
+  if (token.status === 'REJECTED') {
+    return `${tokenSymbol.toUpperCase()} on ${network.toUpperCase()} was rejected from the token catalog`;
+  }
+  return null;
+}
+
+/**
+ * Price lookup for a wallet's token, using the catalog's provider ids when linked
+ */
+export function toPriceAsset(wallet: {
+  tokenSymbol: string;
+  token?: { priceIds: Prisma.JsonValue } | null;
+}): PriceAsset {
+  const priceIds = wallet.token?.priceIds;
+  return {
+    symbol: wallet.tokenSymbol,
+    ...(priceIds && typeof priceIds === 'object' && !Array.isArray(priceIds) && {
+      priceIds: priceIds as Record<string, string>,
+    }),
+  };
+}
+
+/**
+ * Insert any missing built-in tokens and link existing wallets for them to the catalog
+ * Safe to run on every start
+ */
+export async function seedTokenCatalog(): Promise<void> {
+  let created = 0;
+
+  for (const seed of BUILT_IN_TOKENS) {
+    // Native coins have no contract and are unique per network by symbol; tokens by contract
+    const identity = seed.contractAddress
+      ? { network: seed.network, contractAddress: seed.contractAddress }
+      : { network: seed.network, contractAddress: null, tokenSymbol: seed.tokenSymbol };
+
+    let token = await prisma.token.findFirst({ where: identity, select: { id: true } });
+
+    if (!token) {
+      try {
+        token = await prisma.token.create({
+          data: { ...seed, status: 'VERIFIED', reviewedBy: 'system', reviewedAt: new Date() },
+          select: { id: true },
+        });
+        created++;
+      } catch (error) {
+        // Another instance seeded it first
+        if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') {
+          throw error;
+        }
+        token = await prisma.token.findFirstOrThrow({ where: identity, select: { id: true } });
+      }
+    }
+
+    await prisma.wallet.updateMany({
+      where: {
+        tokenId: null,
+        network: seed.network,
+        tokenSymbol: seed.tokenSymbol,
+        contractAddress: seed.contractAddress,
+      },
+      data: { tokenId: token.id },
+    });
+  }
+
+  if (created > 0) {
+    logger.info('Token catalog seeded', { created });
+  }
+}
@@ -0,0 +1,95 @@
+import { Prisma } from '@prisma/client';
+import { config } from '../../config';
+import { deriveAddress } from '../../domain/utils/hdWallet';
+
+interface HdWallet {
+  network: string;
+  xpub: string;
+  derivationPath: string;
+}
+
+interface DepositAddress {
+  address: string;
+  derivationIndex: number;
+}
+
+/**
+ * Make sure an HD wallet's key has a derivation cursor, starting after index 0
+ * Index 0 is the wallet's own walletAddress and is never handed to a payment.
+ * Cursors are keyed by the key rather than the wallet, so wallets sharing an xpub
+ * (ETH and USDC on one account, or a wallet deleted and added again) keep counting
+ * from the same index instead of reissuing addresses
+ */
+export async function registerDerivationCursor(tx: Prisma.TransactionClient, wallet: HdWallet): Promise<void> {
+  await tx.addressDerivationCursor.upsert({
+    where: { xpub_derivationPath: { xpub: wallet.xpub, derivationPath: wallet.derivationPath } },
+    create: { xpub: wallet.xpub, derivationPath: wallet.derivationPath, nextIndex: 1 },
+    update: {},
+  });
+}
+
+/**
+ * Lowest index of the key whose every intent expired without a transaction at least
+ * depositAddressReuseHours ago, so no payment can still be on its way to that address
+ */
+async function findReusableIndex(tx: Prisma.TransactionClient, wallet: HdWallet): Promise<number | null> {
+  const cutoff = new Date(Date.now() - config.payment.depositAddressReuseHours * 60 * 60 * 1000);
+
+  const [reusable] = await tx.$queryRaw<{ derivationIndex: number }[]>`
+    SELECT i."derivationIndex"
+    FROM payments.payment_intents i
+    JOIN payments.wallets w ON w.id = i."walletId"
+    WHERE w.xpub = ${wallet.xpub}
+      AND w."derivationPath" = ${wallet.derivationPath}
+      AND i."derivationIndex" IS NOT NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM payments.payment_intents o
+        WHERE o."targetAddress" = i."targetAddress"
+          AND NOT (
+            o.status = 'EXPIRED'
+            AND o."txId" IS NULL
+            AND o."expiresAt" < ${cutoff}
+            AND NOT EXISTS (SELECT 1 FROM payments.payment_intent_transactions t WHERE t."intentId" = o.id)
+          )
+      )
+    ORDER BY i."derivationIndex"
+    LIMIT 1
+  `;
+
+  return reusable?.derivationIndex ?? null;
+}
+
+/**
+ * Pick the deposit address for a new intent on an HD wallet
+ * An address left unused by expired intents is reused first, so abandoned quotes do not
+ * push the key past the gap limit of wallet software; otherwise the next index is taken.
+ * The cursor row stays locked until the surrounding transaction commits, so concurrent
+ * payments never receive the same index
+ */
+export async function allocateDepositAddress(
+  tx: Prisma.TransactionClient,
+  wallet: HdWallet
+): Promise<DepositAddress> {
+  await registerDerivationCursor(tx, wallet);
+  await tx.$queryRaw`
+    SELECT id FROM payments.address_derivation_cursors
+    WHERE xpub = ${wallet.xpub} AND "derivationPath" = ${wallet.derivationPath}
+    FOR UPDATE
+  `;
+
+  let derivationIndex = await findReusableIndex(tx, wallet);
+
+  if (derivationIndex === null) {
+    const cursor = await tx.addressDerivationCursor.update({
+      where: { xpub_derivationPath: { xpub: wallet.xpub, derivationPath: wallet.derivationPath } },
+      data: { nextIndex: { increment: 1 } },
+      select: { nextIndex: true },
+    });
+    derivationIndex = cursor.nextIndex - 1;
+  }
+
+  return {
+    address: deriveAddress(wallet.network, wallet.xpub, wallet.derivationPath, derivationIndex),
+    derivationIndex,
+  };
+}
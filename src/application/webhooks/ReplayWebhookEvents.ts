@@ -0,0 +1,86 @@
+import { prisma } from '../../infrastructure/database/client';
+import { container } from '../../infrastructure/di/Container';
+import { config } from '../../config';
+
+interface ReplayWebhookEventsInput {
+  merchantId: string;
+  merchantEmail?: string;
+  webhook: {
+    id: string;
+    url: string;
+    events: string[];
+  };
+  from: Date;
+  to: Date;
+  onlyFailed: boolean;
+}
+
+interface ReplayWebhookEventsOutput {
+  success: boolean;
+  queued: number;
+  message: string;
+}
+
+/**
+ * Re-queue the outbox events a webhook subscribes to that were created in [from, to]
+ * With onlyFailed, events that already have a successful delivery to this webhook are skipped
+ */
+export async function replayWebhookEvents(
+  input: ReplayWebhookEventsInput
+): Promise<ReplayWebhookEventsOutput> {
+  const { merchantId, merchantEmail, webhook, from, to, onlyFailed } = input;
+  const maxEvents = config.webhooks.maxReplayEvents;
+
+  let events = await prisma.outbox.findMany({
+    where: {
+      merchantId,
+      webhookId: null,
+      eventType: { in: webhook.events },
+      createdAt: { gte: from, lte: to },
+    },
+    select: { id: true, eventType: true, payload: true },
+    orderBy: { createdAt: 'asc' },
+    take: maxEvents + 1,
+  });
+
+  if (events.length > maxEvents) {
+    return {
+      success: false,
+      queued: 0,
+      message: `Time range contains more than ${maxEvents} events. Narrow the range and replay in parts.`,
+    };
+  }
+
+  if (onlyFailed && events.length > 0) {
+    const delivered = await prisma.webhookDelivery.findMany({
+      where: {
+        webhookId: webhook.id,
+        success: true,
+        eventId: { in: events.map((event) => event.id) },
+      },
+      select: { eventId: true },
+      distinct: ['eventId'],
+    });
+    const deliveredIds = new Set(delivered.map((delivery) => delivery.eventId));
+    events = events.filter((event) => !deliveredIds.has(event.id));
+  }
+
+  for (const event of events) {
+    await container.webhookService.queueWebhook({
+      merchantId,
+      webhookUrl: webhook.url,
+      event: event.eventType,
+      data: event.payload,
+      merchantEmail,
+      webhookId: webhook.id,
+      eventId: event.id,
+      trigger: 'replay',
+    });
+  }
+
+  return {
+    success: true,
+    queued: events.length,
+    message: `${events.length} events queued for replay`,
+  };
+}
@@ -0,0 +1,91 @@
+import crypto from 'crypto';
+
+/**
+ * Headers a chain plugin sends with every request to Core's /internal API
+ */
+export const PLUGIN_ID_HEADER = 'X-Suzaa-Plugin-Id';
+export const PLUGIN_TIMESTAMP_HEADER = 'X-Suzaa-Timestamp';
+export const PLUGIN_SIGNATURE_HEADER = 'X-Suzaa-Signature';
+
+/**
+ * Maximum clock skew accepted between a plugin and Core
+ */
+export const PLUGIN_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+/**
+ * Derive a plugin's signing secret from the master PLUGIN_HMAC_SECRET
+ * Only a hash of the derived secret is stored, so a database leak alone does not expose it
+ */
+export function derivePluginSecret(masterSecret: string, pluginId: string, salt: string): string {
+  return crypto
+    .createHmac('sha256', masterSecret)
+    .update(`${pluginId}:${salt}`)
+    .digest('hex');
+}
+
+/**
+ * Hash stored in PluginRegistry.secretHash to detect a changed master secret or salt
+ */
+export function hashPluginSecret(secret: string): string {
+  return crypto.createHash('sha256').update(secret).digest('hex');
+}
+
+/**
+ * Compute the request signature: hex HMAC-SHA256 over
+ * "<METHOD>\n<path including query>\n<timestamp>\n<raw body>"
+ */
+export function computePluginSignature(
+  secret: string,
+  request: { method: string; path: string; timestamp: number; body: string }
+): string {
+  return crypto
+    .createHmac('sha256', secret)
+    .update(`${request.method.toUpperCase()}\n${request.path}\n${request.timestamp}\n${request.body}`)
+    .digest('hex');
+}
+
+/**
+ * Build the headers a plugin attaches to a request to Core
+ */
+export function signPluginRequest(
+  pluginId: string,
+  secret: string,
+  request: { method: string; path: string; body: string },
+  timestamp: number = Math.floor(Date.now() / 1000)
+): Record<string, string> {
+  return {
+    [PLUGIN_ID_HEADER]: pluginId,
+    [PLUGIN_TIMESTAMP_HEADER]: String(timestamp),
+    [PLUGIN_SIGNATURE_HEADER]: computePluginSignature(secret, { ...request, timestamp }),
+  };
+}
+
+/**
+ * Verify a plugin request signature in constant time, rejecting stale timestamps
+ */
+export function verifyPluginSignature(params: {
+  secret: string;
+  method: string;
+  path: string;
+  timestamp: string | undefined;
+  body: string;
+  signature: string | undefined;
+  now?: number;
+}): boolean {
+  const { secret, method, path, body, signature } = params;
+  const now = params.now ?? Math.floor(Date.now() / 1000);
+
+  if (!signature || !params.timestamp || !/^\d+$/.test(params.timestamp)) {
+    return false;
+  }
+
+  const timestamp = parseInt(params.timestamp, 10);
+  if (Math.abs(now - timestamp) > PLUGIN_SIGNATURE_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const expected = Buffer.from(computePluginSignature(secret, { method, path, timestamp, body }), 'hex');
+  const candidate = Buffer.from(signature, 'hex');
+
+  return candidate.length === expected.length && crypto.timingSafeEqual(candidate, expected);
+}
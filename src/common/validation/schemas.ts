@@ -1,5 +1,8 @@
 import Joi from 'joi';
 import validator from 'validator';
+import { PaymentStatus, SettlementStatus } from '@prisma/client';
+import { WEBHOOK_EVENT_NAMES } from '../../domain/events/DomainEvent';
+import { SUPPORTED_FIAT_CURRENCIES } from '../../domain/value-objects/Money';
 
 /**
  * Custom email validation using validator library
@@ -110,11 +113,11 @@ export const authSchemas = {
   bootstrap: Joi.object({
     businessName: commonSchemas.businessName,
     defaultCurrency: Joi.string()
-      .length(3)
       .uppercase()
+      .valid(...SUPPORTED_FIAT_CURRENCIES)
       .default('USD')
       .messages({
-        'string.length': 'defaultCurrency must be a 3-letter ISO code',
+        'any.only': `defaultCurrency must be one of ${SUPPORTED_FIAT_CURRENCIES.join(', ')}`,
       }),
     timezone: Joi.string()
       .max(100)
@@ -147,8 +150,27 @@ export const adminSchemas = {
     businessName: Joi.string().min(2).max(100).trim(),
     email: Joi.string().custom(emailValidator, 'email validation'),
     allowUnsolicitedPayments: Joi.boolean(),
+    allowUnderpaymentTopUp: Joi.boolean(),
   }).min(1),
 
+  registerPlugin: Joi.object({
+    pluginId: Joi.string()
+      .pattern(/^[a-z0-9][a-z0-9-]{1,49}$/)
+      .invalid('manual')
+      .required()
+      .messages({
+        'string.pattern.base': 'Plugin ID must be 2-50 lowercase letters, digits or dashes',
+        'any.invalid': 'Plugin ID "manual" is reserved',
+      }),
+    baseUrl: Joi.string().uri({ scheme: ['http', 'https'] }).max(255).required(),
+    healthUrl: Joi.string().uri({ scheme: ['http', 'https'] }).max(255).optional(),
+    allowedChains: Joi.array()
+      .items(Joi.string().max(20).uppercase().trim())
+      .min(1)
+      .unique()
+      .required(),
+  }),
+
   suspendMerchant: Joi.object({
     reason: Joi.string()
       .min(10)
@@ -167,6 +189,10 @@ export const adminSchemas = {
  * Payment route validation schemas
  */
 export const paymentSchemas = {
+  paymentRequestParams: Joi.object({
+    id: commonSchemas.uuid,
+  }),
+
   createPaymentRequest: Joi.object({
     amountFiat: commonSchemas.amount,
     currency: Joi.string()
@@ -188,6 +214,19 @@ export const paymentSchemas = {
       }),
   }),
 
+  // One row of a bulk upload - the currency is always the merchant's default
+  bulkPaymentRequestRow: Joi.object({
+    amountFiat: commonSchemas.amount,
+    description: commonSchemas.description.optional(),
+    expiresInMinutes: Joi.number().integer().valid(15, 30, 60, 120).messages({
+      'any.only': 'Expiration must be 15, 30, 60 or 120 minutes',
+    }),
+    redirectUrl: Joi.string().trim().uri({ scheme: ['http', 'https'] }).max(500).messages({
+      'string.uriCustomScheme': 'redirectUrl must be a valid URL starting with http:// or https://',
+    }),
+    externalReference: Joi.string().trim().max(100),
+  }),
+
   publicCreatePayment: Joi.object({
     merchantSlug: Joi.string()
       .min(6)
@@ -236,6 +275,230 @@ export const walletSchemas = {
   }).min(1),
 };
 
+/**
+ * Token catalog validation schemas
+ */
+const tokenFields = {
+  network: Joi.string().max(20).uppercase().trim(),
+  contractAddress: Joi.string().max(255).trim().allow(null),
+  tokenSymbol: Joi.string().max(20).uppercase().trim(),
+  tokenName: Joi.string().max(100).trim().allow(null),
+  tokenType: Joi.string().max(20).uppercase().trim(),
+  decimals: Joi.number().integer().min(0).max(18),
+  priceIds: Joi.object().pattern(Joi.string().max(50), Joi.string().max(100)),
+};
+
+export const tokenSchemas = {
+  requestToken: Joi.object({
+    ...tokenFields,
+    network: tokenFields.network.required(),
+    tokenSymbol: tokenFields.tokenSymbol.required(),
+    tokenType: tokenFields.tokenType.required(),
+    decimals: tokenFields.decimals.required(),
+    note: Joi.string().max(500).trim(),
+  }),
+
+  createToken: Joi.object({
+    ...tokenFields,
+    network: tokenFields.network.required(),
+    tokenSymbol: tokenFields.tokenSymbol.required(),
+    tokenType: tokenFields.tokenType.required(),
+    decimals: tokenFields.decimals.required(),
+  }),
+
+  updateToken: Joi.object({
+    tokenSymbol: tokenFields.tokenSymbol,
+    tokenName: tokenFields.tokenName,
+    tokenType: tokenFields.tokenType,
+    decimals: tokenFields.decimals,
+    priceIds: tokenFields.priceIds,
+    status: Joi.string().valid('VERIFIED', 'REJECTED'),
+    reviewNote: Joi.string().max(500).trim().allow(null),
+  }).min(1),
+};
+
+/**
+ * Webhook subscription validation schemas
+ */
+const webhookUrl = Joi.string()
+  .uri({ scheme: ['https'] })
+  .max(500)
+  .messages({
+    'string.uriCustomScheme': 'Webhook URL must use https',
+    'string.uri': 'Invalid webhook URL',
+  });
+
+const webhookEvents = Joi.array()
+  .items(Joi.string().valid(...WEBHOOK_EVENT_NAMES))
+  .min(1)
+  .unique()
+  .messages({
+    'any.only': `Unknown event. Valid events: ${WEBHOOK_EVENT_NAMES.join(', ')}`,
+    'array.min': 'At least one event is required',
+  });
+
+export const webhookSchemas = {
+  webhookParams: Joi.object({
+    id: commonSchemas.uuid,
+  }),
+
+  deliveryParams: Joi.object({
+    id: commonSchemas.uuid,
+    deliveryId: commonSchemas.uuid,
+  }),
+
+  createWebhook: Joi.object({
+    url: webhookUrl.required(),
+    events: webhookEvents.required(),
+    enabled: Joi.boolean().default(true),
+  }),
+
+  updateWebhook: Joi.object({
+    url: webhookUrl,
+    events: webhookEvents,
+    enabled: Joi.boolean(),
+    replayMissed: Joi.boolean().default(false),
+  }).or('url', 'events', 'enabled'),
+
+  rotateSecret: Joi.object({
+    graceMinutes: Joi.number()
+      .integer()
+      .min(0)
+      .max(10080)
+      .messages({
+        'number.max': 'Grace window cannot exceed 10080 minutes (7 days)',
+      }),
+  }),
+
+  listDeliveries: Joi.object({
+    status: Joi.string().valid('succeeded', 'failed'),
+    before: Joi.date().iso(),
+    limit: Joi.number().integer().min(1).max(100).default(50),
+  }),
+
+  replay: Joi.object({
+    from: Joi.date().iso().required(),
+    to: Joi.date().iso().greater(Joi.ref('from')).required().messages({
+      'date.greater': '"to" must be after "from"',
+    }),
+    onlyFailed: Joi.boolean().default(true),
+  }),
+};
+
+/**
+ * Refund validation schemas
+ */
+export const refundSchemas = {
+  requestRefund: Joi.object({
+    paymentIntentId: Joi.string().uuid(),
+    amountFiat: commonSchemas.amount.optional(),
+    amountCrypto: Joi.string()
+      .pattern(/^\d+(\.\d{1,18})?$/)
+      .messages({
+        'string.pattern.base': 'amountCrypto must be a decimal string with up to 18 fractional digits',
+      }),
+    destinationAddress: Joi.string().trim().max(255).required(),
+    reason: Joi.string().trim().max(500),
+  }).oxor('amountFiat', 'amountCrypto'),
+
+  refundParams: Joi.object({
+    refundId: commonSchemas.uuid,
+  }),
+
+  updateStatus: Joi.object({
+    status: Joi.string().valid('APPROVED', 'SENT', 'CONFIRMED', 'CANCELED').required(),
+    txId: Joi.string().trim().max(255),
+    reason: Joi.string().trim().max(500),
+  }),
+};
+
+/**
+ * Recurring payment schedule validation schemas
+ */
+const scheduleFields = {
+  amountFiat: commonSchemas.amount.optional(),
+  description: commonSchemas.description.allow(null),
+  dueDays: Joi.number().integer().min(1).max(90).messages({
+    'number.min': 'dueDays must be at least 1 day',
+    'number.max': 'dueDays cannot exceed 90 days',
+  }),
+  buyerEmail: commonSchemas.email.optional().allow(null),
+  pauseAfterMissed: Joi.number().integer().min(0).max(100),
+};
+
+export const scheduleSchemas = {
+  scheduleParams: Joi.object({
+    id: commonSchemas.uuid,
+  }),
+
+  createSchedule: Joi.object({
+    ...scheduleFields,
+    amountFiat: commonSchemas.amount,
+    // Defaults to the merchant's default currency
+    currency: Joi.string()
+      .uppercase()
+      .valid(...SUPPORTED_FIAT_CURRENCIES)
+      .messages({
+        'any.only': `currency must be one of ${SUPPORTED_FIAT_CURRENCIES.join(', ')}`,
+      }),
+    cadence: Joi.string().valid('WEEKLY', 'MONTHLY', 'CRON').required(),
+    // Checked against the merchant's timezone in the route
+    cronExpression: Joi.string()
+      .trim()
+      .max(100)
+      .when('cadence', { is: 'CRON', then: Joi.required(), otherwise: Joi.forbidden() }),
+    // First run; defaults to now
+    startAt: Joi.date().iso(),
+  }),
+
+  updateSchedule: Joi.object({
+    ...scheduleFields,
+    status: Joi.string().valid('ACTIVE', 'PAUSED', 'CANCELED'),
+  }).min(1),
+};
+
+/**
+ * Chain plugin (internal API) validation schemas
+ */
+export const pluginSchemas = {
+  settlementEvidence: Joi.object({
+    intentId: commonSchemas.uuid,
+    txId: Joi.string().max(255).trim().required(),
+    amountReceived: Joi.string()
+      .pattern(/^\d+(\.\d{1,18})?$/)
+      .required()
+      .messages({
+        'string.pattern.base': 'amountReceived must be a decimal string with up to 18 fractional digits',
+      }),
+    confirmations: Joi.number().integer().min(0).required(),
+    blockRef: Joi.object().unknown(true).optional(),
+  }),
+};
+
+/**
+ * Payment request list/export filters
+ * Repeat a list parameter to match several values: ?status=PENDING&status=EXPIRED
+ */
+const paymentRequestFilter = Joi.object({
+  status: Joi.array().items(Joi.string().valid(...Object.values(PaymentStatus))).single(),
+  settlementStatus: Joi.array().items(Joi.string().valid(...Object.values(SettlementStatus))).single(),
+  createdBy: Joi.string().valid('merchant', 'buyer'),
+  from: Joi.date().iso(),
+  to: Joi.date().iso().when('from', {
+    is: Joi.exist(),
+    then: Joi.date().greater(Joi.ref('from')),
+  }),
+  minAmount: Joi.number().min(0),
+  maxAmount: Joi.number().min(0).when('minAmount', {
+    is: Joi.exist(),
+    then: Joi.number().min(Joi.ref('minAmount')),
+  }),
+  description: Joi.string().max(100).trim(),
+  externalReference: Joi.string().max(100).trim(),
+  sortBy: Joi.string().valid('createdAt', 'expiresAt', 'amountFiat').default('createdAt'),
+  sortOrder: Joi.string().valid('asc', 'desc').default('desc'),
+});
+
 /**
  * Query parameter schemas
  */
@@ -251,4 +514,40 @@ export const querySchemas = {
     suspended: Joi.boolean(),
     search: Joi.string().max(100).trim(),
   }),
+
+  paymentRequestFilter,
+
+  paymentRequestList: paymentRequestFilter.keys({
+    cursor: Joi.string().uuid(),
+    limit: Joi.number().integer().min(1).max(100).default(50),
+  }),
+
+  paymentRequestExport: paymentRequestFilter.keys({
+    format: Joi.string().valid('csv', 'jsonl', 'xlsx').default('csv'),
+  }),
+
+  tokenList: Joi.object({
+    network: Joi.string().max(20).uppercase().trim(),
+    status: Joi.string().valid('PENDING', 'VERIFIED', 'REJECTED'),
+  }),
+
+  // Find the intent an incoming transaction pays, by its reference or derived address
+  intentLookup: Joi.object({
+    network: Joi.string().max(20).uppercase().trim().required(),
+    memo: Joi.string().max(255).trim(),
+    address: Joi.string().max(255).trim(),
+  }).or('memo', 'address'),
+
+  refundList: Joi.object({
+    status: Joi.array().items(Joi.string().valid('REQUESTED', 'APPROVED', 'SENT', 'CONFIRMED', 'CANCELED')).single(),
+  }),
+
+  scheduleList: Joi.object({
+    status: Joi.array().items(Joi.string().valid('ACTIVE', 'PAUSED', 'CANCELED')).single(),
+  }),
+
+  paymentQr: Joi.object({
+    wallet: commonSchemas.uuid,
+    format: Joi.string().valid('svg', 'png').default('svg'),
+  }),
 };
@@ -0,0 +1,103 @@
+import crypto from 'crypto';
+
+/**
+ * Header carrying the webhook signature
+ * Format: t=<unix seconds>,v1=<hex hmac>[,v1=<hex hmac>...]
+ * During a secret rotation grace window one v1 entry is sent per valid secret
+ */
+export const SIGNATURE_HEADER = 'Suzaa-Signature';
+
+/**
+ * Default maximum age of a signed payload before verification rejects it (replay protection)
+ */
+export const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+/**
+ * Compute the v1 signature: hex HMAC-SHA256 over "<timestamp>.<raw body>"
+ */
+export function computeSignature(secret: string, timestamp: number, rawBody: string): string {
+  return crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${rawBody}`)
+    .digest('hex');
+}
+
+/**
+ * Build the Suzaa-Signature header value for a raw body, signing with every given secret
+ */
+export function buildSignatureHeader(
+  secrets: string[],
+  rawBody: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+  const signatures = secrets.map((secret) => `v1=${computeSignature(secret, timestamp, rawBody)}`);
+  return [`t=${timestamp}`, ...signatures].join(',');
+}
+
+/**
+ * Parse a Suzaa-Signature header into its timestamp and v1 signatures
+ * Unknown scheme versions are ignored so newer schemes can be added alongside v1
+ */
+export function parseSignatureHeader(header: string): { timestamp: number; signatures: string[] } | null {
+  let timestamp: number | null = null;
+  const signatures: string[] = [];
+
+  for (const part of header.split(',')) {
+    const separator = part.indexOf('=');
+    if (separator === -1) {
+      continue;
+    }
+
+    const key = part.slice(0, separator).trim();
+    const value = part.slice(separator + 1).trim();
+
+    if (key === 't' && /^\d+$/.test(value)) {
+      timestamp = parseInt(value, 10);
+    } else if (key === 'v1' && value) {
+      signatures.push(value);
+    }
+  }
+
+  if (timestamp === null || signatures.length === 0) {
+    return null;
+  }
+
+  return { timestamp, signatures };
+}
+
+/**
+ * Verify a webhook request received from SUZAA
+ * rawBody must be the exact bytes received, before any JSON parsing
+ */
+export function verifyWebhookSignature(params: {
+  rawBody: string | Buffer;
+  header: string | undefined;
+  secret: string;
+  toleranceSeconds?: number;
+  now?: number;
+}): boolean {
+  const { header, secret } = params;
+  const toleranceSeconds = params.toleranceSeconds ?? DEFAULT_SIGNATURE_TOLERANCE_SECONDS;
+  const now = params.now ?? Math.floor(Date.now() / 1000);
+
+  if (!header) {
+    return false;
+  }
+
+  const parsed = parseSignatureHeader(header);
+  if (!parsed) {
+    return false;
+  }
+
+  if (Math.abs(now - parsed.timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const rawBody = Buffer.isBuffer(params.rawBody) ? params.rawBody.toString('utf8') : params.rawBody;
+  const expected = Buffer.from(computeSignature(secret, parsed.timestamp, rawBody), 'hex');
+
+  return parsed.signatures.some((signature) => {
+    const candidate = Buffer.from(signature, 'hex');
+    return candidate.length === expected.length && crypto.timingSafeEqual(candidate, expected);
+  });
+}
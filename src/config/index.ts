@@ -93,6 +93,54 @@ export const config = {
     defaultExpiryMinutes: parseInt(process.env.PAYMENT_DEFAULT_EXPIRY || '60', 10),
     maxExpiryMinutes: parseInt(process.env.PAYMENT_MAX_EXPIRY || '1440', 10), // 24 hours
     minExpiryMinutes: parseInt(process.env.PAYMENT_MIN_EXPIRY || '5', 10),
+    quoteValidityMinutes: parseInt(process.env.PAYMENT_QUOTE_VALIDITY_MINUTES || '15', 10),
+    // HD deposit addresses of intents that expired unpaid are handed out again after this long
+    depositAddressReuseHours: parseInt(process.env.PAYMENT_DEPOSIT_ADDRESS_REUSE_HOURS || '24', 10),
+  },
+
+  // Price feed: providers are combined by median with outlier rejection
+  pricing: {
+    providers: (process.env.PRICE_PROVIDERS || 'coingecko').split(',').map(p => p.trim().toLowerCase()).filter(Boolean),
+    maxDeviationPct: parseFloat(process.env.PRICE_MAX_DEVIATION_PCT || '2'),
+    maxQuoteAgeSeconds: parseInt(process.env.PRICE_MAX_QUOTE_AGE_SECONDS || '300', 10), // older prices are not used for new intents
+    fixedRates: process.env.PRICE_FIXED_RATES || '', // e.g. SOL:USD=150,USDC:USD=1
+    filePath: process.env.PRICE_FILE_PATH || '',
+  },
+
+  // Idempotency-Key handling on payment creation
+  idempotency: {
+    keyTtlHours: parseInt(process.env.IDEMPOTENCY_KEY_TTL_HOURS || '24', 10),
+    lockTtlSeconds: parseInt(process.env.IDEMPOTENCY_LOCK_TTL_SECONDS || '60', 10),
+  },
+
+  // Outbox dispatcher
+  outbox: {
+    enabled: process.env.OUTBOX_DISPATCHER_ENABLED !== 'false',
+    pollIntervalMs: parseInt(process.env.OUTBOX_POLL_INTERVAL_MS || '1000', 10),
+    batchSize: parseInt(process.env.OUTBOX_BATCH_SIZE || '50', 10),
+    retryBaseDelayMs: parseInt(process.env.OUTBOX_RETRY_BASE_DELAY_MS || '5000', 10), // doubles per retry
+  },
+
+  // Expiry sweeper (one instance at a time, elected with a Postgres advisory lock)
+  expirySweeper: {
+    enabled: process.env.EXPIRY_SWEEPER_ENABLED !== 'false',
+    intervalMs: parseInt(process.env.EXPIRY_SWEEP_INTERVAL_MS || '30000', 10),
+    batchSize: parseInt(process.env.EXPIRY_SWEEP_BATCH_SIZE || '200', 10),
+  },
+
+  // Recurring payment schedules (due schedules are claimed with SKIP LOCKED, safe on every instance)
+  paymentScheduler: {
+    enabled: process.env.PAYMENT_SCHEDULER_ENABLED !== 'false',
+    intervalMs: parseInt(process.env.PAYMENT_SCHEDULER_INTERVAL_MS || '60000', 10),
+    batchSize: parseInt(process.env.PAYMENT_SCHEDULER_BATCH_SIZE || '50', 10),
+    pauseAfterMissed: parseInt(process.env.SCHEDULE_PAUSE_AFTER_MISSED || '3', 10), // default for new schedules, 0 = never
+  },
+
+  // Webhooks
+  webhooks: {
+    secretGraceMinutes: parseInt(process.env.WEBHOOK_SECRET_GRACE_MINUTES || '1440', 10), // old secret stays valid after rotation
+    maxReplayEvents: parseInt(process.env.WEBHOOK_MAX_REPLAY_EVENTS || '1000', 10),
+    autoDisableThreshold: parseInt(process.env.WEBHOOK_AUTO_DISABLE_THRESHOLD || '20', 10), // consecutive failed attempts, 0 = never
   },
 
   // Email
@@ -1,6 +1,6 @@
 import { Money } from '../value-objects/Money';
 import { DomainEvent, PaymentRequestCreated, PaymentReceived, PaymentSettled } from '../events/DomainEvent';
-import { ValidationError, BadRequestError } from '../../common/errors/AppError';
+import { ValidationError, BadRequestError, ConflictError } from '../../common/errors/AppError';
 
 export enum PaymentStatus {
   PENDING = 'PENDING',
@@ -15,8 +15,34 @@ export enum SettlementStatus {
   SETTLED = 'SETTLED',
   REJECTED = 'REJECTED',
   REISSUED = 'REISSUED',
+  CANCELED = 'CANCELED',
+  CLAIMED_PAID = 'CLAIMED_PAID',
 }
 
+/**
+ * Settlement statuses each status may move to
+ * REISSUED is terminal - a reissued request is replaced by a new one
+ */
+export const SETTLEMENT_TRANSITIONS: Record<SettlementStatus, SettlementStatus[]> = {
+  [SettlementStatus.PENDING]: [
+    SettlementStatus.PAID,
+    SettlementStatus.SETTLED,
+    SettlementStatus.REJECTED,
+    SettlementStatus.CANCELED,
+    SettlementStatus.CLAIMED_PAID,
+  ],
+  [SettlementStatus.CLAIMED_PAID]: [
+    SettlementStatus.PAID,
+    SettlementStatus.SETTLED,
+    SettlementStatus.REJECTED,
+  ],
+  [SettlementStatus.PAID]: [SettlementStatus.SETTLED, SettlementStatus.REJECTED],
+  [SettlementStatus.SETTLED]: [SettlementStatus.REISSUED],
+  [SettlementStatus.REJECTED]: [SettlementStatus.REISSUED],
+  [SettlementStatus.CANCELED]: [SettlementStatus.REISSUED],
+  [SettlementStatus.REISSUED]: [],
+};
+
 export interface PaymentRequestProps {
   id: string;
   merchantId: string;
@@ -72,6 +98,30 @@ export class PaymentRequest {
     return payment;
   }
 
+  /**
+   * Rebuild an existing payment request from persistence (raises no events)
+   */
+  static reconstitute(props: PaymentRequestProps): PaymentRequest {
+    return new PaymentRequest(props);
+  }
+
+  static canTransitionSettlement(from: SettlementStatus, to: SettlementStatus): boolean {
+    return SETTLEMENT_TRANSITIONS[from]?.includes(to) ?? false;
+  }
+
+  /**
+   * Throw a 409 when the settlement transition is not in the transition table
+   */
+  static assertSettlementTransition(from: SettlementStatus, to: SettlementStatus): void {
+    if (!PaymentRequest.canTransitionSettlement(from, to)) {
+      throw new ConflictError(
+        `Invalid settlement status transition from ${from} to ${to}`,
+        'INVALID_SETTLEMENT_TRANSITION',
+        { from, to, allowed: SETTLEMENT_TRANSITIONS[from] ?? [] },
+      );
+    }
+  }
+
   // Getters
   getId(): string {
     return this.props.id;
@@ -187,7 +237,7 @@ export class PaymentRequest {
     this.props.cryptoCurrency = cryptoCurrency.toUpperCase();
     this.props.updatedAt = new Date();
 
-    this.domainEvents.push(new PaymentReceived(this.props.id, txHash, amountCrypto));
+    this.domainEvents.push(new PaymentReceived(this.props.id, this.props.merchantId, txHash, amountCrypto));
   }
 
   /**
@@ -218,27 +268,13 @@ export class PaymentRequest {
    * Update settlement status
    */
   updateSettlementStatus(newStatus: SettlementStatus, settledBy?: string): void {
-    // Validate state transitions
-    const validTransitions: Record<SettlementStatus, SettlementStatus[]> = {
-      [SettlementStatus.PENDING]: [SettlementStatus.PAID, SettlementStatus.REJECTED],
-      [SettlementStatus.PAID]: [SettlementStatus.SETTLED, SettlementStatus.REJECTED],
-      [SettlementStatus.SETTLED]: [SettlementStatus.REISSUED],
-      [SettlementStatus.REJECTED]: [SettlementStatus.REISSUED],
-      [SettlementStatus.REISSUED]: [],
-    };
-
-    const allowedTransitions = validTransitions[this.props.settlementStatus];
-    if (!allowedTransitions.includes(newStatus)) {
-      throw new BadRequestError(
-        `Invalid settlement status transition from ${this.props.settlementStatus} to ${newStatus}`,
-      );
-    }
+    PaymentRequest.assertSettlementTransition(this.props.settlementStatus, newStatus);
 
     this.props.settlementStatus = newStatus;
     this.props.updatedAt = new Date();
 
     if (newStatus === SettlementStatus.SETTLED && settledBy) {
-      this.domainEvents.push(new PaymentSettled(this.props.id, settledBy));
+      this.domainEvents.push(new PaymentSettled(this.props.id, this.props.merchantId, settledBy));
     }
   }
 }
@@ -13,6 +13,13 @@ export abstract class DomainEvent {
 
   abstract getEventName(): string;
   abstract getAggregateId(): string;
+
+  /**
+   * Merchant the event belongs to (used to route it to the merchant's webhooks)
+   */
+  getMerchantId(): string | null {
+    return null;
+  }
 }
 
 /**
@@ -34,6 +41,10 @@ export class MerchantRegistered extends DomainEvent {
   getAggregateId(): string {
     return this.merchantId;
   }
+
+  getMerchantId(): string {
+    return this.merchantId;
+  }
 }
 
 export class MerchantSuspended extends DomainEvent {
@@ -52,6 +63,10 @@ export class MerchantSuspended extends DomainEvent {
   getAggregateId(): string {
     return this.merchantId;
   }
+
+  getMerchantId(): string {
+    return this.merchantId;
+  }
 }
 
 export class MerchantUnsuspended extends DomainEvent {
@@ -69,6 +84,53 @@ export class MerchantUnsuspended extends DomainEvent {
   getAggregateId(): string {
     return this.merchantId;
   }
+
+  getMerchantId(): string {
+    return this.merchantId;
+  }
+}
+
+export class MerchantSettingsUpdated extends DomainEvent {
+  constructor(
+    public readonly merchantId: string,
+    public readonly changes: Record<string, unknown>,
+    public readonly updatedBy: string,
+  ) {
+    super();
+  }
+
+  getEventName(): string {
+    return 'MerchantSettingsUpdated';
+  }
+
+  getAggregateId(): string {
+    return this.merchantId;
+  }
+
+  getMerchantId(): string {
+    return this.merchantId;
+  }
+}
+
+export class MerchantDeleted extends DomainEvent {
+  constructor(
+    public readonly merchantId: string,
+    public readonly deletedBy: string,
+  ) {
+    super();
+  }
+
+  getEventName(): string {
+    return 'MerchantDeleted';
+  }
+
+  getAggregateId(): string {
+    return this.merchantId;
+  }
+
+  getMerchantId(): string {
+    return this.merchantId;
+  }
 }
 
 export class MerchantEmailVerified extends DomainEvent {
@@ -83,6 +145,10 @@ export class MerchantEmailVerified extends DomainEvent {
   getAggregateId(): string {
     return this.merchantId;
   }
+
+  getMerchantId(): string {
+    return this.merchantId;
+  }
 }
 
 /**
@@ -105,11 +171,88 @@ export class PaymentRequestCreated extends DomainEvent {
   getAggregateId(): string {
     return this.paymentRequestId;
   }
+
+  getMerchantId(): string {
+    return this.merchantId;
+  }
+}
+
+export class PaymentIntentCreated extends DomainEvent {
+  constructor(
+    public readonly paymentIntentId: string,
+    public readonly paymentRequestId: string,
+    public readonly merchantId: string,
+    public readonly coin: string,
+    public readonly chain: string,
+    public readonly amountCrypto: string,
+    public readonly quoteRate: string,
+    public readonly expiresAt: Date,
+  ) {
+    super();
+  }
+
+  getEventName(): string {
+    return 'PaymentIntentCreated';
+  }
+
+  getAggregateId(): string {
+    return this.paymentRequestId;
+  }
+
+  getMerchantId(): string {
+    return this.merchantId;
+  }
+}
+
+export class PaymentRequestExpired extends DomainEvent {
+  constructor(
+    public readonly paymentRequestId: string,
+    public readonly merchantId: string,
+    public readonly expiresAt: Date,
+  ) {
+    super();
+  }
+
+  getEventName(): string {
+    return 'PaymentRequestExpired';
+  }
+
+  getAggregateId(): string {
+    return this.paymentRequestId;
+  }
+
+  getMerchantId(): string {
+    return this.merchantId;
+  }
+}
+
+export class PaymentIntentExpired extends DomainEvent {
+  constructor(
+    public readonly paymentIntentId: string,
+    public readonly paymentRequestId: string,
+    public readonly merchantId: string,
+    public readonly expiresAt: Date,
+  ) {
+    super();
+  }
+
+  getEventName(): string {
+    return 'PaymentIntentExpired';
+  }
+
+  getAggregateId(): string {
+    return this.paymentRequestId;
+  }
+
+  getMerchantId(): string {
+    return this.merchantId;
+  }
 }
 
 export class PaymentReceived extends DomainEvent {
   constructor(
     public readonly paymentRequestId: string,
+    public readonly merchantId: string,
     public readonly txHash: string,
     public readonly amount: number,
   ) {
@@ -123,11 +266,16 @@ export class PaymentReceived extends DomainEvent {
   getAggregateId(): string {
     return this.paymentRequestId;
   }
+
+  getMerchantId(): string {
+    return this.merchantId;
+  }
 }
 
 export class PaymentSettled extends DomainEvent {
   constructor(
     public readonly paymentRequestId: string,
+    public readonly merchantId: string,
     public readonly settledBy: string,
   ) {
     super();
@@ -140,6 +288,246 @@ export class PaymentSettled extends DomainEvent {
   getAggregateId(): string {
     return this.paymentRequestId;
   }
+
+  getMerchantId(): string {
+    return this.merchantId;
+  }
+}
+
+/**
+ * Funds arrived after the intent's quote expired; the payment waits at PAID for the merchant to review
+ */
+export class PaymentReceivedLate extends DomainEvent {
+  constructor(
+    public readonly paymentRequestId: string,
+    public readonly merchantId: string,
+    public readonly intentId: string,
+    public readonly txHash: string,
+    public readonly amount: string,
+    public readonly quoteExpiredAt: Date,
+  ) {
+    super();
+  }
+
+  getEventName(): string {
+    return 'PaymentReceivedLate';
+  }
+
+  getAggregateId(): string {
+    return this.paymentRequestId;
+  }
+
+  getMerchantId(): string {
+    return this.merchantId;
+  }
+}
+
+export class PaymentWithinTolerance extends DomainEvent {
+  constructor(
+    public readonly paymentRequestId: string,
+    public readonly merchantId: string,
+    public readonly paymentIntentId: string,
+    public readonly coin: string,
+    public readonly expectedAmount: string,
+    public readonly receivedAmount: string,
+  ) {
+    super();
+  }
+
+  getEventName(): string {
+    return 'PaymentWithinTolerance';
+  }
+
+  getAggregateId(): string {
+    return this.paymentRequestId;
+  }
+
+  getMerchantId(): string {
+    return this.merchantId;
+  }
+}
+
+export class PaymentOverpaid extends DomainEvent {
+  constructor(
+    public readonly paymentRequestId: string,
+    public readonly merchantId: string,
+    public readonly paymentIntentId: string,
+    public readonly coin: string,
+    public readonly expectedAmount: string,
+    public readonly receivedAmount: string,
+    public readonly surplusAmount: string,
+  ) {
+    super();
+  }
+
+  getEventName(): string {
+    return 'PaymentOverpaid';
+  }
+
+  getAggregateId(): string {
+    return this.paymentRequestId;
+  }
+
+  getMerchantId(): string {
+    return this.merchantId;
+  }
+}
+
+export class PaymentUnderpaid extends DomainEvent {
+  constructor(
+    public readonly paymentRequestId: string,
+    public readonly merchantId: string,
+    public readonly paymentIntentId: string,
+    public readonly coin: string,
+    public readonly expectedAmount: string,
+    public readonly receivedAmount: string,
+    public readonly shortfallAmount: string,
+    public readonly topUpUntil: Date | null,
+  ) {
+    super();
+  }
+
+  getEventName(): string {
+    return 'PaymentUnderpaid';
+  }
+
+  getAggregateId(): string {
+    return this.paymentRequestId;
+  }
+
+  getMerchantId(): string {
+    return this.merchantId;
+  }
+}
+
+export class PaymentSettlementStatusChanged extends DomainEvent {
+  constructor(
+    public readonly paymentRequestId: string,
+    public readonly merchantId: string,
+    public readonly fromStatus: string,
+    public readonly toStatus: string,
+    public readonly changedBy: string,
+  ) {
+    super();
+  }
+
+  getEventName(): string {
+    return 'PaymentSettlementStatusChanged';
+  }
+
+  getAggregateId(): string {
+    return this.paymentRequestId;
+  }
+
+  getMerchantId(): string {
+    return this.merchantId;
+  }
+}
+
+/**
+ * Refund Domain Events
+ */
+export class RefundRequested extends DomainEvent {
+  constructor(
+    public readonly refundId: string,
+    public readonly paymentRequestId: string,
+    public readonly paymentIntentId: string,
+    public readonly merchantId: string,
+    public readonly coin: string,
+    public readonly network: string,
+    public readonly amountCrypto: string,
+    public readonly amountFiat: string,
+    public readonly currency: string,
+  ) {
+    super();
+  }
+
+  getEventName(): string {
+    return 'RefundRequested';
+  }
+
+  getAggregateId(): string {
+    return this.refundId;
+  }
+
+  getMerchantId(): string {
+    return this.merchantId;
+  }
+}
+
+export class RefundStatusChanged extends DomainEvent {
+  constructor(
+    public readonly refundId: string,
+    public readonly paymentRequestId: string,
+    public readonly merchantId: string,
+    public readonly fromStatus: string,
+    public readonly toStatus: string,
+    public readonly txId: string | null,
+  ) {
+    super();
+  }
+
+  getEventName(): string {
+    return 'RefundStatusChanged';
+  }
+
+  getAggregateId(): string {
+    return this.refundId;
+  }
+
+  getMerchantId(): string {
+    return this.merchantId;
+  }
+}
+
+/**
+ * Payment Schedule Domain Events
+ */
+export class PaymentSchedulePaused extends DomainEvent {
+  constructor(
+    public readonly scheduleId: string,
+    public readonly merchantId: string,
+    public readonly missedCycles: number,
+    public readonly reason: string,
+  ) {
+    super();
+  }
+
+  getEventName(): string {
+    return 'PaymentSchedulePaused';
+  }
+
+  getAggregateId(): string {
+    return this.scheduleId;
+  }
+
+  getMerchantId(): string {
+    return this.merchantId;
+  }
+}
+
+/**
+ * Webhook Domain Events
+ */
+export class WebhookTest extends DomainEvent {
+  constructor(
+    public readonly webhookId: string,
+    public readonly merchantId: string,
+  ) {
+    super();
+  }
+
+  getEventName(): string {
+    return 'WebhookTest';
+  }
+
+  getAggregateId(): string {
+    return this.webhookId;
+  }
+
+  getMerchantId(): string {
+    return this.merchantId;
+  }
 }
 
 /**
@@ -178,3 +566,28 @@ export class AdminSuspended extends DomainEvent {
     return this.adminId;
   }
 }
+
+/**
+ * Event names merchants can subscribe their webhooks to
+ */
+export const WEBHOOK_EVENT_NAMES = [
+  'PaymentRequestCreated',
+  'PaymentIntentCreated',
+  'PaymentRequestExpired',
+  'PaymentIntentExpired',
+  'PaymentReceived',
+  'PaymentReceivedLate',
+  'PaymentWithinTolerance',
+  'PaymentOverpaid',
+  'PaymentUnderpaid',
+  'PaymentSettled',
+  'PaymentSettlementStatusChanged',
+  'RefundRequested',
+  'RefundStatusChanged',
+  'PaymentSchedulePaused',
+  'MerchantSuspended',
+  'MerchantUnsuspended',
+  'MerchantSettingsUpdated',
+] as const;
+
+export type WebhookEventName = (typeof WEBHOOK_EVENT_NAMES)[number];
@@ -0,0 +1,199 @@
+import { base58, bech32, bech32m, createBase58check } from '@scure/base';
+import { keccak_256 } from '@noble/hashes/sha3';
+import { sha256 } from '@noble/hashes/sha2';
+import { ValidationError } from '../../common/errors/AppError';
+
+export type AddressValidationResult =
+  | { valid: true; address: string } // canonical form to store and compare
+  | { valid: false; error: string };
+
+export type AddressValidator = (address: string) => AddressValidationResult;
+
+const base58check = createBase58check(sha256);
+
+const invalid = (error: string): AddressValidationResult => ({ valid: false, error });
+
+function tryDecode<T>(decode: () => T): T | null {
+  try {
+    return decode();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Solana: base58 encoding of a 32-byte public key
+ */
+export const validateSolanaAddress: AddressValidator = (address) => {
+  const bytes = tryDecode(() => base58.decode(address));
+
+  if (!bytes || bytes.length !== 32) {
+    return invalid('Must be a base58 Solana public key (32 bytes)');
+  }
+
+  return { valid: true, address: base58.encode(bytes) };
+};
+
+/**
+ * EIP-55 mixed-case checksum form of a 20-byte hex address
+ */
+export function toChecksumAddress(address: string): string {
+  const hex = address.slice(2).toLowerCase();
+  const hash = keccak_256(new TextEncoder().encode(hex));
+
+  let checksummed = '0x';
+  for (let i = 0; i < hex.length; i++) {
+    const nibble = (hash[i >> 1] >> (i % 2 === 0 ? 4 : 0)) & 0x0f;
+    checksummed += nibble >= 8 ? hex[i].toUpperCase() : hex[i];
+  }
+  return checksummed;
+}
+
+/**
+ * EVM chains: 0x + 40 hex characters. Mixed case must carry a valid EIP-55 checksum;
+ * all-lowercase or all-uppercase addresses have none to check
+ */
+export const validateEvmAddress: AddressValidator = (address) => {
+  if (!/^0x[0-9a-fA-F]{40}$/.test(address)) {
+    return invalid('Must be 0x followed by 40 hex characters');
+  }
+
+  const checksummed = toChecksumAddress(address);
+  const body = address.slice(2);
+  const hasChecksum = body !== body.toLowerCase() && body !== body.toUpperCase();
+
+  if (hasChecksum && address !== checksummed) {
+    return invalid('EIP-55 checksum mismatch - check the address for typos');
+  }
+
+  return { valid: true, address: checksummed };
+};
+
+/**
+ * Bitcoin mainnet: base58check P2PKH/P2SH, bech32 segwit v0 or bech32m taproot (v1+)
+ */
+export const validateBitcoinAddress: AddressValidator = (address) => {
+  if (/^bc1/i.test(address)) {
+    if (address !== address.toLowerCase() && address !== address.toUpperCase()) {
+      return invalid('Bech32 addresses must not mix upper and lower case');
+    }
+
+    const lower = address.toLowerCase();
+    const v0 = bech32.decodeUnsafe(lower);
+    const v1plus = v0 ? undefined : bech32m.decodeUnsafe(lower);
+    const decoded = v0 || v1plus;
+
+    if (!decoded || decoded.prefix !== 'bc' || decoded.words.length === 0) {
+      return invalid('Invalid bech32/bech32m address or checksum');
+    }
+
+    const version = decoded.words[0];
+    const program = bech32.fromWordsUnsafe(decoded.words.slice(1));
+
+    if (!program) {
+      return invalid('Invalid witness program');
+    }
+
+    const validProgram =
+      version === 0
+        ? v0 !== undefined && (program.length === 20 || program.length === 32)
+        : v1plus !== undefined &&
+          version <= 16 &&
+          program.length >= 2 &&
+          program.length <= 40 &&
+          (version !== 1 || program.length === 32);
+
+    if (!validProgram) {
+      return invalid('Invalid segwit version or program length for this encoding');
+    }
+
+    return { valid: true, address: lower };
+  }
+
+  const payload = tryDecode(() => base58check.decode(address));
+
+  if (!payload || payload.length !== 21 || (payload[0] !== 0x00 && payload[0] !== 0x05)) {
+    return invalid('Must be a mainnet P2PKH (1...), P2SH (3...) or bech32 (bc1...) address');
+  }
+
+  return { valid: true, address };
+};
+
+/**
+ * Tron: base58check of 0x41 + 20-byte account id (T...)
+ */
+export const validateTronAddress: AddressValidator = (address) => {
+  const payload = tryDecode(() => base58check.decode(address));
+
+  if (!payload || payload.length !== 21 || payload[0] !== 0x41) {
+    return invalid('Must be a base58check Tron address starting with T');
+  }
+
+  return { valid: true, address };
+};
+
+/**
+ * Address validator for each network, keyed like DEFAULT_REQUIRED_CONFIRMATIONS
+ */
+const ADDRESS_VALIDATORS: Record<string, AddressValidator> = {
+  SOLANA: validateSolanaAddress,
+  BITCOIN: validateBitcoinAddress,
+  ETHEREUM: validateEvmAddress,
+  POLYGON: validateEvmAddress,
+  ARBITRUM: validateEvmAddress,
+  OPTIMISM: validateEvmAddress,
+  BINANCE_SMART_CHAIN: validateEvmAddress,
+  TRON: validateTronAddress,
+};
+
+export function registerAddressValidator(network: string, validator: AddressValidator): void {
+  ADDRESS_VALIDATORS[network.toUpperCase()] = validator;
+}
+
+/**
+ * Check an address for a network and return its canonical form
+ * Networks without a registered validator are rejected rather than trusted
+ */
+export function validateAddress(network: string, address: unknown): AddressValidationResult {
+  if (typeof address !== 'string' || address.trim() === '') {
+    return invalid('Address is required');
+  }
+
+  const validator = ADDRESS_VALIDATORS[network.toUpperCase()];
+
+  if (!validator) {
+    return invalid(`Addresses on ${network.toUpperCase()} cannot be validated yet`);
+  }
+
+  return validator(address.trim());
+}
+
+/**
+ * Validate the address fields of a request for one network and return them in canonical form
+ * Empty fields are skipped; invalid ones throw a ValidationError with one entry per field
+ */
+export function normalizeAddressFields<K extends string>(
+  network: string,
+  fields: Partial<Record<K, string | null>>
+): Partial<Record<K, string>> {
+  const normalized: Partial<Record<K, string>> = {};
+  const details: { field: string; message: string; type: string }[] = [];
+
+  for (const field of Object.keys(fields) as K[]) {
+    const value = fields[field];
+    if (value === undefined || value === null || value === '') continue;
+
+    const result = validateAddress(network, value);
+    if (result.valid) {
+      normalized[field] = result.address;
+    } else {
+      details.push({ field, message: result.error, type: 'address.invalid' });
+    }
+  }
+
+  if (details.length > 0) {
+    throw new ValidationError(`Invalid ${network.toUpperCase()} address`, details);
+  }
+
+  return normalized;
+}
@@ -0,0 +1,154 @@
+import { HDKey, Versions } from '@scure/bip32';
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { keccak_256 } from '@noble/hashes/sha3';
+import { sha256 } from '@noble/hashes/sha2';
+import { ripemd160 } from '@noble/hashes/legacy';
+import { bech32, createBase58check, hex } from '@scure/base';
+import { toChecksumAddress } from './addresses';
+import { ValidationError } from '../../common/errors/AppError';
+
+export const DEFAULT_DERIVATION_PATH = '0';
+
+// Highest non-hardened child index (BIP32)
+const MAX_CHILD_INDEX = 0x7fffffff;
+
+type BitcoinScript = 'p2pkh' | 'p2sh-p2wpkh' | 'p2wpkh';
+
+/**
+ * SLIP-132 version bytes; the prefix tells which script type the key's addresses use
+ */
+const EXTENDED_KEY_VERSIONS: Record<string, { versions: Versions; script: BitcoinScript }> = {
+  xpub: { versions: { private: 0x0488ade4, public: 0x0488b21e }, script: 'p2pkh' }, // BIP44
+  ypub: { versions: { private: 0x049d7878, public: 0x049d7cb2 }, script: 'p2sh-p2wpkh' }, // BIP49
+  zpub: { versions: { private: 0x04b2430c, public: 0x04b24746 }, script: 'p2wpkh' }, // BIP84
+};
+
+const base58check = createBase58check(sha256);
+
+const hash160 = (data: Uint8Array): Uint8Array => ripemd160(sha256(data));
+
+function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function bitcoinAddress(publicKey: Uint8Array, script: BitcoinScript): string {
+  const keyHash = hash160(publicKey);
+
+  switch (script) {
+    case 'p2pkh':
+      return base58check.encode(concatBytes(Uint8Array.of(0x00), keyHash));
+    case 'p2sh-p2wpkh':
+      return base58check.encode(
+        concatBytes(Uint8Array.of(0x05), hash160(concatBytes(Uint8Array.of(0x00, 0x14), keyHash)))
+      );
+    case 'p2wpkh':
+      return bech32.encode('bc', [0, ...bech32.toWords(keyHash)]);
+  }
+}
+
+// Last 20 bytes of keccak256 over the uncompressed public key without its 0x04 prefix
+function accountId(publicKey: Uint8Array): Uint8Array {
+  const uncompressed = secp256k1.ProjectivePoint.fromHex(publicKey).toRawBytes(false);
+  return keccak_256(uncompressed.slice(1)).slice(-20);
+}
+
+const evmAddress = (publicKey: Uint8Array): string => toChecksumAddress(`0x${hex.encode(accountId(publicKey))}`);
+
+const tronAddress = (publicKey: Uint8Array): string =>
+  base58check.encode(concatBytes(Uint8Array.of(0x41), accountId(publicKey)));
+
+/**
+ * Address encoder for each network an extended public key can be registered on
+ * Solana is absent on purpose: ed25519 (SLIP-10) only has hardened derivation,
+ * so its addresses cannot be derived from a public key
+ */
+const ADDRESS_ENCODERS: Record<string, (publicKey: Uint8Array, script: BitcoinScript) => string> = {
+  BITCOIN: bitcoinAddress,
+  ETHEREUM: evmAddress,
+  POLYGON: evmAddress,
+  ARBITRUM: evmAddress,
+  OPTIMISM: evmAddress,
+  BINANCE_SMART_CHAIN: evmAddress,
+  TRON: tronAddress,
+};
+
+export function supportsAddressDerivation(network: string): boolean {
+  return network.toUpperCase() in ADDRESS_ENCODERS;
+}
+
+function invalidField(field: string, message: string): ValidationError {
+  return new ValidationError('Invalid extended public key', [{ field, message, type: 'xpub.invalid' }]);
+}
+
+function parseExtendedPublicKey(network: string, xpub: string): { key: HDKey; script: BitcoinScript } {
+  if (!supportsAddressDerivation(network)) {
+    throw invalidField('xpub', `Addresses on ${network.toUpperCase()} cannot be derived from an extended public key`);
+  }
+
+  const prefix = xpub.slice(0, 4);
+
+  if (/^[xyzt]prv$/.test(prefix)) {
+    throw invalidField('xpub', 'This is a private key - only register the extended public key (xpub/ypub/zpub)');
+  }
+
+  const known = EXTENDED_KEY_VERSIONS[prefix];
+  // Segwit script types only mean something on Bitcoin
+  if (!known || (known.script !== 'p2pkh' && network.toUpperCase() !== 'BITCOIN')) {
+    throw invalidField(
+      'xpub',
+      network.toUpperCase() === 'BITCOIN' ? 'Must be an xpub, ypub or zpub' : 'Must be an xpub'
+    );
+  }
+
+  try {
+    return { key: HDKey.fromExtendedKey(xpub, known.versions), script: known.script };
+  } catch {
+    throw invalidField('xpub', 'Extended public key is malformed or its checksum does not match');
+  }
+}
+
+/**
+ * Parse a non-hardened path relative to the extended key ("0" for the external chain)
+ */
+function parseDerivationPath(derivationPath: string): number[] {
+  if (!/^\d+(\/\d+)*$/.test(derivationPath)) {
+    throw invalidField('derivationPath', 'Must be non-hardened child indexes separated by "/", e.g. "0"');
+  }
+
+  const indexes = derivationPath.split('/').map(Number);
+
+  if (indexes.some((index) => index > MAX_CHILD_INDEX)) {
+    throw invalidField('derivationPath', `Child indexes must not exceed ${MAX_CHILD_INDEX}`);
+  }
+
+  return indexes;
+}
+
+/**
+ * Derive the receiving address at `index` below `xpub`/`derivationPath`
+ */
+export function deriveAddress(network: string, xpub: string, derivationPath: string, index: number): string {
+  if (!Number.isInteger(index) || index < 0 || index > MAX_CHILD_INDEX) {
+    throw new RangeError(`Derivation index ${index} is out of range`);
+  }
+
+  const { key, script } = parseExtendedPublicKey(network, xpub);
+  const child = [...parseDerivationPath(derivationPath), index].reduce((node, i) => node.deriveChild(i), key);
+
+  return ADDRESS_ENCODERS[network.toUpperCase()](child.publicKey!, script);
+}
+
+/**
+ * Check an extended public key and derivation path a merchant registers for a network
+ * Throws a ValidationError with field details when either cannot be used
+ */
+export function validateExtendedPublicKey(network: string, xpub: string, derivationPath: string): void {
+  parseExtendedPublicKey(network, xpub);
+  parseDerivationPath(derivationPath);
+}
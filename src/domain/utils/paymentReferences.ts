@@ -0,0 +1,33 @@
+import { randomBytes } from 'crypto';
+import { base58 } from '@scure/base';
+
+/**
+ * How a buyer's wallet attaches the reference to the transaction
+ * - solana-pay-reference: read-only account key added to the transfer (Solana Pay `reference`)
+ */
+export type PaymentReferenceType = 'solana-pay-reference';
+
+interface PaymentReferenceScheme {
+  type: PaymentReferenceType;
+  generate: () => string;
+}
+
+/**
+ * Reference scheme for each network that can carry one, keyed like DEFAULT_REQUIRED_CONFIRMATIONS
+ * Networks without a scheme match payments by address only. A memo network (e.g. Stellar, TON,
+ * XRP) gets its scheme together with an address validator, since wallets cannot be added before
+ */
+const PAYMENT_REFERENCE_SCHEMES: Record<string, PaymentReferenceScheme> = {
+  SOLANA: { type: 'solana-pay-reference', generate: () => base58.encode(randomBytes(32)) },
+};
+
+export function paymentReferenceType(network: string): PaymentReferenceType | null {
+  return PAYMENT_REFERENCE_SCHEMES[network.toUpperCase()]?.type ?? null;
+}
+
+/**
+ * New random reference for a payment on `network`, or null when the network has no memo field
+ */
+export function generatePaymentReference(network: string): string | null {
+  return PAYMENT_REFERENCE_SCHEMES[network.toUpperCase()]?.generate() ?? null;
+}
@@ -0,0 +1,90 @@
+import { Prisma } from '@prisma/client';
+
+export interface PaymentUriInput {
+  network: string;
+  address: string;
+  amount: Prisma.Decimal;
+  decimals: number;
+  // Token contract / mint; null for the network's native coin
+  contractAddress: string | null;
+  reference?: string | null;
+  label?: string | null;
+  message?: string | null;
+}
+
+/**
+ * EIP-155 chain ids of the EVM networks wallets can be added for
+ */
+const EVM_CHAIN_IDS: Record<string, number> = {
+  ETHEREUM: 1,
+  OPTIMISM: 10,
+  BINANCE_SMART_CHAIN: 56,
+  POLYGON: 137,
+  ARBITRUM: 42161,
+};
+
+// Decimal amount without exponent notation, trailing zeros dropped
+const plainAmount = (amount: Prisma.Decimal): string => amount.toFixed();
+
+// Integer amount in the token's smallest unit (wei, token base units)
+const baseUnits = (amount: Prisma.Decimal, decimals: number): string =>
+  amount.mul(new Prisma.Decimal(10).pow(decimals)).toDecimalPlaces(0, Prisma.Decimal.ROUND_UP).toFixed();
+
+function query(params: Record<string, string | null | undefined>): string {
+  const entries = Object.entries(params).filter(([, value]) => value !== undefined && value !== null && value !== '');
+  if (entries.length === 0) return '';
+  return '?' + entries.map(([key, value]) => `${key}=${encodeURIComponent(value!)}`).join('&');
+}
+
+/**
+ * BIP21: bitcoin:<address>?amount=<BTC>&label=&message=
+ */
+function bitcoinUri(input: PaymentUriInput): string {
+  return `bitcoin:${input.address}${query({
+    amount: plainAmount(input.amount),
+    label: input.label,
+    message: input.message,
+  })}`;
+}
+
+/**
+ * EIP-681: ethereum:<to>@<chainId>?value=<wei> for the native coin,
+ * ethereum:<token>@<chainId>/transfer?address=<to>&uint256=<units> for ERC-20 tokens
+ */
+function evmUri(input: PaymentUriInput, chainId: number): string {
+  if (input.contractAddress) {
+    return `ethereum:${input.contractAddress}@${chainId}/transfer${query({
+      address: input.address,
+      uint256: baseUnits(input.amount, input.decimals),
+    })}`;
+  }
+
+  return `ethereum:${input.address}@${chainId}${query({ value: baseUnits(input.amount, input.decimals) })}`;
+}
+
+/**
+ * Solana Pay transfer request: solana:<recipient>?amount=&spl-token=&reference=&label=&message=
+ */
+function solanaPayUri(input: PaymentUriInput): string {
+  return `solana:${input.address}${query({
+    amount: plainAmount(input.amount),
+    'spl-token': input.contractAddress,
+    reference: input.reference,
+    label: input.label,
+    message: input.message,
+  })}`;
+}
+
+/**
+ * Standard wallet deep link paying `amount` to `address`
+ * Null for networks without a widely supported payment URI scheme (e.g. Tron)
+ */
+export function buildPaymentUri(input: PaymentUriInput): string | null {
+  const network = input.network.toUpperCase();
+
+  if (network === 'BITCOIN') return bitcoinUri(input);
+  if (network === 'SOLANA') return solanaPayUri(input);
+  if (network in EVM_CHAIN_IDS) return evmUri(input, EVM_CHAIN_IDS[network]);
+
+  return null;
+}
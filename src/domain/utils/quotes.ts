@@ -0,0 +1,18 @@
+import { Prisma } from '@prisma/client';
+
+// payment_intents.amountCrypto is Decimal(38, 18)
+const MAX_AMOUNT_DECIMALS = 18;
+
+/**
+ * Crypto amount a buyer pays for a fiat amount at the quoted rate (fiat per token)
+ * Rounded up to the token's precision so the buyer never pays less than the fiat amount
+ */
+export function quoteCryptoAmount(
+  amountFiat: Prisma.Decimal,
+  quoteRate: Prisma.Decimal,
+  tokenDecimals: number,
+): Prisma.Decimal {
+  return amountFiat
+    .div(quoteRate)
+    .toDecimalPlaces(Math.min(tokenDecimals, MAX_AMOUNT_DECIMALS), Prisma.Decimal.ROUND_UP);
+}
@@ -0,0 +1,37 @@
+import { RefundStatus } from '@prisma/client';
+import { ConflictError } from '../../common/errors/AppError';
+
+/**
+ * Refund statuses each status may move to
+ * CONFIRMED and CANCELED are terminal; a sent refund can no longer be canceled
+ */
+export const REFUND_TRANSITIONS: Record<RefundStatus, RefundStatus[]> = {
+  REQUESTED: ['APPROVED', 'CANCELED'],
+  APPROVED: ['SENT', 'CANCELED'],
+  SENT: ['CONFIRMED'],
+  CONFIRMED: [],
+  CANCELED: [],
+};
+
+/**
+ * Timestamp column recorded when a refund enters each status
+ */
+export const REFUND_STATUS_TIMESTAMPS = {
+  APPROVED: 'approvedAt',
+  SENT: 'sentAt',
+  CONFIRMED: 'confirmedAt',
+  CANCELED: 'canceledAt',
+} as const;
+
+/**
+ * Throw a 409 when the refund transition is not in the transition table
+ */
+export function assertRefundTransition(from: RefundStatus, to: RefundStatus): void {
+  if (!REFUND_TRANSITIONS[from].includes(to)) {
+    throw new ConflictError(`Invalid refund status transition from ${from} to ${to}`, 'INVALID_REFUND_TRANSITION', {
+      from,
+      to,
+      allowed: REFUND_TRANSITIONS[from],
+    });
+  }
+}
@@ -0,0 +1,89 @@
+import { DateTime } from 'luxon';
+import { CronExpressionParser } from 'cron-parser';
+import { ScheduleCadence } from '@prisma/client';
+
+interface ScheduleTiming {
+  cadence: ScheduleCadence;
+  cronExpression: string | null;
+  startAt: Date;
+  timezone: string;
+}
+
+// Shortest time allowed between two runs of a CRON schedule - each run creates and emails an invoice
+export const MIN_CRON_INTERVAL_HOURS = 24;
+
+// Upcoming runs compared when checking the interval
+const CRON_INTERVAL_SAMPLE_RUNS = 12;
+
+// Milliseconds of local wall-clock time, so a daily run across a 23-hour DST day still counts as a day apart
+const wallClockMs = (date: Date, zone: string): number => {
+  const local = DateTime.fromJSDate(date).setZone(zone);
+  return local.toMillis() + local.offset * 60 * 1000;
+};
+
+/**
+ * Check a cron expression (5 fields, or 6 with seconds); returns the parser's message when invalid
+ */
+export function cronExpressionProblem(expression: string, timezone: string): string | null {
+  try {
+    CronExpressionParser.parse(expression, { tz: timezone }).next();
+    return null;
+  } catch (error: any) {
+    return error?.message ?? 'Invalid cron expression';
+  }
+}
+
+/**
+ * Check that a valid cron expression never runs more often than MIN_CRON_INTERVAL_HOURS
+ * Gaps are measured in the merchant's local time; returns the first too-short gap found
+ */
+export function cronIntervalProblem(expression: string, timezone: string, from: Date = new Date()): string | null {
+  const interval = CronExpressionParser.parse(expression, { currentDate: from, tz: timezone });
+  // A run at a local time skipped by a DST change moves an hour later, so allow one hour of slack;
+  // anything running twice a day still has a gap of 12 hours or less
+  const minGapMs = (MIN_CRON_INTERVAL_HOURS - 1) * 60 * 60 * 1000;
+
+  let previous: number | null = null;
+  for (let i = 0; i < CRON_INTERVAL_SAMPLE_RUNS && interval.hasNext(); i++) {
+    const run = wallClockMs(interval.next().toDate(), timezone || 'UTC');
+
+    if (previous !== null && run - previous < minGapMs) {
+      const gapMinutes = Math.round((run - previous) / 60000);
+      return `runs ${gapMinutes} minute(s) apart; schedules must run at most once every ${MIN_CRON_INTERVAL_HOURS} hours`;
+    }
+    previous = run;
+  }
+
+  return null;
+}
+
+/**
+ * First run of a schedule strictly after `after`, in the merchant's timezone
+ * Weekly and monthly runs count whole periods from startAt rather than from the previous run,
+ * so a schedule starting on the 31st runs on the last day of shorter months without drifting
+ * Runs missed while the scheduler was down are skipped, not generated in a burst
+ */
+export function nextScheduleRunAt(schedule: ScheduleTiming, after: Date): Date | null {
+  const zone = schedule.timezone || 'UTC';
+
+  if (schedule.cadence === 'CRON') {
+    const interval = CronExpressionParser.parse(schedule.cronExpression!, { currentDate: after, tz: zone });
+    return interval.hasNext() ? interval.next().toDate() : null;
+  }
+
+  const start = DateTime.fromJSDate(schedule.startAt).setZone(zone);
+  if (schedule.startAt > after) {
+    return schedule.startAt;
+  }
+
+  const unit = schedule.cadence === 'WEEKLY' ? 'weeks' : 'months';
+  const elapsed = Math.floor(DateTime.fromJSDate(after).setZone(zone).diff(start, unit).get(unit));
+
+  // diff() rounds month lengths, so step forward until the run is really in the future
+  for (let periods = Math.max(elapsed, 0); ; periods++) {
+    const run = start.plus({ [unit]: periods });
+    if (run.toJSDate() > after) {
+      return run.toJSDate();
+    }
+  }
+}
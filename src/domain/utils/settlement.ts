@@ -0,0 +1,80 @@
+import { PaymentStatus, Prisma } from '@prisma/client';
+
+/**
+ * Confirmations required before an on-chain payment is treated as final, by network
+ */
+export const DEFAULT_REQUIRED_CONFIRMATIONS: Record<string, number> = {
+  SOLANA: 1,
+  BITCOIN: 2,
+  ETHEREUM: 12,
+  POLYGON: 64,
+  ARBITRUM: 12,
+  OPTIMISM: 12,
+  BINANCE_SMART_CHAIN: 15,
+  TRON: 20,
+};
+
+export function getRequiredConfirmations(network: string): number {
+  return DEFAULT_REQUIRED_CONFIRMATIONS[network.toUpperCase()] ?? 1;
+}
+
+/**
+ * Lowest amount accepted as full payment given the merchant's tolerance (percent)
+ */
+export function minimumAcceptedAmount(
+  expected: Prisma.Decimal,
+  tolerancePct: Prisma.Decimal | number
+): Prisma.Decimal {
+  const factor = new Prisma.Decimal(100).minus(tolerancePct).div(100);
+  return expected.mul(factor);
+}
+
+/**
+ * Highest amount accepted without flagging an overpayment given the merchant's tolerance (percent)
+ */
+export function maximumAcceptedAmount(
+  expected: Prisma.Decimal,
+  tolerancePct: Prisma.Decimal | number
+): Prisma.Decimal {
+  const factor = new Prisma.Decimal(100).plus(tolerancePct).div(100);
+  return expected.mul(factor);
+}
+
+export type AmountOutcome = 'WITHIN_TOLERANCE' | 'OVERPAID' | 'UNDERPAID';
+
+/**
+ * Compare the received amount with the quoted amount using the merchant's tolerance
+ * on both sides - anything outside the band is an over- or underpayment
+ */
+export function classifyReceivedAmount(
+  expected: Prisma.Decimal,
+  received: Prisma.Decimal,
+  tolerancePct: Prisma.Decimal | number
+): AmountOutcome {
+  if (received.lt(minimumAcceptedAmount(expected, tolerancePct))) {
+    return 'UNDERPAID';
+  }
+  if (received.gt(maximumAcceptedAmount(expected, tolerancePct))) {
+    return 'OVERPAID';
+  }
+  return 'WITHIN_TOLERANCE';
+}
+
+/**
+ * Payment request statuses on-chain evidence may move a request to, by current status
+ * Completed, expired, cancelled and failed requests are final - evidence arriving for them is
+ * kept on the intent and the request's settlement status instead of reopening the request
+ */
+export const EVIDENCE_REQUEST_STATUS_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  PENDING: ['PROCESSING', 'PARTIALLY_PAID', 'COMPLETED'],
+  PROCESSING: ['PARTIALLY_PAID', 'COMPLETED'],
+  PARTIALLY_PAID: ['PROCESSING', 'COMPLETED'],
+  COMPLETED: [],
+  EXPIRED: [],
+  CANCELLED: [],
+  FAILED: [],
+};
+
+export function canAdvanceRequestStatus(from: PaymentStatus, to: PaymentStatus): boolean {
+  return EVIDENCE_REQUEST_STATUS_TRANSITIONS[from].includes(to);
+}
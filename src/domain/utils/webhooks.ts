@@ -0,0 +1,195 @@
+import dns from 'dns';
+import net from 'net';
+import { config } from '../../config';
+import { MerchantTier } from '../entities/Merchant';
+
+/**
+ * Maximum number of webhook endpoints a merchant can register, by tier
+ */
+export const WEBHOOK_LIMITS_BY_TIER: Record<MerchantTier, number> = {
+  TIER_1: 2,
+  TIER_2: 5,
+  TIER_3: 10,
+  TIER_4: 20,
+  TIER_5: 50,
+};
+
+const BLOCKED_HOST_SUFFIXES = ['.localhost', '.local', '.internal'];
+
+function blockList(family: 'ipv4' | 'ipv6', subnets: Array<[string, number]>): net.BlockList {
+  const list = new net.BlockList();
+  for (const [network, prefix] of subnets) {
+    list.addSubnet(network, prefix, family);
+  }
+  return list;
+}
+
+// "This network", private, CGNAT, loopback, link-local, multicast and reserved
+const PRIVATE_IPV4 = blockList('ipv4', [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+  ['224.0.0.0', 3],
+]);
+
+// Unspecified, loopback, unique local, link-local, site-local and multicast
+const PRIVATE_IPV6 = blockList('ipv6', [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['fec0::', 10],
+  ['ff00::', 8],
+]);
+
+/**
+ * IPv6 ranges that carry an IPv4 address, with the index of the 16-bit group it starts at
+ * The embedded address is what the traffic finally reaches, so it is checked on its own
+ */
+const IPV4_EMBEDDING_RANGES: Array<{ range: net.BlockList; group: number }> = [
+  { range: blockList('ipv6', [['::ffff:0:0', 96]]), group: 6 }, // IPv4-mapped
+  { range: blockList('ipv6', [['::', 96]]), group: 6 }, // IPv4-compatible (deprecated)
+  { range: blockList('ipv6', [['64:ff9b::', 96]]), group: 6 }, // NAT64
+  { range: blockList('ipv6', [['2002::', 16]]), group: 1 }, // 6to4
+];
+
+/**
+ * Expand an IPv6 address (compressed, or with a dotted IPv4 tail) into its eight 16-bit groups
+ */
+function ipv6Groups(ip: string): number[] {
+  let address = ip;
+
+  const dotted = address.match(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(1).map(Number);
+    address = `${address.slice(0, dotted.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const parse = (part: string) => (part ? part.split(':').map((group) => parseInt(group, 16)) : []);
+  const [head, tail] = address.split('::');
+  if (tail === undefined) {
+    return parse(head);
+  }
+
+  const headGroups = parse(head);
+  const tailGroups = parse(tail);
+  return [...headGroups, ...new Array(8 - headGroups.length - tailGroups.length).fill(0), ...tailGroups];
+}
+
+function isPrivateIPv4(ip: string): boolean {
+  return PRIVATE_IPV4.check(ip, 'ipv4');
+}
+
+function isPrivateIPv6(ip: string): boolean {
+  // Drop any zone index (fe80::1%eth0), which BlockList does not accept
+  const address = ip.split('%')[0].toLowerCase();
+
+  if (PRIVATE_IPV6.check(address, 'ipv6')) {
+    return true;
+  }
+
+  const embedding = IPV4_EMBEDDING_RANGES.find(({ range }) => range.check(address, 'ipv6'));
+  if (embedding) {
+    const groups = ipv6Groups(address);
+    const high = groups[embedding.group];
+    const low = groups[embedding.group + 1];
+    return isPrivateIPv4(`${high >> 8}.${high & 0xff}.${low >> 8}.${low & 0xff}`);
+  }
+
+  return false;
+}
+
+/**
+ * Check whether an IP address is loopback, private, link-local or otherwise not publicly routable
+ */
+export function isPrivateAddress(ip: string): boolean {
+  if (net.isIPv4(ip)) {
+    return isPrivateIPv4(ip);
+  }
+  if (net.isIPv6(ip)) {
+    return isPrivateIPv6(ip);
+  }
+  return false;
+}
+
+/**
+ * Validate a merchant webhook URL
+ * Only https is accepted. Outside development the host must resolve to public addresses only
+ * Returns an error message, or null when the URL is acceptable
+ */
+export async function validateWebhookUrl(url: string): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'Invalid webhook URL';
+  }
+
+  if (parsed.protocol !== 'https:') {
+    return 'Webhook URL must use https';
+  }
+
+  if (parsed.username || parsed.password) {
+    return 'Webhook URL must not contain credentials';
+  }
+
+  if (config.nodeEnv === 'development') {
+    return null;
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+
+  if (hostname === 'localhost' || BLOCKED_HOST_SUFFIXES.some((suffix) => hostname.endsWith(suffix))) {
+    return 'Webhook URL must not point to a local or internal host';
+  }
+
+  if (net.isIP(hostname)) {
+    return isPrivateAddress(hostname) ? 'Webhook URL must not point to a private address' : null;
+  }
+
+  let addresses: dns.LookupAddress[];
+  try {
+    addresses = await dns.promises.lookup(hostname, { all: true });
+  } catch {
+    return 'Webhook URL host could not be resolved';
+  }
+
+  if (addresses.some(({ address }) => isPrivateAddress(address))) {
+    return 'Webhook URL must not point to a private address';
+  }
+
+  return null;
+}
+
+/**
+ * dns.lookup for webhook delivery sockets that refuses private addresses
+ * Checking the address the socket actually connects to means a hostname validated at
+ * registration cannot later be re-pointed (DNS rebinding) at internal services
+ */
+export function publicAddressLookup(
+  hostname: string,
+  options: dns.LookupOptions,
+  callback: (err: NodeJS.ErrnoException | null, address: string | dns.LookupAddress[], family?: number) => void,
+): void {
+  dns.lookup(hostname, options, (err, address: string | dns.LookupAddress[], family?: number) => {
+    if (err) {
+      callback(err, address, family);
+      return;
+    }
+
+    const resolved = Array.isArray(address) ? address.map((entry) => entry.address) : [address];
+
+    if (config.nodeEnv !== 'development' && resolved.some(isPrivateAddress)) {
+      const error: NodeJS.ErrnoException = new Error(`Webhook host ${hostname} resolves to a private address`);
+      error.code = 'EWEBHOOKPRIVATEADDRESS';
+      callback(error, address, family);
+      return;
+    }
+
+    callback(null, address, family);
+  });
+}
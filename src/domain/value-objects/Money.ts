@@ -1,6 +1,17 @@
 import { ValidationError } from '../../common/errors/AppError';
 import { Decimal } from '@prisma/client/runtime/library';
 
+/**
+ * Fiat currencies merchants can price in - each must be a vs-currency the price feed quotes
+ */
+export const SUPPORTED_FIAT_CURRENCIES = ['USD', 'EUR', 'GBP'] as const;
+
+export type FiatCurrency = (typeof SUPPORTED_FIAT_CURRENCIES)[number];
+
+export function isSupportedFiatCurrency(currency: string): currency is FiatCurrency {
+  return (SUPPORTED_FIAT_CURRENCIES as readonly string[]).includes(currency);
+}
+
 /**
  * Money Value Object
  * Represents monetary amounts with currency
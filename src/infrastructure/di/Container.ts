@@ -9,7 +9,37 @@ import { PrismaSuperAdminRepository } from '../repositories/PrismaSuperAdminRepo
 import { PrismaPaymentRequestRepository } from '../repositories/PrismaPaymentRequestRepository';
 import { SendGridEmailService } from '../services/SendGridEmailService';
 import { BullWebhookService } from '../services/BullWebhookService';
+import { OutboxDispatcher } from '../workers/OutboxDispatcher';
+import { ExpirySweeper } from '../workers/ExpirySweeper';
+import { PaymentScheduler } from '../workers/PaymentScheduler';
+import { PriceProvider } from '../pricing/PriceProvider';
+import { PriceAggregator } from '../pricing/PriceAggregator';
+import { CoinGeckoPriceProvider } from '../pricing/CoinGeckoPriceProvider';
+import { FixedRatePriceProvider } from '../pricing/FixedRatePriceProvider';
+import { FilePriceProvider } from '../pricing/FilePriceProvider';
 import { prisma } from '../database/client';
+import { config } from '../../config';
+
+/**
+ * Price providers named in PRICE_PROVIDERS, in order
+ */
+function createPriceProviders(): PriceProvider[] {
+  return config.pricing.providers.map((name) => {
+    switch (name) {
+      case 'coingecko':
+        return new CoinGeckoPriceProvider(config.cache.priceCacheTTL);
+      case 'fixed':
+        return new FixedRatePriceProvider(FixedRatePriceProvider.parseRates(config.pricing.fixedRates));
+      case 'file':
+        if (!config.pricing.filePath) {
+          throw new Error('PRICE_FILE_PATH is required for the file price provider');
+        }
+        return new FilePriceProvider(config.pricing.filePath);
+      default:
+        throw new Error(`Unknown price provider: ${name}`);
+    }
+  });
+}
 
 /**
  * Dependency Injection Container
@@ -26,6 +56,12 @@ export class Container {
   // Services
   public readonly emailService: IEmailService;
   public readonly webhookService: IWebhookService;
+  public readonly priceService: PriceAggregator;
+
+  // Workers
+  public readonly outboxDispatcher: OutboxDispatcher;
+  public readonly expirySweeper: ExpirySweeper;
+  public readonly paymentScheduler: PaymentScheduler;
 
   // Infrastructure
   public readonly prisma: PrismaClient;
@@ -40,7 +76,16 @@ export class Container {
 
     // Initialize services
     this.emailService = new SendGridEmailService();
-    this.webhookService = new BullWebhookService(this.emailService);
+    this.webhookService = new BullWebhookService(this.emailService, this.prisma);
+    this.priceService = new PriceAggregator(createPriceProviders(), {
+      maxDeviationPct: config.pricing.maxDeviationPct,
+      maxQuoteAgeSeconds: config.pricing.maxQuoteAgeSeconds,
+    });
+
+    // Initialize workers
+    this.outboxDispatcher = new OutboxDispatcher(this.prisma, this.webhookService);
+    this.expirySweeper = new ExpirySweeper(this.prisma);
+    this.paymentScheduler = new PaymentScheduler(this.prisma, this.emailService);
   }
 
   static getInstance(): Container {
@@ -51,6 +96,9 @@ export class Container {
   }
 
   async shutdown(): Promise<void> {
+    await this.outboxDispatcher.stop();
+    await this.expirySweeper.stop();
+    await this.paymentScheduler.stop();
     if ('shutdown' in this.webhookService) { await (this.webhookService as any).shutdown(); }
     await this.prisma.$disconnect();
   }
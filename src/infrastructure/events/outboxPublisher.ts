@@ -0,0 +1,60 @@
+import { Prisma } from '@prisma/client';
+import { DomainEvent } from '../../domain/events/DomainEvent';
+
+/**
+ * Anything that collects domain events while its state changes
+ */
+export interface EventSourcedAggregate {
+  getDomainEvents(): DomainEvent[];
+  clearDomainEvents(): void;
+}
+
+/**
+ * Serialize a domain event into the outbox payload shape
+ */
+export function toOutboxPayload(event: DomainEvent): Prisma.InputJsonObject {
+  return JSON.parse(
+    JSON.stringify({
+      event: event.getEventName(),
+      ...event,
+    }),
+  );
+}
+
+/**
+ * Persist domain events to events.outbox using the caller's transaction client
+ * The event row commits (or rolls back) together with the state change that raised it
+ * Pass a webhookId to deliver the events to that single webhook instead of all subscribers
+ */
+export async function publishDomainEvents(
+  tx: Prisma.TransactionClient,
+  events: DomainEvent[],
+  options: { webhookId?: string } = {},
+): Promise<void> {
+  if (events.length === 0) {
+    return;
+  }
+
+  await tx.outbox.createMany({
+    data: events.map((event) => ({
+      id: event.eventId,
+      eventType: event.getEventName(),
+      aggregateId: event.getAggregateId(),
+      merchantId: event.getMerchantId(),
+      webhookId: options.webhookId ?? null,
+      payload: toOutboxPayload(event),
+      createdAt: event.occurredAt,
+    })),
+  });
+}
+
+/**
+ * Persist the events an aggregate collected and clear them from the aggregate
+ */
+export async function publishAggregateEvents(
+  tx: Prisma.TransactionClient,
+  aggregate: EventSourcedAggregate,
+): Promise<void> {
+  await publishDomainEvents(tx, aggregate.getDomainEvents());
+  aggregate.clearDomainEvents();
+}
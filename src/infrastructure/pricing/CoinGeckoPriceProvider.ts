@@ -0,0 +1,111 @@
+import axios from 'axios';
+import CircuitBreaker from 'opossum';
+import { redis } from '../cache/redis';
+import { logger } from '../../common/logger';
+import { FiatCurrency } from '../../domain/value-objects/Money';
+import { PriceAsset, PriceProvider, PriceQuote } from './PriceProvider';
+
+const COINGECKO_API = 'https://api.coingecko.com/api/v3';
+const STALE_CACHE_TTL = 3600; // 1 hour - served when the API is down, with its real age
+
+interface CachedPrice {
+  price: number;
+  fetchedAt: number;
+}
+
+const COIN_IDS: Record<string, string> = {
+  SOL: 'solana',
+  ETH: 'ethereum',
+  BTC: 'bitcoin',
+  USDC: 'usd-coin',
+  USDT: 'tether',
+};
+
+/**
+ * CoinGecko simple/price API behind a circuit breaker, cached in Redis per coin and currency
+ * Catalog tokens name their CoinGecko id in priceIds.coingecko; the built-in map covers the rest
+ */
+export class CoinGeckoPriceProvider implements PriceProvider {
+  readonly name = 'coingecko';
+  private readonly circuitBreaker: CircuitBreaker<[string, string], number>;
+
+  constructor(private readonly cacheTtlSeconds: number) {
+    this.circuitBreaker = new CircuitBreaker(this.fetchPriceFromAPI.bind(this), {
+      timeout: 5000,
+      errorThresholdPercentage: 50, // Open circuit if 50% of requests fail
+      resetTimeout: 30000, // Try again after 30 seconds
+      rollingCountTimeout: 10000,
+      rollingCountBuckets: 10,
+      name: 'CoinGeckoPriceProvider',
+    });
+
+    this.circuitBreaker.on('open', () => {
+      logger.warn('CoinGecko circuit breaker opened - too many failures');
+    });
+
+    this.circuitBreaker.on('close', () => {
+      logger.info('CoinGecko circuit breaker closed - service recovered');
+    });
+  }
+
+  private async fetchPriceFromAPI(coinId: string, vsCurrency: string): Promise<number> {
+    const response = await axios.get(`${COINGECKO_API}/simple/price`, {
+      params: {
+        ids: coinId,
+        vs_currencies: vsCurrency,
+      },
+      timeout: 5000,
+    });
+
+    const price = response.data[coinId]?.[vsCurrency];
+    if (!price) {
+      throw new Error(`No ${vsCurrency} price data for ${coinId}`);
+    }
+
+    return price;
+  }
+
+  async getQuote(asset: PriceAsset, currency: FiatCurrency): Promise<PriceQuote | null> {
+    const upperSymbol = asset.symbol.toUpperCase();
+    const coinId = asset.priceIds?.[this.name] ?? COIN_IDS[upperSymbol];
+    if (!coinId) {
+      return null;
+    }
+
+    // Keyed by CoinGecko id - two catalog tokens may share a symbol
+    const cacheKey = `price:${coinId}:${currency}`;
+    const toQuote = (cached: CachedPrice): PriceQuote => ({
+      symbol: upperSymbol,
+      currency,
+      price: cached.price,
+      source: this.name,
+      fetchedAt: new Date(cached.fetchedAt),
+    });
+
+    const cached = await redis.get(cacheKey);
+    const cachedPrice: CachedPrice | null = cached ? JSON.parse(cached) : null;
+
+    if (cachedPrice && Date.now() - cachedPrice.fetchedAt < this.cacheTtlSeconds * 1000) {
+      return toQuote(cachedPrice);
+    }
+
+    try {
+      const price = await this.circuitBreaker.fire(coinId, currency.toLowerCase());
+      const fresh: CachedPrice = { price, fetchedAt: Date.now() };
+
+      await redis.set(cacheKey, JSON.stringify(fresh), 'EX', STALE_CACHE_TTL);
+      return toQuote(fresh);
+    } catch (error: any) {
+      if (cachedPrice) {
+        logger.warn('CoinGecko unavailable, serving cached price', {
+          symbol: upperSymbol,
+          currency,
+          ageSeconds: Math.round((Date.now() - cachedPrice.fetchedAt) / 1000),
+          error: error.message,
+        });
+        return toQuote(cachedPrice);
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,52 @@
+import { readFile, stat } from 'fs/promises';
+import { FiatCurrency } from '../../domain/value-objects/Money';
+import { PriceAsset, PriceProvider, PriceQuote } from './PriceProvider';
+
+interface PriceFile {
+  updatedAt?: string;
+  prices: Record<string, Partial<Record<FiatCurrency, number>>>;
+}
+
+/**
+ * Prices read from a local JSON file - a stand-in when no price API is reachable
+ *
+ *   { "updatedAt": "2025-01-01T00:00:00Z", "prices": { "SOL": { "USD": 150, "EUR": 138 } } }
+ *
+ * Quotes are as old as updatedAt (or the file's modification time), so an unmaintained
+ * file ages out under the aggregator's maximum quote age.
+ */
+export class FilePriceProvider implements PriceProvider {
+  readonly name = 'file';
+  private cache: { mtimeMs: number; file: PriceFile } | null = null;
+
+  constructor(private readonly filePath: string) {}
+
+  private async load(): Promise<{ file: PriceFile; fetchedAt: Date }> {
+    const { mtimeMs } = await stat(this.filePath);
+
+    if (!this.cache || this.cache.mtimeMs !== mtimeMs) {
+      const file = JSON.parse(await readFile(this.filePath, 'utf8')) as PriceFile;
+      if (!file || typeof file.prices !== 'object') {
+        throw new Error(`Price file ${this.filePath} has no "prices" object`);
+      }
+      this.cache = { mtimeMs, file };
+    }
+
+    const updatedAt = this.cache.file.updatedAt ? new Date(this.cache.file.updatedAt) : null;
+    const fetchedAt = updatedAt && !isNaN(updatedAt.getTime()) ? updatedAt : new Date(mtimeMs);
+
+    return { file: this.cache.file, fetchedAt };
+  }
+
+  async getQuote(asset: PriceAsset, currency: FiatCurrency): Promise<PriceQuote | null> {
+    const upperSymbol = asset.symbol.toUpperCase();
+    const { file, fetchedAt } = await this.load();
+    const price = file.prices[upperSymbol]?.[currency];
+
+    if (typeof price !== 'number' || price <= 0) {
+      return null;
+    }
+
+    return { symbol: upperSymbol, currency, price, source: this.name, fetchedAt };
+  }
+}
@@ -0,0 +1,42 @@
+import { FiatCurrency } from '../../domain/value-objects/Money';
+import { PriceAsset, PriceProvider, PriceQuote } from './PriceProvider';
+
+/**
+ * Constant prices, always fresh - for tests and local development
+ * Rates are keyed "SYMBOL:CURRENCY", e.g. { 'SOL:USD': 150 }
+ */
+export class FixedRatePriceProvider implements PriceProvider {
+  constructor(
+    private readonly rates: Record<string, number>,
+    readonly name: string = 'fixed'
+  ) {}
+
+  /**
+   * Parse a rate list like "SOL:USD=150,USDC:EUR=0.92"
+   */
+  static parseRates(spec: string): Record<string, number> {
+    const rates: Record<string, number> = {};
+
+    for (const entry of spec.split(',').map((part) => part.trim()).filter(Boolean)) {
+      const [pair, value] = entry.split('=');
+      const price = Number(value);
+      if (!pair || !pair.includes(':') || !Number.isFinite(price) || price <= 0) {
+        throw new Error(`Invalid fixed price rate: ${entry}`);
+      }
+      rates[pair.trim().toUpperCase()] = price;
+    }
+
+    return rates;
+  }
+
+  async getQuote(asset: PriceAsset, currency: FiatCurrency): Promise<PriceQuote | null> {
+    const upperSymbol = asset.symbol.toUpperCase();
+    const price = this.rates[`${upperSymbol}:${currency}`];
+
+    if (price === undefined) {
+      return null;
+    }
+
+    return { symbol: upperSymbol, currency, price, source: this.name, fetchedAt: new Date() };
+  }
+}
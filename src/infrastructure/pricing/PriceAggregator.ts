@@ -0,0 +1,207 @@
+import { logger } from '../../common/logger';
+import { BadRequestError, ServiceUnavailableError } from '../../common/errors/AppError';
+import { FiatCurrency, isSupportedFiatCurrency } from '../../domain/value-objects/Money';
+import { PriceAsset, PriceProvider, PriceQuote } from './PriceProvider';
+
+export interface SourcedPrice {
+  source: string;
+  price: number;
+  fetchedAt: Date;
+  ageSeconds: number;
+}
+
+export interface RejectedPrice extends SourcedPrice {
+  reason: 'stale' | 'outlier';
+}
+
+/**
+ * Median of the accepted source prices, with every source that went into it
+ * fetchedAt/ageSeconds are those of the oldest accepted source
+ */
+export interface AggregatedPriceQuote {
+  symbol: string;
+  currency: FiatCurrency;
+  price: number;
+  fetchedAt: Date;
+  ageSeconds: number;
+  sources: SourcedPrice[];
+  rejected: RejectedPrice[];
+}
+
+interface PriceAggregatorOptions {
+  maxDeviationPct: number; // sources further than this from the median are dropped
+  maxQuoteAgeSeconds: number; // quotes older than this are not used for new intents
+}
+
+interface QuoteOptions {
+  maxAgeSeconds?: number;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+function toFiatCurrency(currency: string): FiatCurrency {
+  const upper = currency.toUpperCase();
+  if (!isSupportedFiatCurrency(upper)) {
+    throw new BadRequestError(`Unsupported fiat currency: ${currency}`, 'UNSUPPORTED_CURRENCY');
+  }
+  return upper;
+}
+
+/**
+ * Combines several price providers into one quote
+ *
+ * All providers are asked in parallel; failing providers are logged and skipped. Quotes older
+ * than the allowed age are dropped, then the median is taken and sources deviating from it by
+ * more than maxDeviationPct are rejected as outliers before the final median. With only two
+ * sources that disagree, both are rejected - there is no majority to trust.
+ */
+export class PriceAggregator {
+  constructor(
+    private readonly providers: PriceProvider[],
+    private readonly options: PriceAggregatorOptions
+  ) {}
+
+  get providerNames(): string[] {
+    return this.providers.map((provider) => provider.name);
+  }
+
+  /**
+   * Aggregated price of a coin (a symbol, or a catalog token's price ids); pass maxAgeSeconds
+   * to ignore older source quotes
+   */
+  async getQuote(
+    coin: string | PriceAsset,
+    currency: string = 'USD',
+    opts: QuoteOptions = {}
+  ): Promise<AggregatedPriceQuote> {
+    const fiat = toFiatCurrency(currency);
+    const asset = typeof coin === 'string' ? { symbol: coin } : coin;
+    const upperSymbol = asset.symbol.toUpperCase();
+
+    const settled = await Promise.allSettled(
+      this.providers.map((provider) => provider.getQuote({ ...asset, symbol: upperSymbol }, fiat))
+    );
+
+    const quotes: PriceQuote[] = [];
+    let failures = 0;
+
+    settled.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        failures++;
+        logger.warn('Price provider failed', {
+          provider: this.providers[index].name,
+          symbol: upperSymbol,
+          currency: fiat,
+          error: result.reason?.message,
+        });
+      } else if (result.value && result.value.price > 0) {
+        quotes.push(result.value);
+      }
+    });
+
+    if (quotes.length === 0) {
+      if (failures > 0) {
+        throw new ServiceUnavailableError(`Price for ${upperSymbol} is currently unavailable`);
+      }
+      throw new BadRequestError(`No price source quotes ${upperSymbol} in ${fiat}`, 'UNSUPPORTED_COIN');
+    }
+
+    const now = Date.now();
+    const sourced = quotes.map((quote) => ({
+      source: quote.source,
+      price: quote.price,
+      fetchedAt: quote.fetchedAt,
+      ageSeconds: Math.max(Math.round((now - quote.fetchedAt.getTime()) / 1000), 0),
+    }));
+
+    const rejected: RejectedPrice[] = [];
+    const fresh = sourced.filter((quote) => {
+      if (opts.maxAgeSeconds !== undefined && quote.ageSeconds > opts.maxAgeSeconds) {
+        rejected.push({ ...quote, reason: 'stale' });
+        return false;
+      }
+      return true;
+    });
+
+    if (fresh.length === 0) {
+      throw new ServiceUnavailableError(
+        `Price for ${upperSymbol} is stale (older than ${opts.maxAgeSeconds}s)`
+      );
+    }
+
+    const center = median(fresh.map((quote) => quote.price));
+    const accepted = fresh.filter((quote) => {
+      if ((Math.abs(quote.price - center) / center) * 100 > this.options.maxDeviationPct) {
+        rejected.push({ ...quote, reason: 'outlier' });
+        return false;
+      }
+      return true;
+    });
+
+    if (rejected.some((quote) => quote.reason === 'outlier')) {
+      logger.warn('Price outliers rejected', {
+        symbol: upperSymbol,
+        currency: fiat,
+        median: center,
+        rejected: rejected.filter((quote) => quote.reason === 'outlier').map((quote) => `${quote.source}=${quote.price}`),
+      });
+    }
+
+    if (accepted.length === 0) {
+      throw new ServiceUnavailableError(`Price sources disagree on ${upperSymbol}`);
+    }
+
+    const oldest = accepted.reduce((a, b) => (a.fetchedAt <= b.fetchedAt ? a : b));
+
+    return {
+      symbol: upperSymbol,
+      currency: fiat,
+      price: median(accepted.map((quote) => quote.price)),
+      fetchedAt: oldest.fetchedAt,
+      ageSeconds: oldest.ageSeconds,
+      sources: accepted,
+      rejected,
+    };
+  }
+
+  /**
+   * Quote for pricing a new payment intent - only sources within the configured maximum age count
+   */
+  async getFreshQuote(coin: string | PriceAsset, currency: string = 'USD'): Promise<AggregatedPriceQuote> {
+    return this.getQuote(coin, currency, { maxAgeSeconds: this.options.maxQuoteAgeSeconds });
+  }
+
+  /**
+   * Convert a fiat amount to the coin at the current aggregated price (for display)
+   */
+  async convertFiatToCrypto(
+    fiatAmount: number,
+    coin: string | PriceAsset,
+    currency: string = 'USD'
+  ): Promise<{ amount: number; quote: AggregatedPriceQuote }> {
+    const quote = await this.getQuote(coin, currency);
+    return { amount: fiatAmount / quote.price, quote };
+  }
+
+  /**
+   * Aggregated quotes for several coins; coins that cannot be priced map to null
+   */
+  async getQuotes(symbols: string[], currency: string = 'USD'): Promise<Record<string, AggregatedPriceQuote | null>> {
+    const entries = await Promise.all(
+      symbols.map(async (symbol) => {
+        try {
+          return [symbol, await this.getQuote(symbol, currency)] as const;
+        } catch (error: any) {
+          logger.warn('Failed to get price', { symbol, currency, error: error.message });
+          return [symbol, null] as const;
+        }
+      })
+    );
+
+    return Object.fromEntries(entries);
+  }
+}
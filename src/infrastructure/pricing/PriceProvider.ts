@@ -0,0 +1,37 @@
+import { FiatCurrency } from '../../domain/value-objects/Money';
+
+/**
+ * Coin to price: its symbol, plus provider-specific ids from the token catalog
+ */
+export interface PriceAsset {
+  symbol: string;
+  priceIds?: Record<string, string>; // provider name -> the provider's id for the coin
+}
+
+/**
+ * One price observation from a single source
+ */
+export interface PriceQuote {
+  symbol: string;
+  currency: FiatCurrency;
+  price: number;
+  source: string;
+  fetchedAt: Date;
+}
+
+/**
+ * Price Provider Interface
+ * A source of coin prices in fiat; the aggregator combines several of them
+ */
+export interface PriceProvider {
+  /**
+   * Name reported as the quote source
+   */
+  readonly name: string;
+
+  /**
+   * Current price of the coin, or null when this provider does not quote the pair
+   * Throws when the provider is unreachable
+   */
+  getQuote(asset: PriceAsset, currency: FiatCurrency): Promise<PriceQuote | null>;
+}
@@ -5,6 +5,7 @@ import { PIN } from '../../domain/value-objects/PIN';
 import { ApiKey } from '../../domain/value-objects/ApiKey';
 import { PrismaClient } from '@prisma/client';
 import { NotFoundError } from '../../common/errors/AppError';
+import { publishAggregateEvents } from '../events/outboxPublisher';
 
 /**
  * Prisma implementation of Merchant Repository
@@ -75,15 +76,16 @@ export class PrismaMerchantRepository implements IMerchantRepository {
   async save(merchant: Merchant): Promise<void> {
     const data = this.toPersistence(merchant);
 
-    await this.prisma.merchant.upsert({
-      where: { id: merchant.getId() },
-      create: data,
-      update: data,
-    });
+    await this.prisma.$transaction(async (tx) => {
+      await tx.merchant.upsert({
+        where: { id: merchant.getId() },
+        create: data,
+        update: data,
+      });
 
-    // Publish domain events (for now, we'll skip event publishing infrastructure)
-    // In a full implementation, you'd have an event bus here
-    merchant.clearDomainEvents();
+      // Domain events are stored in the outbox in the same transaction as the state change
+      await publishAggregateEvents(tx, merchant);
+    });
   }
 
   async delete(id: string): Promise<void> {
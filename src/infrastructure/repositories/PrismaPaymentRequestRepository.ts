@@ -2,6 +2,7 @@ import { IPaymentRequestRepository } from '../../domain/repositories/IPaymentReq
 import { PaymentRequest, PaymentRequestProps, PaymentStatus, SettlementStatus } from '../../domain/entities/PaymentRequest';
 import { Money } from '../../domain/value-objects/Money';
 import { PrismaClient } from '@prisma/client';
+import { publishAggregateEvents } from '../events/outboxPublisher';
 
 /**
  * Prisma implementation of PaymentRequest Repository
@@ -36,13 +37,15 @@ export class PrismaPaymentRequestRepository implements IPaymentRequestRepository
   async save(paymentRequest: PaymentRequest): Promise<void> {
     const data = this.toPersistence(paymentRequest);
 
-    await this.prisma.paymentRequest.upsert({
-      where: { id: paymentRequest.getId() },
-      create: data,
-      update: data,
-    });
+    await this.prisma.$transaction(async (tx) => {
+      await tx.paymentRequest.upsert({
+        where: { id: paymentRequest.getId() },
+        create: data,
+        update: data,
+      });
 
-    paymentRequest.clearDomainEvents();
+      await publishAggregateEvents(tx, paymentRequest);
+    });
   }
 
   async findByMerchantId(
@@ -134,7 +137,7 @@ export class PrismaPaymentRequestRepository implements IPaymentRequestRepository
       updatedAt: data.updatedAt,
     };
 
-    return PaymentRequest.create(props);
+    return PaymentRequest.reconstitute(props);
   }
 
   /**
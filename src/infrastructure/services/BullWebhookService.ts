@@ -3,17 +3,33 @@ import { Queue, Worker, Job } from 'bullmq';
 import { redis } from '../cache/redis';
 import { logger } from '../../common/logger';
 import axios from 'axios';
+import crypto from 'crypto';
+import https from 'https';
 import { IEmailService } from './IEmailService';
+import { PrismaClient } from '@prisma/client';
+import { config } from '../../config';
+import { buildSignatureHeader, SIGNATURE_HEADER } from '../../common/webhooks/signature';
+import { publicAddressLookup, validateWebhookUrl } from '../../domain/utils/webhooks';
 
 interface WebhookPayload {
   merchantId: string;
   webhookUrl: string;
   event: string;
   data: any;
-  signature: string;
   merchantEmail?: string;
+  webhookId?: string;
+  eventId?: string;
+  trigger?: WebhookDeliveryTrigger;
 }
 
+type WebhookDeliveryTrigger = 'event' | 'test' | 'redelivery' | 'replay';
+
+// Response bodies are stored for debugging only - keep the log rows small
+const MAX_LOGGED_RESPONSE_LENGTH = 2048;
+
+// Delivery sockets resolve hosts through publicAddressLookup, so a rebound DNS record cannot reach internal services
+const deliveryAgent = new https.Agent({ keepAlive: true, lookup: publicAddressLookup });
+
 /**
  * BullMQ implementation of Webhook Service
  * Uses Redis-backed queue with automatic retries
@@ -22,7 +38,10 @@ export class BullWebhookService implements IWebhookService {
   private queue: Queue<WebhookPayload>;
   private worker: Worker<WebhookPayload>;
 
-  constructor(private emailService: IEmailService) {
+  constructor(
+    private emailService: IEmailService,
+    private prisma: PrismaClient,
+  ) {
     // Create queue
     this.queue = new Queue<WebhookPayload>('webhooks', {
       connection: redis,
@@ -97,17 +116,30 @@ export class BullWebhookService implements IWebhookService {
     webhookUrl: string;
     event: string;
     data: any;
-    signature: string;
     merchantEmail?: string;
+    webhookId?: string;
+    eventId?: string;
+    trigger?: WebhookDeliveryTrigger;
   }): Promise<void> {
-    await this.queue.add('deliver', payload, {
-      jobId: `webhook-${payload.merchantId}-${Date.now()}`,
-    });
+    // Outbox deliveries get a deterministic job ID so a re-dispatched event is not queued twice.
+    // Manual redeliveries and replays of the same event must not be deduplicated against it
+    const trigger = payload.trigger ?? 'event';
+    let jobId: string;
+    if (payload.webhookId && payload.eventId) {
+      jobId = trigger === 'redelivery' || trigger === 'replay'
+        ? `webhook-${payload.webhookId}-${payload.eventId}-${trigger}-${crypto.randomUUID()}`
+        : `webhook-${payload.webhookId}-${payload.eventId}`;
+    } else {
+      jobId = `webhook-${payload.merchantId}-${Date.now()}`;
+    }
+
+    await this.queue.add('deliver', payload, { jobId });
 
     logger.info('Webhook queued for delivery', {
       merchantId: payload.merchantId,
       event: payload.event,
       url: payload.webhookUrl,
+      trigger,
     });
   }
 
@@ -142,38 +174,263 @@ export class BullWebhookService implements IWebhookService {
     };
   }
 
+  /**
+   * Secrets the merchant's receivers may be verifying with
+   * The previous secret is included until its rotation grace window ends
+   */
+  private async getSigningSecrets(merchantId: string): Promise<string[]> {
+    const merchant = await this.prisma.merchant.findUnique({
+      where: { id: merchantId },
+      select: {
+        webhookSecret: true,
+        previousWebhookSecret: true,
+        previousWebhookSecretExpiresAt: true,
+      },
+    });
+
+    if (!merchant) {
+      throw new Error(`Merchant ${merchantId} not found`);
+    }
+
+    const secrets = [merchant.webhookSecret];
+
+    if (
+      merchant.previousWebhookSecret &&
+      merchant.previousWebhookSecretExpiresAt &&
+      merchant.previousWebhookSecretExpiresAt > new Date()
+    ) {
+      secrets.push(merchant.previousWebhookSecret);
+    }
+
+    return secrets;
+  }
+
+  /**
+   * Store one delivery attempt in events.webhook_deliveries
+   * Logging failures are swallowed so they never turn a delivered webhook into a retry
+   */
+  private async recordDelivery(
+    job: Job<WebhookPayload>,
+    requestBody: string,
+    result: {
+      success: boolean;
+      latencyMs: number;
+      responseStatus?: number;
+      responseBody?: unknown;
+      error?: string;
+    },
+  ): Promise<void> {
+    const { webhookId, merchantId, eventId, event, trigger } = job.data;
+
+    if (!webhookId) {
+      return;
+    }
+
+    let responseBody: string | null = null;
+    if (result.responseBody !== undefined && result.responseBody !== null) {
+      const text = typeof result.responseBody === 'string'
+        ? result.responseBody
+        : JSON.stringify(result.responseBody);
+      responseBody = text.slice(0, MAX_LOGGED_RESPONSE_LENGTH);
+    }
+
+    try {
+      await this.prisma.webhookDelivery.create({
+        data: {
+          webhookId,
+          merchantId,
+          eventId: eventId ?? null,
+          eventType: event,
+          trigger: trigger ?? 'event',
+          attempt: job.attemptsMade + 1,
+          requestBody,
+          responseStatus: result.responseStatus ?? null,
+          responseBody,
+          latencyMs: result.latencyMs,
+          success: result.success,
+          error: result.error ?? null,
+        },
+      });
+    } catch (error: any) {
+      logger.error('Failed to record webhook delivery', {
+        jobId: job.id,
+        webhookId,
+        error: error.message,
+      });
+    }
+  }
+
+  /**
+   * Update the endpoint's health counters after an attempt and
+   * auto-disable it once consecutive failures reach the configured threshold
+   */
+  private async updateEndpointHealth(
+    job: Job<WebhookPayload>,
+    success: boolean,
+    lastError?: string,
+  ): Promise<void> {
+    const { webhookId, merchantId, merchantEmail } = job.data;
+
+    if (!webhookId) {
+      return;
+    }
+
+    const now = new Date();
+
+    try {
+      if (success) {
+        await this.prisma.webhook.updateMany({
+          where: { id: webhookId },
+          data: { consecutiveFailures: 0, lastSuccessAt: now },
+        });
+        return;
+      }
+
+      const webhook = await this.prisma.webhook.update({
+        where: { id: webhookId },
+        data: {
+          consecutiveFailures: { increment: 1 },
+          lastFailureAt: now,
+        },
+        select: { url: true, consecutiveFailures: true },
+      });
+
+      const threshold = config.webhooks.autoDisableThreshold;
+      if (threshold <= 0 || webhook.consecutiveFailures < threshold) {
+        return;
+      }
+
+      const disabledReason = `Disabled after ${webhook.consecutiveFailures} consecutive failed deliveries`;
+
+      // Only the attempt that flips enabled -> false notifies the merchant
+      const { count } = await this.prisma.webhook.updateMany({
+        where: { id: webhookId, enabled: true },
+        data: { enabled: false, disabledAt: now, disabledReason },
+      });
+
+      if (count === 0) {
+        return;
+      }
+
+      await this.prisma.auditLog.create({
+        data: {
+          merchantId,
+          action: 'WEBHOOK_AUTO_DISABLED',
+          resourceId: webhookId,
+          payload: {
+            url: webhook.url,
+            consecutiveFailures: webhook.consecutiveFailures,
+            lastError: lastError ?? null,
+          },
+        },
+      });
+
+      logger.warn('Webhook endpoint auto-disabled', {
+        webhookId,
+        merchantId,
+        consecutiveFailures: webhook.consecutiveFailures,
+      });
+
+      if (merchantEmail) {
+        await this.emailService.sendWebhookDisabledNotification(merchantEmail, {
+          url: webhook.url,
+          consecutiveFailures: webhook.consecutiveFailures,
+          lastError: lastError ?? 'Unknown error',
+        });
+      }
+    } catch (error: any) {
+      logger.error('Failed to update webhook endpoint health', {
+        jobId: job.id,
+        webhookId,
+        error: error.message,
+      });
+    }
+  }
+
   /**
    * Deliver webhook to merchant endpoint
+   * Each attempt is signed over its own timestamp and the exact body sent, and logged to Postgres
    */
   private async deliverWebhook(job: Job<WebhookPayload>): Promise<void> {
-    const { webhookUrl, event, data, signature } = job.data;
+    const { merchantId, webhookUrl, event, data, webhookId } = job.data;
+
+    // Event deliveries stop once an endpoint is disabled; they can be replayed after re-enabling.
+    // Test events, manual redeliveries and replays are always attempted
+    if (webhookId && (job.data.trigger ?? 'event') === 'event') {
+      const webhook = await this.prisma.webhook.findUnique({
+        where: { id: webhookId },
+        select: { enabled: true },
+      });
+
+      if (!webhook?.enabled) {
+        logger.info('Skipping delivery to disabled or deleted webhook', {
+          jobId: job.id,
+          webhookId,
+          event,
+        });
+        return;
+      }
+    }
+
+    const rawBody = JSON.stringify({
+      id: job.data.eventId,
+      event,
+      data,
+      timestamp: new Date().toISOString(),
+    });
+    const startedAt = Date.now();
 
     try {
+      // Registration checked the URL once; check again, since where the host points can change
+      const urlError = await validateWebhookUrl(webhookUrl);
+      if (urlError) {
+        throw new Error(urlError);
+      }
+
+      const secrets = await this.getSigningSecrets(merchantId);
+
       const response = await axios.post(
         webhookUrl,
-        {
-          event,
-          data,
-          timestamp: new Date().toISOString(),
-        },
+        rawBody,
         {
           headers: {
             'Content-Type': 'application/json',
-            'X-SUZAA-Signature': signature,
+            [SIGNATURE_HEADER]: buildSignatureHeader(secrets, rawBody),
             'X-SUZAA-Event': event,
             'User-Agent': 'SUZAA-Webhook/1.0',
           },
+          transformRequest: [(body) => body], // send the exact bytes that were signed
+          responseType: 'text',
           timeout: 10000, // 10 second timeout
+          maxRedirects: 0, // a redirect could lead to an address the URL checks never saw
+          httpsAgent: deliveryAgent,
           validateStatus: (status) => status >= 200 && status < 300,
         },
       );
 
+      await this.recordDelivery(job, rawBody, {
+        success: true,
+        latencyMs: Date.now() - startedAt,
+        responseStatus: response.status,
+        responseBody: response.data,
+      });
+      await this.updateEndpointHealth(job, true);
+
       logger.info('Webhook delivery successful', {
         jobId: job.id,
         statusCode: response.status,
         url: webhookUrl,
       });
     } catch (error: any) {
+      await this.recordDelivery(job, rawBody, {
+        success: false,
+        latencyMs: Date.now() - startedAt,
+        responseStatus: error.response?.status,
+        responseBody: error.response?.data,
+        error: error.message,
+      });
+      await this.updateEndpointHealth(job, false, error.message);
+
       logger.warn('Webhook delivery attempt failed', {
         jobId: job.id,
         attempt: job.attemptsMade + 1,
@@ -17,6 +17,18 @@ export interface IEmailService {
     paymentUrl: string;
   }): Promise<void>;
 
+  /**
+   * Send a buyer the payment link of one cycle of a recurring invoice
+   */
+  sendInvoiceEmail(to: string, invoice: {
+    merchantName: string;
+    amount: string;
+    currency: string;
+    description: string | null;
+    paymentUrl: string;
+    dueAt: Date;
+  }): Promise<void>;
+
   /**
    * Send webhook failure notification
    */
@@ -25,4 +37,13 @@ export interface IEmailService {
     attempts: number;
     lastError: string;
   }): Promise<void>;
+
+  /**
+   * Send notification that a webhook endpoint was disabled after repeated failures
+   */
+  sendWebhookDisabledNotification(to: string, details: {
+    url: string;
+    consecutiveFailures: number;
+    lastError: string;
+  }): Promise<void>;
 }
@@ -5,13 +5,17 @@
 export interface IWebhookService {
   /**
    * Queue a webhook for delivery
+   * The payload is signed with the merchant's webhook secret(s) at delivery time
    */
   queueWebhook(payload: {
     merchantId: string;
     webhookUrl: string;
     event: string;
     data: any;
-    signature: string;
+    merchantEmail?: string;
+    webhookId?: string;
+    eventId?: string;
+    trigger?: 'event' | 'test' | 'redelivery' | 'replay';
   }): Promise<void>;
 
   /**
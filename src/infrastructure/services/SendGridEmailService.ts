@@ -3,6 +3,15 @@ import sgMail from '@sendgrid/mail';
 import { logger } from '../../common/logger';
 import { config } from '../../config';
 
+// Merchant-provided text (business name, invoice description) is shown in HTML emails
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
 /**
  * SendGrid implementation of Email Service
  */
@@ -67,6 +76,32 @@ export class SendGridEmailService implements IEmailService {
     await this.send(to, subject, text, html);
   }
 
+  async sendInvoiceEmail(to: string, invoice: {
+    merchantName: string;
+    amount: string;
+    currency: string;
+    description: string | null;
+    paymentUrl: string;
+    dueAt: Date;
+  }): Promise<void> {
+    const dueDate = invoice.dueAt.toUTCString();
+    const subject = `Invoice from ${invoice.merchantName}: ${invoice.amount} ${invoice.currency}`;
+    const text = `${invoice.merchantName} has sent you an invoice.\n\n${invoice.description ? `${invoice.description}\n` : ''}Amount: ${invoice.amount} ${invoice.currency}\nPay by: ${dueDate}\n\nPay with crypto: ${invoice.paymentUrl}`;
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #333;">Invoice from ${escapeHtml(invoice.merchantName)}</h2>
+        ${invoice.description ? `<p>${escapeHtml(invoice.description)}</p>` : ''}
+        <ul style="list-style: none; padding: 0;">
+          <li style="padding: 10px; background-color: #f4f4f4; margin: 5px 0;"><strong>Amount:</strong> ${invoice.amount} ${invoice.currency}</li>
+          <li style="padding: 10px; background-color: #f4f4f4; margin: 5px 0;"><strong>Pay by:</strong> ${dueDate}</li>
+        </ul>
+        <p><a href="${invoice.paymentUrl}">Pay with crypto</a></p>
+      </div>
+    `;
+
+    await this.send(to, subject, text, html);
+  }
+
   async sendWebhookFailureNotification(to: string, details: {
     url: string;
     attempts: number;
@@ -79,8 +114,8 @@ export class SendGridEmailService implements IEmailService {
         <h2 style="color: #d32f2f;">Webhook Delivery Failed</h2>
         <p>Webhook delivery has failed after <strong>${details.attempts}</strong> attempts:</p>
         <ul style="list-style: none; padding: 0;">
-          <li style="padding: 10px; background-color: #ffebee; margin: 5px 0;"><strong>URL:</strong> ${details.url}</li>
-          <li style="padding: 10px; background-color: #ffebee; margin: 5px 0;"><strong>Last Error:</strong> ${details.lastError}</li>
+          <li style="padding: 10px; background-color: #ffebee; margin: 5px 0;"><strong>URL:</strong> ${escapeHtml(details.url)}</li>
+          <li style="padding: 10px; background-color: #ffebee; margin: 5px 0;"><strong>Last Error:</strong> ${escapeHtml(details.lastError)}</li>
         </ul>
         <p>Please check your webhook endpoint configuration.</p>
       </div>
@@ -89,6 +124,31 @@ export class SendGridEmailService implements IEmailService {
     await this.send(to, subject, text, html);
   }
 
+  /**
+   * Send notification that a webhook endpoint was disabled
+   */
+  async sendWebhookDisabledNotification(to: string, details: {
+    url: string;
+    consecutiveFailures: number;
+    lastError: string;
+  }): Promise<void> {
+    const subject = 'SUZAA: Webhook Endpoint Disabled';
+    const text = `Your webhook endpoint was disabled after ${details.consecutiveFailures} consecutive failed deliveries.\n\nURL: ${details.url}\nLast Error: ${details.lastError}\n\nEvents are no longer sent to this endpoint. Re-enable it once it is fixed; missed events can be replayed.`;
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #d32f2f;">Webhook Endpoint Disabled</h2>
+        <p>Your webhook endpoint was disabled after <strong>${details.consecutiveFailures}</strong> consecutive failed deliveries:</p>
+        <ul style="list-style: none; padding: 0;">
+          <li style="padding: 10px; background-color: #ffebee; margin: 5px 0;"><strong>URL:</strong> ${escapeHtml(details.url)}</li>
+          <li style="padding: 10px; background-color: #ffebee; margin: 5px 0;"><strong>Last Error:</strong> ${escapeHtml(details.lastError)}</li>
+        </ul>
+        <p>Events are no longer sent to this endpoint. Re-enable it once it is fixed; missed events can be replayed.</p>
+      </div>
+    `;
+
+    await this.send(to, subject, text, html);
+  }
+
   /**
    * Internal send method
    */
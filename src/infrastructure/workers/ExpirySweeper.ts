@@ -0,0 +1,256 @@
+import { hostname } from 'os';
+import { PaymentStatus, Prisma, PrismaClient, SettlementStatus } from '@prisma/client';
+import { logger } from '../../common/logger';
+import { config } from '../../config';
+import { publishDomainEvents } from '../events/outboxPublisher';
+import {
+  DomainEvent,
+  PaymentIntentExpired,
+  PaymentRequestExpired,
+  PaymentSettlementStatusChanged,
+} from '../../domain/events/DomainEvent';
+import { PaymentRequest, SettlementStatus as DomainSettlementStatus } from '../../domain/entities/PaymentRequest';
+import { canAdvanceRequestStatus } from '../../domain/utils/settlement';
+
+// ops.advisory_locks row / pg advisory lock key held by the instance running the sweep
+export const EXPIRY_SWEEPER_LOCK_ID = 1001;
+
+interface ExpiredRequestRow {
+  id: string;
+  merchantId: string;
+  expiresAt: Date;
+}
+
+interface ExpiredIntentRow extends ExpiredRequestRow {
+  paymentRequestId: string;
+}
+
+interface PartialIntentRow {
+  id: string;
+  paymentRequestId: string;
+  merchantId: string;
+  requestStatus: PaymentStatus;
+  requestSettlementStatus: SettlementStatus;
+}
+
+/**
+ * Expiry Sweeper
+ * Moves PENDING payment requests and intents past their expiresAt to EXPIRED and closes
+ * the top-up window of underpaid intents, publishing an event for each change.
+ * Expired idempotency keys are purged in the same pass.
+ * Every sweep runs under pg_try_advisory_xact_lock, so only one instance sweeps at a time;
+ * the holder is recorded in ops.advisory_locks for visibility.
+ */
+export class ExpirySweeper {
+  private timer: NodeJS.Timeout | null = null;
+  private inFlight: Promise<number> | null = null;
+  private stopped = true;
+  private readonly instanceId = `${hostname()}:${process.pid}`;
+
+  constructor(private prisma: PrismaClient) {}
+
+  start(): void {
+    if (!this.stopped) {
+      return;
+    }
+
+    this.stopped = false;
+    this.schedule(0);
+
+    logger.info('Expiry sweeper started', {
+      intervalMs: config.expirySweeper.intervalMs,
+      batchSize: config.expirySweeper.batchSize,
+    });
+  }
+
+  /**
+   * Stop sweeping and wait for the batch in progress to finish
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    if (this.inFlight) {
+      await this.inFlight.catch(() => undefined);
+    }
+
+    logger.info('Expiry sweeper stopped');
+  }
+
+  /**
+   * Run one batch if this instance wins the lock
+   * Returns the number of rows changed (0 when another instance holds the lock)
+   */
+  async sweep(): Promise<number> {
+    const { batchSize } = config.expirySweeper;
+
+    return this.prisma.$transaction(
+      async (tx) => {
+        const [lock] = await tx.$queryRaw<{ locked: boolean }[]>`
+          SELECT pg_try_advisory_xact_lock(${EXPIRY_SWEEPER_LOCK_ID}::bigint) AS locked
+        `;
+
+        if (!lock?.locked) {
+          return 0;
+        }
+
+        await tx.advisoryLock.upsert({
+          where: { lockId: EXPIRY_SWEEPER_LOCK_ID },
+          create: { lockId: EXPIRY_SWEEPER_LOCK_ID, lockedBy: this.instanceId },
+          update: { lockedAt: new Date(), lockedBy: this.instanceId },
+        });
+
+        const intents = await this.expireIntents(tx, batchSize);
+        const partial = await this.closeTopUpWindows(tx, batchSize);
+        const requests = await this.expireRequests(tx, batchSize);
+        const { count: idempotencyKeys } = await tx.idempotencyKey.deleteMany({
+          where: { expiresAt: { lt: new Date() } },
+        });
+
+        if (intents + partial + requests + idempotencyKeys > 0) {
+          logger.info('Expiry sweep completed', { intents, partial, requests, idempotencyKeys });
+        }
+
+        return Math.max(intents, partial, requests);
+      },
+      {
+        timeout: 30000,
+      },
+    );
+  }
+
+  private schedule(delayMs: number): void {
+    this.timer = setTimeout(() => {
+      void this.tick();
+    }, delayMs);
+  }
+
+  private async tick(): Promise<void> {
+    if (this.stopped) {
+      return;
+    }
+
+    let changed = 0;
+    this.inFlight = this.sweep();
+
+    try {
+      changed = await this.inFlight;
+    } catch (error: any) {
+      logger.error('Expiry sweep failed', { error: error.message });
+    } finally {
+      this.inFlight = null;
+    }
+
+    if (!this.stopped) {
+      // A full batch means there is likely a backlog - sweep again immediately
+      this.schedule(changed >= config.expirySweeper.batchSize ? 0 : config.expirySweeper.intervalMs);
+    }
+  }
+
+  private async expireIntents(tx: Prisma.TransactionClient, batchSize: number): Promise<number> {
+    const rows = await tx.$queryRaw<ExpiredIntentRow[]>`
+      UPDATE payments.payment_intents
+      SET status = 'EXPIRED', "updatedAt" = NOW()
+      WHERE id IN (
+        SELECT id FROM payments.payment_intents
+        WHERE status = 'PENDING' AND "expiresAt" < NOW()
+        ORDER BY "expiresAt"
+        LIMIT ${batchSize}
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING id, "paymentRequestId", "merchantId", "expiresAt"
+    `;
+
+    await publishDomainEvents(
+      tx,
+      rows.map((row) => new PaymentIntentExpired(row.id, row.paymentRequestId, row.merchantId, row.expiresAt)),
+    );
+
+    return rows.length;
+  }
+
+  private async expireRequests(tx: Prisma.TransactionClient, batchSize: number): Promise<number> {
+    const rows = await tx.$queryRaw<ExpiredRequestRow[]>`
+      UPDATE payments.payment_requests
+      SET status = 'EXPIRED', "updatedAt" = NOW()
+      WHERE id IN (
+        SELECT id FROM payments.payment_requests
+        WHERE status = 'PENDING' AND "expiresAt" < NOW()
+        ORDER BY "expiresAt"
+        LIMIT ${batchSize}
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING id, "merchantId", "expiresAt"
+    `;
+
+    await publishDomainEvents(
+      tx,
+      rows.map((row) => new PaymentRequestExpired(row.id, row.merchantId, row.expiresAt)),
+    );
+
+    return rows.length;
+  }
+
+  /**
+   * Underpaid intents whose top-up window has passed complete at PAID for the merchant to review
+   */
+  private async closeTopUpWindows(tx: Prisma.TransactionClient, batchSize: number): Promise<number> {
+    const rows = await tx.$queryRaw<PartialIntentRow[]>`
+      SELECT i.id, i."paymentRequestId", i."merchantId",
+        r.status AS "requestStatus", r."settlementStatus" AS "requestSettlementStatus"
+      FROM payments.payment_intents i
+      JOIN payments.payment_requests r ON r.id = i."paymentRequestId"
+      WHERE i.status = 'PARTIALLY_PAID' AND i."expiresAt" < NOW()
+      ORDER BY i."expiresAt"
+      LIMIT ${batchSize}
+      FOR UPDATE OF i, r SKIP LOCKED
+    `;
+
+    const events: DomainEvent[] = [];
+
+    for (const row of rows) {
+      await tx.paymentIntent.update({
+        where: { id: row.id },
+        data: { status: 'COMPLETED', settlementStatus: 'PAID' },
+      });
+
+      const from = row.requestSettlementStatus;
+      const to = PaymentRequest.canTransitionSettlement(
+        from as DomainSettlementStatus,
+        DomainSettlementStatus.PAID,
+      )
+        ? SettlementStatus.PAID
+        : from;
+
+      // A request that was cancelled or expired in the meantime keeps its final status
+      const status = canAdvanceRequestStatus(row.requestStatus, 'COMPLETED') ? 'COMPLETED' : row.requestStatus;
+
+      await tx.paymentRequest.update({
+        where: { id: row.paymentRequestId },
+        data: { status, settlementStatus: to },
+      });
+
+      if (to !== from) {
+        await tx.settlementTransition.create({
+          data: {
+            paymentRequestId: row.paymentRequestId,
+            fromStatus: from,
+            toStatus: to,
+            actor: 'system',
+            reason: 'Top-up window closed with the payment still short',
+          },
+        });
+
+        events.push(new PaymentSettlementStatusChanged(row.paymentRequestId, row.merchantId, from, to, 'system'));
+      }
+    }
+
+    await publishDomainEvents(tx, events);
+
+    return rows.length;
+  }
+}
@@ -0,0 +1,204 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { IWebhookService } from '../services/IWebhookService';
+import { logger } from '../../common/logger';
+import { config } from '../../config';
+
+interface OutboxRow {
+  id: string;
+  eventType: string;
+  aggregateId: string;
+  merchantId: string | null;
+  webhookId: string | null;
+  payload: any;
+  retryCount: number;
+  maxRetries: number;
+}
+
+/**
+ * Outbox Dispatcher
+ * Claims undispatched events.outbox rows and fans each one out to the
+ * merchant's enabled webhooks subscribed to its event type.
+ * Rows are claimed with FOR UPDATE SKIP LOCKED so several instances can run side by side.
+ */
+export class OutboxDispatcher {
+  private timer: NodeJS.Timeout | null = null;
+  private inFlight: Promise<number> | null = null;
+  private stopped = true;
+
+  constructor(
+    private prisma: PrismaClient,
+    private webhookService: IWebhookService,
+  ) {}
+
+  start(): void {
+    if (!this.stopped) {
+      return;
+    }
+
+    this.stopped = false;
+    this.schedule(0);
+
+    logger.info('Outbox dispatcher started', {
+      pollIntervalMs: config.outbox.pollIntervalMs,
+      batchSize: config.outbox.batchSize,
+    });
+  }
+
+  /**
+   * Stop polling and wait for the batch in progress to finish
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    if (this.inFlight) {
+      await this.inFlight.catch(() => undefined);
+    }
+
+    logger.info('Outbox dispatcher stopped');
+  }
+
+  /**
+   * Claim and dispatch one batch of outbox rows
+   * Returns the number of rows claimed
+   */
+  async dispatchBatch(): Promise<number> {
+    const { batchSize, retryBaseDelayMs } = config.outbox;
+
+    return this.prisma.$transaction(
+      async (tx) => {
+        // Failed rows back off exponentially: base delay * 2^retryCount
+        const rows = await tx.$queryRaw<OutboxRow[]>`
+          SELECT id, "eventType", "aggregateId", "merchantId", "webhookId", payload, "retryCount", "maxRetries"
+          FROM events.outbox
+          WHERE "dispatchedAt" IS NULL
+            AND "retryCount" < "maxRetries"
+            AND (
+              "lastAttemptAt" IS NULL
+              OR "lastAttemptAt" < NOW() - (${retryBaseDelayMs}::int * POWER(2, "retryCount")) * INTERVAL '1 millisecond'
+            )
+          ORDER BY "createdAt"
+          LIMIT ${batchSize}
+          FOR UPDATE SKIP LOCKED
+        `;
+
+        for (const row of rows) {
+          await this.dispatchRow(tx, row);
+        }
+
+        return rows.length;
+      },
+      {
+        timeout: 30000,
+      },
+    );
+  }
+
+  private schedule(delayMs: number): void {
+    this.timer = setTimeout(() => {
+      void this.tick();
+    }, delayMs);
+  }
+
+  private async tick(): Promise<void> {
+    if (this.stopped) {
+      return;
+    }
+
+    let claimed = 0;
+    this.inFlight = this.dispatchBatch();
+
+    try {
+      claimed = await this.inFlight;
+    } catch (error: any) {
+      logger.error('Outbox dispatch batch failed', { error: error.message });
+    } finally {
+      this.inFlight = null;
+    }
+
+    if (!this.stopped) {
+      // A full batch means there is likely more work waiting - poll again immediately
+      this.schedule(claimed >= config.outbox.batchSize ? 0 : config.outbox.pollIntervalMs);
+    }
+  }
+
+  /**
+   * Queue one outbox event for every subscribed webhook and record the outcome on the row
+   */
+  private async dispatchRow(tx: Prisma.TransactionClient, row: OutboxRow): Promise<void> {
+    const attemptedAt = new Date();
+
+    try {
+      const webhooks = row.merchantId
+        ? await tx.webhook.findMany({
+            // Targeted rows (test events) go to one webhook regardless of its subscriptions or enabled flag
+            where: row.webhookId
+              ? { id: row.webhookId, merchantId: row.merchantId }
+              : { merchantId: row.merchantId, enabled: true, events: { has: row.eventType } },
+            select: {
+              id: true,
+              url: true,
+              merchant: {
+                select: {
+                  email: true,
+                },
+              },
+            },
+          })
+        : [];
+
+      for (const webhook of webhooks) {
+        await this.webhookService.queueWebhook({
+          merchantId: row.merchantId!,
+          webhookUrl: webhook.url,
+          event: row.eventType,
+          data: row.payload,
+          merchantEmail: webhook.merchant.email,
+          webhookId: webhook.id,
+          eventId: row.id,
+          trigger: row.webhookId ? 'test' : 'event',
+        });
+      }
+
+      await tx.outbox.update({
+        where: { id: row.id },
+        data: {
+          dispatchedAt: attemptedAt,
+          lastAttemptAt: attemptedAt,
+          lastError: null,
+        },
+      });
+
+      logger.debug('Outbox event dispatched', {
+        outboxId: row.id,
+        eventType: row.eventType,
+        webhooks: webhooks.length,
+      });
+    } catch (error: any) {
+      const retryCount = row.retryCount + 1;
+
+      await tx.outbox.update({
+        where: { id: row.id },
+        data: {
+          retryCount,
+          lastAttemptAt: attemptedAt,
+          lastError: error.message || String(error),
+        },
+      });
+
+      logger.warn('Outbox event dispatch failed', {
+        outboxId: row.id,
+        eventType: row.eventType,
+        aggregateId: row.aggregateId,
+        retryCount,
+        maxRetries: row.maxRetries,
+        exhausted: retryCount >= row.maxRetries,
+        error: error.message,
+      });
+    }
+  }
+}
@@ -0,0 +1,332 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { logger } from '../../common/logger';
+import { config } from '../../config';
+import { IEmailService } from '../services/IEmailService';
+import { publishDomainEvents } from '../events/outboxPublisher';
+import { PaymentSchedulePaused } from '../../domain/events/DomainEvent';
+import { nextScheduleRunAt } from '../../domain/utils/schedules';
+import { createPaymentRequest } from '../../application/payments/CreatePaymentRequest';
+
+// A cycle's payment request counts as paid / missed once it matches one of these
+const PAID_REQUEST: Prisma.PaymentRequestWhereInput[] = [
+  { settlementStatus: { in: ['PAID', 'SETTLED'] } },
+  { status: 'COMPLETED' },
+];
+const MISSED_REQUEST: Prisma.PaymentRequestWhereInput[] = [
+  { status: { in: ['EXPIRED', 'CANCELLED', 'FAILED'] } },
+  { settlementStatus: { in: ['REJECTED', 'CANCELED'] } },
+];
+
+interface CreatedCycle {
+  cycleId: string;
+  buyerEmail: string | null;
+  merchantName: string;
+  amount: string;
+  currency: string;
+  description: string | null;
+  paymentUrl: string;
+  dueAt: Date;
+}
+
+/**
+ * Payment Scheduler
+ * Creates the due cycle of each active payment schedule as a payment request, emails the
+ * buyer its link, and records whether earlier cycles were paid or missed. A schedule pauses
+ * itself after pauseAfterMissed consecutive missed cycles.
+ * Due schedules are claimed with FOR UPDATE SKIP LOCKED, so every instance can run it.
+ */
+export class PaymentScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private inFlight: Promise<number> | null = null;
+  private stopped = true;
+
+  constructor(
+    private prisma: PrismaClient,
+    private emailService: IEmailService,
+  ) {}
+
+  start(): void {
+    if (!this.stopped) {
+      return;
+    }
+
+    this.stopped = false;
+    this.schedule(0);
+
+    logger.info('Payment scheduler started', {
+      intervalMs: config.paymentScheduler.intervalMs,
+      batchSize: config.paymentScheduler.batchSize,
+    });
+  }
+
+  /**
+   * Stop scheduling and wait for the run in progress to finish
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    if (this.inFlight) {
+      await this.inFlight.catch(() => undefined);
+    }
+
+    logger.info('Payment scheduler stopped');
+  }
+
+  /**
+   * Record outcomes of finished cycles, then create the cycles that are due
+   * Returns the larger of the two batch sizes handled
+   */
+  async run(): Promise<number> {
+    const outcomes = await this.recordCycleOutcomes();
+    const cycles = await this.runDueSchedules();
+
+    if (outcomes + cycles > 0) {
+      logger.info('Payment scheduler run completed', { outcomes, cycles });
+    }
+
+    return Math.max(outcomes, cycles);
+  }
+
+  private schedule(delayMs: number): void {
+    this.timer = setTimeout(() => {
+      void this.tick();
+    }, delayMs);
+  }
+
+  private async tick(): Promise<void> {
+    if (this.stopped) {
+      return;
+    }
+
+    let handled = 0;
+    this.inFlight = this.run();
+
+    try {
+      handled = await this.inFlight;
+    } catch (error: any) {
+      logger.error('Payment scheduler run failed', { error: error.message });
+    } finally {
+      this.inFlight = null;
+    }
+
+    if (!this.stopped) {
+      // A full batch means there is likely a backlog - run again immediately
+      this.schedule(handled >= config.paymentScheduler.batchSize ? 0 : config.paymentScheduler.intervalMs);
+    }
+  }
+
+  /**
+   * Mark pending cycles whose payment request was paid or has lapsed
+   */
+  private async recordCycleOutcomes(): Promise<number> {
+    const cycles = await this.prisma.paymentScheduleCycle.findMany({
+      where: {
+        status: 'PENDING',
+        paymentRequest: { OR: [...PAID_REQUEST, ...MISSED_REQUEST] },
+      },
+      select: {
+        id: true,
+        scheduleId: true,
+        paymentRequest: { select: { status: true, settlementStatus: true } },
+      },
+      take: config.paymentScheduler.batchSize,
+    });
+
+    for (const cycle of cycles) {
+      const request = cycle.paymentRequest!;
+      const paid = request.status === 'COMPLETED' || ['PAID', 'SETTLED'].includes(request.settlementStatus);
+
+      await this.prisma.$transaction(async (tx) => {
+        const { count } = await tx.paymentScheduleCycle.updateMany({
+          where: { id: cycle.id, status: 'PENDING' },
+          data: { status: paid ? 'PAID' : 'MISSED' },
+        });
+
+        // Another instance got there first
+        if (count === 0) {
+          return;
+        }
+
+        const schedule = await tx.paymentSchedule.update({
+          where: { id: cycle.scheduleId },
+          data: paid ? { missedCycles: 0 } : { missedCycles: { increment: 1 } },
+          select: { merchantId: true, status: true, missedCycles: true, pauseAfterMissed: true },
+        });
+
+        if (
+          paid ||
+          schedule.status !== 'ACTIVE' ||
+          schedule.pauseAfterMissed === 0 ||
+          schedule.missedCycles < schedule.pauseAfterMissed
+        ) {
+          return;
+        }
+
+        const reason = `${schedule.missedCycles} consecutive missed payments`;
+
+        await tx.paymentSchedule.update({
+          where: { id: cycle.scheduleId },
+          data: { status: 'PAUSED', pausedAt: new Date(), pauseReason: reason, nextRunAt: null },
+        });
+
+        await tx.auditLog.create({
+          data: {
+            merchantId: schedule.merchantId,
+            action: 'PAYMENT_SCHEDULE_PAUSED',
+            resourceId: cycle.scheduleId,
+            payload: { reason, missedCycles: schedule.missedCycles, pausedBy: 'system' },
+          },
+        });
+
+        await publishDomainEvents(tx, [
+          new PaymentSchedulePaused(cycle.scheduleId, schedule.merchantId, schedule.missedCycles, reason),
+        ]);
+      });
+    }
+
+    return cycles.length;
+  }
+
+  private async runDueSchedules(): Promise<number> {
+    const due = await this.prisma.paymentSchedule.findMany({
+      where: { status: 'ACTIVE', nextRunAt: { lte: new Date() } },
+      select: { id: true },
+      orderBy: { nextRunAt: 'asc' },
+      take: config.paymentScheduler.batchSize,
+    });
+
+    let created = 0;
+
+    for (const { id } of due) {
+      try {
+        const cycle = await this.createCycle(id);
+
+        if (cycle) {
+          created++;
+          await this.emailCycle(cycle);
+        }
+      } catch (error: any) {
+        // The transaction rolled back; the schedule is still due and is retried next run
+        logger.error('Payment schedule cycle failed', { scheduleId: id, error: error.message });
+      }
+    }
+
+    return created;
+  }
+
+  /**
+   * Create the schedule's next cycle and its payment request, and move nextRunAt on
+   * Returns null when the schedule is no longer due or another instance holds it
+   */
+  private async createCycle(scheduleId: string): Promise<CreatedCycle | null> {
+    return this.prisma.$transaction(
+      async (tx) => {
+        const [claimed] = await tx.$queryRaw<{ id: string }[]>`
+          SELECT id FROM payments.payment_schedules
+          WHERE id = ${scheduleId}::uuid AND status = 'ACTIVE' AND "nextRunAt" <= NOW()
+          FOR UPDATE SKIP LOCKED
+        `;
+
+        if (!claimed) {
+          return null;
+        }
+
+        const schedule = await tx.paymentSchedule.findUniqueOrThrow({
+          where: { id: scheduleId },
+          include: { merchant: { select: { businessName: true, timezone: true } } },
+        });
+
+        const now = new Date();
+        const dueAt = new Date(now.getTime() + schedule.dueDays * 24 * 60 * 60 * 1000);
+        const cycleNumber = schedule.cycleCount + 1;
+
+        const result = await createPaymentRequest(
+          {
+            merchantId: schedule.merchantId,
+            amountFiat: schedule.amountFiat.toNumber(),
+            currency: schedule.currencyFiat,
+            description: schedule.description ?? undefined,
+            createdBy: 'merchant',
+            expiresAt: dueAt,
+          },
+          tx,
+        );
+
+        // A failed cycle (e.g. monthly link limit reached) is recorded and the schedule moves on
+        const cycle = await tx.paymentScheduleCycle.create({
+          data: {
+            scheduleId,
+            cycleNumber,
+            scheduledFor: schedule.nextRunAt!,
+            paymentRequestId: result.paymentRequestId ?? null,
+            status: result.success ? 'PENDING' : 'FAILED',
+            error: result.success ? null : result.message.slice(0, 500),
+          },
+          select: { id: true },
+        });
+
+        await tx.paymentSchedule.update({
+          where: { id: scheduleId },
+          data: {
+            cycleCount: cycleNumber,
+            lastRunAt: now,
+            nextRunAt: nextScheduleRunAt({ ...schedule, timezone: schedule.merchant.timezone }, now),
+          },
+        });
+
+        if (!result.success) {
+          logger.warn('Payment schedule cycle not created', { scheduleId, cycleNumber, reason: result.message });
+          return null;
+        }
+
+        return {
+          cycleId: cycle.id,
+          buyerEmail: schedule.buyerEmail,
+          merchantName: schedule.merchant.businessName,
+          amount: schedule.amountFiat.toFixed(2),
+          currency: schedule.currencyFiat,
+          description: schedule.description,
+          paymentUrl: result.paymentUrl!,
+          dueAt,
+        };
+      },
+      {
+        isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+        timeout: 30000,
+      },
+    );
+  }
+
+  /**
+   * Email the cycle's payment link to the schedule's buyer, if it has one
+   * A failed email is logged; the payment request stays valid and the merchant can share it
+   */
+  private async emailCycle(cycle: CreatedCycle): Promise<void> {
+    if (!cycle.buyerEmail) {
+      return;
+    }
+
+    try {
+      await this.emailService.sendInvoiceEmail(cycle.buyerEmail, {
+        merchantName: cycle.merchantName,
+        amount: cycle.amount,
+        currency: cycle.currency,
+        description: cycle.description,
+        paymentUrl: cycle.paymentUrl,
+        dueAt: cycle.dueAt,
+      });
+
+      await this.prisma.paymentScheduleCycle.update({
+        where: { id: cycle.cycleId },
+        data: { emailSentAt: new Date() },
+      });
+    } catch (error: any) {
+      logger.error('Failed to email payment schedule cycle', { cycleId: cycle.cycleId, error: error.message });
+    }
+  }
+}
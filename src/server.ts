@@ -12,15 +12,22 @@ import { redisClient } from './infrastructure/cache/redis';
 import { logger, httpLogStream } from './common/logger';
 import { errorHandler, notFoundHandler } from './common/errors/errorHandler';
 import { correlationIdMiddleware } from './common/middleware/correlationId';
+import { container } from './infrastructure/di/Container';
+import { seedTokenCatalog } from './application/tokens/TokenCatalog';
 
 // Import routes
 import authRoutes from './api/routes/auth';
 import adminRoutes from './api/routes/admin';
 import merchantRoutes from './api/routes/merchants';
+import webhookRoutes from './api/routes/webhooks';
 import paymentRoutes from './api/routes/payments';
 import walletRoutes from './api/routes/wallets';
 import priceRoutes from './api/routes/prices';
 import publicRoutes from './api/routes/public';
+import internalRoutes from './api/routes/internal';
+import tokenRoutes from './api/routes/tokens';
+import scheduleRoutes from './api/routes/schedules';
+import { PluginRequest } from './api/middleware/pluginAuth';
 
 /**
  * Create Express application with production-grade middleware
@@ -57,8 +64,8 @@ app.use(cors({
   origin: config.cors.allowedOrigins,
   credentials: config.cors.credentials,
   methods: ['GET', 'POST', 'PATCH', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Correlation-ID'],
-  exposedHeaders: ['X-Correlation-ID'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Correlation-ID', 'Idempotency-Key'],
+  exposedHeaders: ['X-Correlation-ID', 'Idempotent-Replayed'],
   maxAge: 86400, // 24 hours
 }));
 
@@ -69,13 +76,22 @@ app.use(compression());
 
 /**
  * HTTP Parameter Pollution protection
+ * List filters that take several values (?status=A&status=B) are whitelisted and validated per route
  */
-app.use(hpp());
+app.use(hpp({ whitelist: ['status', 'settlementStatus'] }));
 
 /**
  * Request parsing
  */
-app.use(express.json({ limit: '1mb' }));
+app.use(express.json({
+  limit: '1mb',
+  // Plugin requests are authenticated by an HMAC over the exact body bytes
+  verify: (req, _res, buf) => {
+    if (req.url?.startsWith('/internal')) {
+      (req as PluginRequest).rawBody = buf;
+    }
+  },
+}));
 app.use(express.urlencoded({ extended: true, limit: '1mb' }));
 
 /**
@@ -142,11 +158,15 @@ app.get('/', (req, res) => {
  */
 app.use('/auth', authRoutes);
 app.use('/admin', adminRoutes);
+app.use('/merchants/me/webhooks', webhookRoutes);
 app.use('/merchants', merchantRoutes);
 app.use('/payments', paymentRoutes);
+app.use('/schedules', scheduleRoutes);
 app.use('/wallets', walletRoutes);
+app.use('/tokens', tokenRoutes);
 app.use('/prices', priceRoutes);
 app.use('/public', publicRoutes);
+app.use('/internal', internalRoutes);
 
 /**
  * 404 handler for undefined routes
@@ -183,6 +203,13 @@ async function gracefulShutdown(signal: string): Promise<void> {
   }
 
   try {
+    // Stop background workers before their connections go away
+    logger.info('Stopping background workers...');
+    await container.outboxDispatcher.stop();
+    await container.expirySweeper.stop();
+    await container.paymentScheduler.stop();
+    if ('shutdown' in container.webhookService) { await (container.webhookService as any).shutdown(); }
+
     // Close database connections
     logger.info('Closing database connections...');
     await disconnectDatabase();
@@ -230,6 +257,23 @@ async function start(): Promise<void> {
     logger.info('Connecting to Redis...');
     await connectRedis();
     logger.info('Redis connected successfully');
+
+    // Make sure the built-in tokens are in the catalog before wallets are validated against it
+    await seedTokenCatalog();
+
+    // Start background workers
+    if (config.outbox.enabled) {
+      container.outboxDispatcher.start();
+    }
+
+    if (config.expirySweeper.enabled) {
+      container.expirySweeper.start();
+    }
+
+    if (config.paymentScheduler.enabled) {
+      container.paymentScheduler.start();
+    }
+
     // Start HTTP server
     server = app.listen(config.port, () => {
       logger.info('🚀 SUZAA Core started successfully', {
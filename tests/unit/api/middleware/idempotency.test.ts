@@ -0,0 +1,112 @@
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../../../src/infrastructure/database/client';
+import { idempotent } from '../../../../src/api/middleware/idempotency';
+
+jest.mock('../../../../src/infrastructure/database/client', () => ({
+  prisma: {
+    idempotencyKey: {
+      deleteMany: jest.fn(),
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+  },
+}));
+
+const idempotencyKey = prisma.idempotencyKey as unknown as Record<string, jest.Mock>;
+const merchantId = '0b6f3c1e-2f61-4a8e-9a57-5d8f8b2b1c01';
+
+function request(key: string, ip = '203.0.113.7'): Request {
+  return {
+    header: (name: string) => (name === 'Idempotency-Key' ? key : undefined),
+    body: { amount: 10 },
+    baseUrl: '/public',
+    path: '/create-payment',
+    ip,
+    socket: {},
+  } as unknown as Request;
+}
+
+function response() {
+  const res: any = { statusCode: 200, setHeader: jest.fn() };
+  res.status = jest.fn((code: number) => {
+    res.statusCode = code;
+    return res;
+  });
+  res.json = jest.fn(() => res);
+  return res as Response & { status: jest.Mock; json: jest.Mock };
+}
+
+describe('idempotent', () => {
+  beforeEach(() => {
+    idempotencyKey.deleteMany.mockResolvedValue({ count: 0 });
+    idempotencyKey.create.mockResolvedValue({ id: 'key-1' });
+    idempotencyKey.update.mockResolvedValue({});
+  });
+
+  it('creates the key with a processing lease and lets reclaimable keys be replaced', async () => {
+    const next = jest.fn();
+
+    await idempotent(() => merchantId)(request('order-1'), response(), next);
+
+    expect(next).toHaveBeenCalled();
+    expect(idempotencyKey.deleteMany).toHaveBeenCalledWith({
+      where: {
+        merchantId,
+        key: 'order-1',
+        OR: [
+          { expiresAt: { lte: expect.any(Date) } },
+          { responseStatus: null, lockedUntil: { lte: expect.any(Date) } },
+        ],
+      },
+    });
+    const { data } = idempotencyKey.create.mock.calls[0][0];
+    expect(data.lockedUntil.getTime()).toBeGreaterThan(Date.now());
+    expect(data.lockedUntil.getTime()).toBeLessThan(data.expiresAt.getTime());
+  });
+
+  it('clears the lease when the response is stored', async () => {
+    const res = response();
+    await idempotent(() => merchantId)(request('order-1'), res, jest.fn());
+
+    res.status(201).json({ success: true });
+
+    expect(idempotencyKey.update).toHaveBeenCalledWith({
+      where: { id: 'key-1' },
+      data: { responseStatus: 201, responseBody: { success: true }, lockedUntil: null },
+    });
+  });
+
+  it('answers 409 while the first request still holds the key', async () => {
+    idempotencyKey.create.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' })
+    );
+    idempotencyKey.findUnique.mockImplementation(async () => ({
+      requestPath: '/public/create-payment',
+      requestHash: idempotencyKey.create.mock.calls[0][0].data.requestHash,
+      responseStatus: null,
+      responseBody: null,
+    }));
+    const res = response();
+    const next = jest.fn();
+
+    await idempotent(() => merchantId)(request('order-1'), res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(409);
+  });
+
+  it('stores scoped keys per client, so two buyers with the same key do not collide', async () => {
+    const middleware = idempotent(() => merchantId, { scope: (req) => req.ip ?? 'unknown' });
+
+    await middleware(request('order-1', '203.0.113.7'), response(), jest.fn());
+    await middleware(request('order-1', '198.51.100.4'), response(), jest.fn());
+
+    const [first, second] = idempotencyKey.create.mock.calls.map(([args]: any) => args.data.key);
+    expect(first).toMatch(/^[0-9a-f]{64}$/);
+    expect(second).toMatch(/^[0-9a-f]{64}$/);
+    expect(first).not.toBe(second);
+  });
+});
@@ -0,0 +1,88 @@
+import express, { NextFunction, Response } from 'express';
+import request from 'supertest';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../../../src/infrastructure/database/client';
+import merchantsRouter from '../../../../src/api/routes/merchants';
+
+jest.mock('../../../../src/infrastructure/database/client', () => ({
+  prisma: {
+    merchant: { findUnique: jest.fn(), delete: jest.fn() },
+    refund: { deleteMany: jest.fn() },
+    paymentIntent: { deleteMany: jest.fn() },
+    paymentRequest: { deleteMany: jest.fn() },
+    auditLog: { create: jest.fn() },
+    outbox: { createMany: jest.fn() },
+    $transaction: jest.fn(),
+  },
+}));
+
+jest.mock('../../../../src/api/middleware/auth', () => ({
+  authenticate: (req: any, _res: Response, next: NextFunction) => {
+    req.merchant = { id: merchantId, slug: 'ABC123', email: 'm@example.com', businessName: 'Shop' };
+    next();
+  },
+}));
+
+jest.mock('../../../../src/api/middleware/adminAuth', () => ({
+  authenticateAdmin: (req: any, _res: Response, next: NextFunction) => {
+    req.authUser = { id: 'admin-user', email: 'admin@example.com' };
+    next();
+  },
+}));
+
+const merchantId = '0b6f3c1e-2f61-4a8e-9a57-5d8f8b2b1c01';
+const db = prisma as unknown as Record<string, Record<string, jest.Mock>> & { $transaction: jest.Mock };
+
+function restrictViolation() {
+  return new Prisma.PrismaClientKnownRequestError('Foreign key constraint failed', {
+    code: 'P2003',
+    clientVersion: '6.1.0',
+  });
+}
+
+describe('merchant deletion routes', () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/merchants', merchantsRouter);
+
+  beforeEach(() => {
+    // Refunds reference intents and requests with ON DELETE RESTRICT, so they must go first
+    let refundsLeft = true;
+    let intentsLeft = true;
+    db.refund.deleteMany.mockImplementation(async () => {
+      refundsLeft = false;
+      return { count: 1 };
+    });
+    db.paymentIntent.deleteMany.mockImplementation(async () => {
+      if (refundsLeft) throw restrictViolation();
+      intentsLeft = false;
+      return { count: 1 };
+    });
+    db.paymentRequest.deleteMany.mockImplementation(async () => {
+      if (refundsLeft || intentsLeft) throw restrictViolation();
+      return { count: 1 };
+    });
+
+    db.merchant.findUnique.mockResolvedValue({ id: merchantId, email: 'm@example.com', businessName: 'Shop', slug: 'ABC123' });
+    db.merchant.delete.mockResolvedValue({});
+    db.auditLog.create.mockResolvedValue({});
+    db.outbox.createMany.mockResolvedValue({ count: 1 });
+    db.$transaction.mockImplementation((fn: (client: unknown) => unknown) => fn(prisma));
+  });
+
+  it('deletes refunds before payment data when a merchant deletes their own account', async () => {
+    const res = await request(app).delete('/merchants/me').send({ confirmation: 'delete' });
+
+    expect(res.status).toBe(200);
+    expect(db.refund.deleteMany).toHaveBeenCalledWith({ where: { merchantId } });
+    expect(db.merchant.delete).toHaveBeenCalledWith({ where: { id: merchantId } });
+  });
+
+  it('deletes refunds before payment data when an admin deletes a merchant', async () => {
+    const res = await request(app).delete(`/merchants/${merchantId}`).send({ confirmation: 'DELETE_MERCHANT' });
+
+    expect(res.status).toBe(200);
+    expect(db.refund.deleteMany).toHaveBeenCalledWith({ where: { merchantId } });
+    expect(db.merchant.delete).toHaveBeenCalledWith({ where: { id: merchantId } });
+  });
+});
@@ -0,0 +1,151 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../../../src/infrastructure/database/client';
+import { countLinksThisMonth, createPaymentRequest } from '../../../../src/application/payments/CreatePaymentRequest';
+import { bulkCreatePaymentRequests, BULK_MAX_ROWS } from '../../../../src/application/payments/BulkCreatePaymentRequests';
+import { ConflictError } from '../../../../src/common/errors/AppError';
+
+jest.mock('../../../../src/infrastructure/database/client', () => ({
+  prisma: { merchant: { findUnique: jest.fn() }, $transaction: jest.fn() },
+}));
+
+jest.mock('../../../../src/application/payments/CreatePaymentRequest', () => ({
+  countLinksThisMonth: jest.fn(),
+  createPaymentRequest: jest.fn(),
+}));
+
+const merchantId = '0b6f3c1e-2f61-4a8e-9a57-5d8f8b2b1c01';
+const findMerchant = prisma.merchant.findUnique as jest.Mock;
+const transaction = prisma.$transaction as jest.Mock;
+const countLinks = countLinksThisMonth as jest.Mock;
+const createRequest = createPaymentRequest as jest.Mock;
+
+function serializationFailure() {
+  return new Prisma.PrismaClientKnownRequestError('could not serialize access', {
+    code: 'P2034',
+    clientVersion: '6.1.0',
+  });
+}
+
+describe('bulkCreatePaymentRequests', () => {
+  let tx: { $queryRaw: jest.Mock };
+
+  beforeEach(() => {
+    tx = { $queryRaw: jest.fn().mockResolvedValue([]) };
+    findMerchant.mockResolvedValue({ timezone: 'UTC', paymentLinkMonthlyLimit: 0, suspendedAt: null });
+    transaction.mockImplementation((fn: (client: unknown) => unknown) => fn(tx));
+    countLinks.mockResolvedValue(0);
+
+    let created = 0;
+    createRequest.mockImplementation(async () => {
+      created += 1;
+      return {
+        success: true,
+        paymentRequestId: `request-${created}`,
+        linkId: `link-${created}`,
+        paymentUrl: `https://pay.example/link-${created}`,
+        expiresAt: new Date('2025-11-10T12:00:00Z'),
+      };
+    });
+  });
+
+  it('creates the valid rows and reports invalid ones by their position', async () => {
+    const result = await bulkCreatePaymentRequests({
+      merchantId,
+      rows: [
+        { amountFiat: 10, externalReference: 'INV-1' },
+        { amountFiat: -5, externalReference: 'INV-2' },
+        { amountFiat: 20, expiresInMinutes: 45 },
+        { amountFiat: 30, description: 'Third' },
+      ],
+    });
+
+    expect(result).toMatchObject({ success: true, created: 2, failed: 2, message: '2 of 4 payment request(s) created' });
+    expect(result.results.map((row) => [row.row, row.success])).toEqual([
+      [1, true],
+      [2, false],
+      [3, false],
+      [4, true],
+    ]);
+    expect(result.results[0]).toMatchObject({ externalReference: 'INV-1', paymentRequestId: 'request-1' });
+    expect(result.results[1].externalReference).toBe('INV-2');
+    expect(result.results[2].errors).toEqual(['Expiration must be 15, 30, 60 or 120 minutes']);
+    expect(createRequest).toHaveBeenCalledWith(
+      expect.objectContaining({ merchantId, amountFiat: 30, description: 'Third', createdBy: 'merchant' }),
+      tx
+    );
+  });
+
+  it('runs the batch in one serializable transaction under the merchant row lock', async () => {
+    await bulkCreatePaymentRequests({ merchantId, rows: [{ amountFiat: 10 }] });
+
+    expect(transaction).toHaveBeenCalledWith(
+      expect.any(Function),
+      expect.objectContaining({ isolationLevel: Prisma.TransactionIsolationLevel.Serializable })
+    );
+    expect(tx.$queryRaw).toHaveBeenCalledTimes(1);
+  });
+
+  it('creates nothing when the valid rows do not fit the monthly link limit', async () => {
+    findMerchant.mockResolvedValue({ timezone: 'UTC', paymentLinkMonthlyLimit: 10, suspendedAt: null });
+    countLinks.mockResolvedValue(9);
+
+    const result = await bulkCreatePaymentRequests({ merchantId, rows: [{ amountFiat: 10 }, { amountFiat: 20 }] });
+
+    expect(result).toMatchObject({ success: false, created: 0, failed: 2, limitExceeded: true });
+    expect(result.message).toContain('2 valid row(s) but only 1 link(s) left this month');
+    expect(createRequest).not.toHaveBeenCalled();
+  });
+
+  it('retries the batch after a serialization failure', async () => {
+    transaction
+      .mockRejectedValueOnce(serializationFailure())
+      .mockImplementation((fn: (client: unknown) => unknown) => fn(tx));
+
+    const result = await bulkCreatePaymentRequests({ merchantId, rows: [{ amountFiat: 10 }] });
+
+    expect(transaction).toHaveBeenCalledTimes(2);
+    expect(result).toMatchObject({ success: true, created: 1 });
+  });
+
+  it('gives up with a conflict after repeated serialization failures', async () => {
+    transaction.mockRejectedValue(serializationFailure());
+
+    await expect(bulkCreatePaymentRequests({ merchantId, rows: [{ amountFiat: 10 }] })).rejects.toBeInstanceOf(
+      ConflictError
+    );
+    expect(transaction).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry other errors', async () => {
+    transaction.mockRejectedValue(new Error('connection lost'));
+
+    await expect(bulkCreatePaymentRequests({ merchantId, rows: [{ amountFiat: 10 }] })).rejects.toThrow(
+      'connection lost'
+    );
+    expect(transaction).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects empty and oversized uploads before touching the database', async () => {
+    await expect(bulkCreatePaymentRequests({ merchantId, rows: [] })).resolves.toMatchObject({
+      success: false,
+      message: 'No rows to create',
+    });
+
+    const rows = Array.from({ length: BULK_MAX_ROWS + 1 }, () => ({ amountFiat: 1 }));
+    await expect(bulkCreatePaymentRequests({ merchantId, rows })).resolves.toMatchObject({
+      success: false,
+      failed: BULK_MAX_ROWS + 1,
+    });
+
+    expect(findMerchant).not.toHaveBeenCalled();
+  });
+
+  it('refuses uploads for a suspended merchant', async () => {
+    findMerchant.mockResolvedValue({ timezone: 'UTC', paymentLinkMonthlyLimit: 0, suspendedAt: new Date() });
+
+    const result = await bulkCreatePaymentRequests({ merchantId, rows: [{ amountFiat: 10 }] });
+
+    expect(result).toMatchObject({ success: false, created: 0, message: 'Merchant account suspended' });
+    expect(transaction).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,125 @@
+import { PassThrough, Readable } from 'stream';
+import { Prisma } from '@prisma/client';
+import ExcelJS from 'exceljs';
+import { prisma } from '../../../../src/infrastructure/database/client';
+import { exportPaymentRequests, ExportFormat } from '../../../../src/application/payments/ExportPaymentRequests';
+
+jest.mock('../../../../src/infrastructure/database/client', () => ({
+  prisma: { paymentRequest: { findMany: jest.fn() } },
+}));
+
+const findMany = prisma.paymentRequest.findMany as jest.Mock;
+const merchantId = '0b6f3c1e-2f61-4a8e-9a57-5d8f8b2b1c01';
+
+function record(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'request-1',
+    linkId: 'lnk_abc123',
+    orderDate: '20251110',
+    orderNumber: 7,
+    amountFiat: new Prisma.Decimal('49.90'),
+    currencyFiat: 'EUR',
+    status: 'COMPLETED',
+    settlementStatus: 'SETTLED',
+    createdBy: 'merchant',
+    description: 'Order 7',
+    externalReference: null,
+    createdAt: new Date('2025-11-10T09:30:00Z'),
+    paymentIntents: [
+      { selectedCoin: 'USDC', selectedChain: 'POLYGON', status: 'COMPLETED', txId: '0xabc', settledAt: null },
+    ],
+    settlementTransitions: [{ createdAt: new Date('2025-11-10T10:00:00Z') }],
+    ...overrides,
+  };
+}
+
+async function runExport(format: ExportFormat, timezone = 'UTC'): Promise<Buffer> {
+  const output = new PassThrough();
+  const chunks: Buffer[] = [];
+  output.on('data', (chunk: Buffer) => chunks.push(chunk));
+
+  await exportPaymentRequests({
+    merchantId,
+    filters: { sortBy: 'createdAt', sortOrder: 'desc' },
+    format,
+    timezone,
+    output,
+  });
+
+  return Buffer.concat(chunks);
+}
+
+describe('exportPaymentRequests', () => {
+  describe('csv', () => {
+    it('writes a header and one line per request with dates in the merchant timezone', async () => {
+      findMany.mockResolvedValue([record()]);
+
+      const lines = (await runExport('csv', 'Europe/Berlin')).toString().split('\r\n');
+
+      expect(lines[0]).toBe(
+        'linkId,orderDate,orderNumber,amountFiat,currency,status,settlementStatus,createdBy,description,' +
+          'externalReference,createdAt,settledAt,intents'
+      );
+      expect(lines[1]).toBe(
+        'lnk_abc123,20251110,7,49.9,EUR,COMPLETED,SETTLED,merchant,Order 7,,' +
+          '2025-11-10T10:30:00+01:00,2025-11-10T11:00:00+01:00,USDC/POLYGON/COMPLETED/0xabc'
+      );
+    });
+
+    it.each([
+      ['=HYPERLINK("https://evil.example","x")', `"'=HYPERLINK(""https://evil.example"",""x"")"`],
+      ['+1+1', "'+1+1"],
+      ['-2+3', "'-2+3"],
+      ['@SUM(A1:A2)', "'@SUM(A1:A2)"],
+      ['\tcmd', "'\tcmd"],
+    ])('prefixes the formula-like description %j so spreadsheets show it as text', async (description, field) => {
+      findMany.mockResolvedValue([record({ description })]);
+
+      const [, line] = (await runExport('csv')).toString().split('\r\n');
+
+      expect(line.split(',merchant,')[1].startsWith(`${field},`)).toBe(true);
+    });
+
+    it('quotes fields containing commas, quotes or line breaks', async () => {
+      findMany.mockResolvedValue([record({ description: 'Two items, "gift"\nwrapped' })]);
+
+      const csv = (await runExport('csv')).toString();
+
+      expect(csv).toContain(',merchant,"Two items, ""gift""\nwrapped",');
+    });
+  });
+
+  describe('xlsx', () => {
+    it('stores formula-like text as plain string cells', async () => {
+      findMany.mockResolvedValue([record({ description: '=1+1', externalReference: '@cmd' })]);
+
+      const workbook = new ExcelJS.Workbook();
+      await workbook.xlsx.read(Readable.from(await runExport('xlsx')));
+      const sheet = workbook.getWorksheet('Payment requests')!;
+      const row = sheet.getRow(2);
+
+      for (const column of [9, 10]) {
+        expect(row.getCell(column).type).toBe(ExcelJS.ValueType.String);
+        expect(row.getCell(column).formula).toBeUndefined();
+      }
+      expect(row.getCell(9).value).toBe('=1+1');
+      expect(row.getCell(10).value).toBe('@cmd');
+    });
+  });
+
+  describe('jsonl', () => {
+    it('writes one JSON object per request with its intents', async () => {
+      findMany.mockResolvedValue([record(), record({ id: 'request-2', linkId: 'lnk_def456', paymentIntents: [] })]);
+
+      const lines = (await runExport('jsonl')).toString().trim().split('\n').map((line) => JSON.parse(line));
+
+      expect(lines).toHaveLength(2);
+      expect(lines[0]).toMatchObject({
+        linkId: 'lnk_abc123',
+        amountFiat: '49.9',
+        intents: [{ coin: 'USDC', chain: 'POLYGON', status: 'COMPLETED', txId: '0xabc' }],
+      });
+      expect(lines[1]).toMatchObject({ linkId: 'lnk_def456', intents: [] });
+    });
+  });
+});
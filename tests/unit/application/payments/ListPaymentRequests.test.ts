@@ -0,0 +1,99 @@
+import { prisma } from '../../../../src/infrastructure/database/client';
+import {
+  buildPaymentRequestOrderBy,
+  buildPaymentRequestWhere,
+  listPaymentRequests,
+  PaymentRequestFilters,
+} from '../../../../src/application/payments/ListPaymentRequests';
+
+jest.mock('../../../../src/infrastructure/database/client', () => ({
+  prisma: { paymentRequest: { findMany: jest.fn() } },
+}));
+
+const findMany = prisma.paymentRequest.findMany as jest.Mock;
+const merchantId = '0b6f3c1e-2f61-4a8e-9a57-5d8f8b2b1c01';
+const defaultFilters: PaymentRequestFilters = { sortBy: 'createdAt', sortOrder: 'desc' };
+
+const rows = (count: number) => Array.from({ length: count }, (_, i) => ({ id: `request-${i + 1}` }));
+
+describe('listPaymentRequests', () => {
+  it('fetches one extra row and returns the last id of a full page as the next cursor', async () => {
+    findMany.mockResolvedValue(rows(3));
+
+    const page = await listPaymentRequests({ merchantId, filters: defaultFilters, limit: 2 });
+
+    expect(findMany).toHaveBeenCalledWith(expect.objectContaining({ take: 3 }));
+    expect(findMany.mock.calls[0][0]).not.toHaveProperty('cursor');
+    expect(page.items.map((item) => item.id)).toEqual(['request-1', 'request-2']);
+    expect(page.nextCursor).toBe('request-2');
+  });
+
+  it('returns no cursor on the last page', async () => {
+    findMany.mockResolvedValue(rows(2));
+
+    const page = await listPaymentRequests({ merchantId, filters: defaultFilters, limit: 2 });
+
+    expect(page.items).toHaveLength(2);
+    expect(page.nextCursor).toBeNull();
+  });
+
+  it('continues after the cursor row without repeating it', async () => {
+    findMany.mockResolvedValue([]);
+
+    await listPaymentRequests({ merchantId, filters: defaultFilters, cursor: 'request-2', limit: 2 });
+
+    expect(findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ cursor: { id: 'request-2' }, skip: 1, take: 3 })
+    );
+  });
+});
+
+describe('buildPaymentRequestOrderBy', () => {
+  it('breaks ties on id in the same direction so cursors are stable', () => {
+    expect(buildPaymentRequestOrderBy({ sortBy: 'amountFiat', sortOrder: 'asc' })).toEqual([
+      { amountFiat: 'asc' },
+      { id: 'asc' },
+    ]);
+  });
+});
+
+describe('buildPaymentRequestWhere', () => {
+  it('scopes to the merchant when no filter is set', () => {
+    expect(buildPaymentRequestWhere(merchantId, defaultFilters)).toEqual({ merchantId });
+  });
+
+  it('combines every filter', () => {
+    const from = new Date('2025-11-01T00:00:00Z');
+    const to = new Date('2025-12-01T00:00:00Z');
+
+    expect(
+      buildPaymentRequestWhere(merchantId, {
+        ...defaultFilters,
+        status: ['PENDING', 'COMPLETED'],
+        settlementStatus: ['PAID'],
+        createdBy: 'buyer',
+        from,
+        to,
+        minAmount: 10,
+        maxAmount: 500,
+        description: 'Invoice',
+        externalReference: 'INV-42',
+      })
+    ).toEqual({
+      merchantId,
+      status: { in: ['PENDING', 'COMPLETED'] },
+      settlementStatus: { in: ['PAID'] },
+      createdBy: 'buyer',
+      createdAt: { gte: from, lt: to },
+      amountFiat: { gte: 10, lte: 500 },
+      description: { contains: 'Invoice', mode: 'insensitive' },
+      externalReference: 'INV-42',
+    });
+  });
+
+  it('ignores empty status lists', () => {
+    expect(buildPaymentRequestWhere(merchantId, { ...defaultFilters, status: [], settlementStatus: [] })).toEqual({
+      merchantId,
+    });
+  });
+});
@@ -0,0 +1,201 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../../../src/infrastructure/database/client';
+import { recordPaymentEvidence } from '../../../../src/application/payments/RecordPaymentEvidence';
+
+jest.mock('../../../../src/infrastructure/database/client', () => ({
+  prisma: { $transaction: jest.fn() },
+}));
+
+const intentId = '6d1f2a8e-3b4c-4d5e-8f90-a1b2c3d4e5f6';
+const paymentRequestId = '9a8b7c6d-5e4f-4a3b-9c2d-1e0f9a8b7c6d';
+const merchantId = '0b6f3c1e-2f61-4a8e-9a57-5d8f8b2b1c01';
+const HOUR = 60 * 60 * 1000;
+
+function intentRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: intentId,
+    paymentRequestId,
+    merchantId,
+    selectedChain: 'ETHEREUM',
+    selectedCoin: 'ETH',
+    amountCrypto: new Prisma.Decimal('1.5'),
+    amountReceived: null,
+    amountOutcome: null,
+    surplusAmount: null,
+    shortfallAmount: null,
+    requiredConfs: 2,
+    status: 'PENDING',
+    settlementStatus: 'PENDING',
+    txId: null,
+    expiresAt: new Date(Date.now() + HOUR),
+    transactions: [],
+    paymentRequest: { status: 'PENDING', settlementStatus: 'PENDING' },
+    merchant: { settleTolerancePct: new Prisma.Decimal('1'), allowUnderpaymentTopUp: true },
+    ...overrides,
+  };
+}
+
+function evidence(amountReceived: string, confirmations = 2) {
+  return { pluginId: 'eth-plugin', intentId, txId: '0xabc', amountReceived, confirmations };
+}
+
+describe('recordPaymentEvidence', () => {
+  let tx: any;
+
+  beforeEach(() => {
+    tx = {
+      $queryRaw: jest.fn().mockResolvedValue([]),
+      paymentIntent: {
+        findUnique: jest.fn().mockResolvedValue(intentRow()),
+        findFirst: jest.fn().mockResolvedValue(null),
+        update: jest.fn().mockResolvedValue({}),
+        updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+      },
+      paymentIntentTransaction: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        upsert: jest.fn().mockResolvedValue({}),
+      },
+      paymentRequest: { update: jest.fn().mockResolvedValue({}) },
+      settlementTransition: { create: jest.fn().mockResolvedValue({}) },
+      auditLog: { create: jest.fn().mockResolvedValue({}) },
+      outbox: { createMany: jest.fn().mockResolvedValue({ count: 0 }) },
+    };
+    (prisma.$transaction as jest.Mock).mockImplementation((fn: (client: unknown) => unknown) => fn(tx));
+  });
+
+  const publishedEvents = (): string[] =>
+    tx.outbox.createMany.mock.calls.flatMap(([{ data }]: any) => data.map((row: any) => row.eventType));
+
+  it('moves the intent and request to processing until the transaction is confirmed', async () => {
+    const result = await recordPaymentEvidence(evidence('1.5', 1));
+
+    expect(result).toMatchObject({ status: 'PROCESSING', settlementStatus: 'PENDING', outcome: null });
+    expect(tx.paymentRequest.update).toHaveBeenCalledWith({
+      where: { id: paymentRequestId },
+      data: { status: 'PROCESSING', settlementStatus: 'PENDING' },
+    });
+  });
+
+  it('auto-settles a confirmed payment within tolerance', async () => {
+    const result = await recordPaymentEvidence(evidence('1.49'));
+
+    expect(result).toMatchObject({ status: 'COMPLETED', settlementStatus: 'SETTLED', outcome: 'WITHIN_TOLERANCE' });
+    expect(tx.paymentRequest.update).toHaveBeenCalledWith({
+      where: { id: paymentRequestId },
+      data: { status: 'COMPLETED', settlementStatus: 'SETTLED' },
+    });
+    expect(publishedEvents()).toEqual(
+      expect.arrayContaining(['PaymentReceived', 'PaymentWithinTolerance', 'PaymentSettled'])
+    );
+  });
+
+  it('auto-settles an overpayment and records the surplus', async () => {
+    const result = await recordPaymentEvidence(evidence('1.6'));
+
+    expect(result).toMatchObject({ status: 'COMPLETED', settlementStatus: 'SETTLED', outcome: 'OVERPAID' });
+    expect(result.surplusAmount).toBe('0.1');
+  });
+
+  it('keeps an underpaid intent open for a top-up while the quote is valid', async () => {
+    const result = await recordPaymentEvidence(evidence('1'));
+
+    expect(result).toMatchObject({ status: 'PARTIALLY_PAID', settlementStatus: 'PENDING', outcome: 'UNDERPAID' });
+    expect(result.shortfallAmount).toBe('0.5');
+    expect(tx.paymentRequest.update).toHaveBeenCalledWith({
+      where: { id: paymentRequestId },
+      data: { status: 'PARTIALLY_PAID', settlementStatus: 'PENDING' },
+    });
+    expect(tx.settlementTransition.create).not.toHaveBeenCalled();
+  });
+
+  it('settles once a top-up brings the total within tolerance', async () => {
+    tx.paymentIntent.findUnique.mockResolvedValue(
+      intentRow({
+        status: 'PARTIALLY_PAID',
+        amountOutcome: 'UNDERPAID',
+        transactions: [
+          { txId: '0xfirst', amount: new Prisma.Decimal('1'), confirmations: 5, createdAt: new Date() },
+        ],
+        paymentRequest: { status: 'PARTIALLY_PAID', settlementStatus: 'PENDING' },
+      })
+    );
+
+    const result = await recordPaymentEvidence(evidence('0.5'));
+
+    expect(result).toMatchObject({
+      status: 'COMPLETED',
+      settlementStatus: 'SETTLED',
+      outcome: 'WITHIN_TOLERANCE',
+      amountReceived: '1.5',
+    });
+  });
+
+  it('completes an underpayment at PAID for review when the merchant disabled top-ups', async () => {
+    tx.paymentIntent.findUnique.mockResolvedValue(
+      intentRow({ merchant: { settleTolerancePct: new Prisma.Decimal('1'), allowUnderpaymentTopUp: false } })
+    );
+
+    const result = await recordPaymentEvidence(evidence('1'));
+
+    expect(result).toMatchObject({ status: 'COMPLETED', settlementStatus: 'PAID', outcome: 'UNDERPAID' });
+    expect(tx.paymentRequest.update).toHaveBeenCalledWith({
+      where: { id: paymentRequestId },
+      data: { status: 'COMPLETED', settlementStatus: 'PAID' },
+    });
+  });
+
+  it('completes an underpayment at PAID when the intent has already expired', async () => {
+    const expiresAt = new Date(Date.now() - HOUR);
+    tx.paymentIntent.findUnique.mockResolvedValue(
+      intentRow({
+        status: 'PARTIALLY_PAID',
+        expiresAt,
+        transactions: [
+          {
+            txId: '0xabc',
+            amount: new Prisma.Decimal('1'),
+            confirmations: 1,
+            createdAt: new Date(expiresAt.getTime() - HOUR),
+          },
+        ],
+      })
+    );
+
+    const result = await recordPaymentEvidence(evidence('1'));
+
+    expect(result).toMatchObject({ status: 'COMPLETED', settlementStatus: 'PAID', outcome: 'UNDERPAID' });
+  });
+
+  it('records a late payment for review instead of auto-settling it', async () => {
+    tx.paymentIntent.findUnique.mockResolvedValue(
+      intentRow({
+        status: 'EXPIRED',
+        expiresAt: new Date(Date.now() - HOUR),
+        paymentRequest: { status: 'EXPIRED', settlementStatus: 'PENDING' },
+      })
+    );
+
+    const result = await recordPaymentEvidence(evidence('1.5'));
+
+    expect(result).toMatchObject({ status: 'COMPLETED', settlementStatus: 'PAID', outcome: 'WITHIN_TOLERANCE' });
+    // An expired request is final and is not reopened by the evidence
+    expect(tx.paymentRequest.update).toHaveBeenCalledWith({
+      where: { id: paymentRequestId },
+      data: { status: 'EXPIRED', settlementStatus: 'PAID' },
+    });
+    expect(tx.settlementTransition.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ fromStatus: 'PENDING', toStatus: 'PAID' }),
+    });
+    expect(publishedEvents()).toEqual(expect.arrayContaining(['PaymentReceived', 'PaymentReceivedLate']));
+    expect(publishedEvents()).not.toContain('PaymentSettled');
+  });
+
+  it('refuses a transaction already recorded against another intent', async () => {
+    tx.paymentIntentTransaction.findUnique.mockResolvedValue({ id: 'other' });
+
+    await expect(recordPaymentEvidence(evidence('1.5'))).rejects.toThrow(
+      'Transaction is already recorded against another payment intent'
+    );
+    expect(tx.paymentIntent.update).not.toHaveBeenCalled();
+  });
+});
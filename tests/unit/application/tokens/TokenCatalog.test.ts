@@ -0,0 +1,128 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../../../src/infrastructure/database/client';
+import {
+  BUILT_IN_TOKENS,
+  catalogTokenProblem,
+  findCatalogToken,
+  seedTokenCatalog,
+  toPriceAsset,
+} from '../../../../src/application/tokens/TokenCatalog';
+
+jest.mock('../../../../src/infrastructure/database/client', () => ({
+  prisma: {
+    token: { findFirst: jest.fn(), findFirstOrThrow: jest.fn(), create: jest.fn() },
+    wallet: { updateMany: jest.fn() },
+  },
+}));
+
+const token = prisma.token as unknown as Record<string, jest.Mock>;
+const wallet = prisma.wallet as unknown as Record<string, jest.Mock>;
+
+describe('catalogTokenProblem', () => {
+  it('allows verified tokens', () => {
+    expect(catalogTokenProblem({ status: 'VERIFIED' }, 'solana', 'usdc')).toBeNull();
+  });
+
+  it('points merchants at a catalog request for unknown tokens', () => {
+    expect(catalogTokenProblem(null, 'solana', 'bonk')).toBe(
+      'BONK on SOLANA is not in the token catalog. Request it with POST /tokens/requests'
+    );
+  });
+
+  it('explains pending and rejected tokens', () => {
+    expect(catalogTokenProblem({ status: 'PENDING' }, 'ethereum', 'pepe')).toBe(
+      'PEPE on ETHEREUM is awaiting catalog review'
+    );
+    expect(catalogTokenProblem({ status: 'REJECTED' }, 'ethereum', 'pepe')).toBe(
+      'PEPE on ETHEREUM was rejected from the token catalog'
+    );
+  });
+});
+
+describe('toPriceAsset', () => {
+  it('passes the catalog price ids along with the symbol', () => {
+    expect(toPriceAsset({ tokenSymbol: 'USDC', token: { priceIds: { coingecko: 'usd-coin' } } })).toEqual({
+      symbol: 'USDC',
+      priceIds: { coingecko: 'usd-coin' },
+    });
+  });
+
+  it('falls back to the symbol alone for unlinked wallets or malformed ids', () => {
+    expect(toPriceAsset({ tokenSymbol: 'SOL', token: null })).toEqual({ symbol: 'SOL' });
+    expect(toPriceAsset({ tokenSymbol: 'SOL', token: { priceIds: ['solana'] } })).toEqual({ symbol: 'SOL' });
+  });
+});
+
+describe('findCatalogToken', () => {
+  beforeEach(() => {
+    token.findFirst.mockResolvedValue(null);
+  });
+
+  it('looks tokens up by contract address', async () => {
+    await findCatalogToken('ethereum', 'usdc', '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48');
+
+    expect(token.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { network: 'ETHEREUM', contractAddress: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48' },
+      })
+    );
+  });
+
+  it('looks native coins up by symbol', async () => {
+    await findCatalogToken('ethereum', 'eth');
+
+    expect(token.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { network: 'ETHEREUM', contractAddress: null, tokenSymbol: 'ETH' } })
+    );
+  });
+});
+
+describe('seedTokenCatalog', () => {
+  beforeEach(() => {
+    token.findFirst.mockResolvedValue({ id: 'existing' });
+    token.create.mockImplementation(async ({ data }) => ({ id: `${data.network}:${data.tokenSymbol}` }));
+    wallet.updateMany.mockResolvedValue({ count: 0 });
+  });
+
+  it('creates missing built-in tokens as verified', async () => {
+    token.findFirst.mockResolvedValue(null);
+
+    await seedTokenCatalog();
+
+    expect(token.create).toHaveBeenCalledTimes(BUILT_IN_TOKENS.length);
+    expect(token.create).toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ tokenSymbol: 'BTC', status: 'VERIFIED' }) })
+    );
+  });
+
+  it('links only wallets of the same contract to a seed, so native seeds never claim token wallets', async () => {
+    await seedTokenCatalog();
+
+    expect(token.create).not.toHaveBeenCalled();
+    expect(wallet.updateMany).toHaveBeenCalledWith({
+      where: { tokenId: null, network: 'ETHEREUM', tokenSymbol: 'ETH', contractAddress: null },
+      data: { tokenId: 'existing' },
+    });
+    expect(wallet.updateMany).toHaveBeenCalledWith({
+      where: {
+        tokenId: null,
+        network: 'ETHEREUM',
+        tokenSymbol: 'USDC',
+        contractAddress: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+      },
+      data: { tokenId: 'existing' },
+    });
+  });
+
+  it('uses the token another instance seeded concurrently', async () => {
+    token.findFirst.mockResolvedValue(null);
+    token.create.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: '6.1.0' })
+    );
+    token.findFirstOrThrow.mockResolvedValue({ id: 'seeded-elsewhere' });
+
+    await seedTokenCatalog();
+
+    expect(wallet.updateMany).toHaveBeenCalledWith(expect.objectContaining({ data: { tokenId: 'seeded-elsewhere' } }));
+  });
+});
@@ -0,0 +1,41 @@
+import { Prisma } from '@prisma/client';
+import { allocateDepositAddress } from '../../../../src/application/wallets/DepositAddresses';
+import { deriveAddress } from '../../../../src/domain/utils/hdWallet';
+
+const wallet = {
+  network: 'BITCOIN',
+  xpub: 'zpub6rFR7y4Q2AijBEqTUquhVz398htDFrtymD9xYYfG1m4wAcvPhXNfE3EfH1r1ADqtfSdVCToUG868RvUUkgDKf31mGDtKsAYz2oz2AGutZYs',
+  derivationPath: '0',
+};
+
+describe('allocateDepositAddress', () => {
+  let tx: any;
+
+  beforeEach(() => {
+    tx = {
+      $queryRaw: jest.fn().mockResolvedValue([]),
+      addressDerivationCursor: {
+        upsert: jest.fn().mockResolvedValue({}),
+        update: jest.fn().mockResolvedValue({ nextIndex: 8 }),
+      },
+    };
+  });
+
+  it('takes the next index when no expired address is free', async () => {
+    const deposit = await allocateDepositAddress(tx as Prisma.TransactionClient, wallet);
+
+    expect(tx.addressDerivationCursor.update).toHaveBeenCalledWith(
+      expect.objectContaining({ data: { nextIndex: { increment: 1 } } })
+    );
+    expect(deposit).toEqual({ derivationIndex: 7, address: deriveAddress('BITCOIN', wallet.xpub, '0', 7) });
+  });
+
+  it('reuses the address of intents that expired unpaid without moving the cursor', async () => {
+    tx.$queryRaw.mockResolvedValueOnce([]).mockResolvedValueOnce([{ derivationIndex: 3 }]);
+
+    const deposit = await allocateDepositAddress(tx as Prisma.TransactionClient, wallet);
+
+    expect(tx.addressDerivationCursor.update).not.toHaveBeenCalled();
+    expect(deposit).toEqual({ derivationIndex: 3, address: deriveAddress('BITCOIN', wallet.xpub, '0', 3) });
+  });
+});
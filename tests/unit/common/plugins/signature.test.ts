@@ -0,0 +1,62 @@
+import {
+  derivePluginSecret,
+  PLUGIN_ID_HEADER,
+  PLUGIN_SIGNATURE_HEADER,
+  PLUGIN_TIMESTAMP_HEADER,
+  signPluginRequest,
+  verifyPluginSignature,
+} from '../../../../src/common/plugins/signature';
+
+const secret = derivePluginSecret('master-secret', 'solana-plugin', 'salt-1');
+const request = { method: 'post', path: '/internal/decisions/settlement?dry=1', body: '{"intentId":"i-1"}' };
+const timestamp = 1_760_000_000;
+
+function signed(overrides: Partial<Parameters<typeof verifyPluginSignature>[0]> = {}) {
+  const headers = signPluginRequest('solana-plugin', secret, request, timestamp);
+
+  return verifyPluginSignature({
+    secret,
+    method: 'POST',
+    path: request.path,
+    body: request.body,
+    timestamp: headers[PLUGIN_TIMESTAMP_HEADER],
+    signature: headers[PLUGIN_SIGNATURE_HEADER],
+    now: timestamp,
+    ...overrides,
+  });
+}
+
+describe('derivePluginSecret', () => {
+  it('is deterministic and changes with the plugin id, salt or master secret', () => {
+    expect(derivePluginSecret('master-secret', 'solana-plugin', 'salt-1')).toBe(secret);
+    expect(derivePluginSecret('master-secret', 'solana-plugin', 'salt-2')).not.toBe(secret);
+    expect(derivePluginSecret('master-secret', 'evm-plugin', 'salt-1')).not.toBe(secret);
+    expect(derivePluginSecret('other-master', 'solana-plugin', 'salt-1')).not.toBe(secret);
+  });
+});
+
+describe('signPluginRequest / verifyPluginSignature', () => {
+  it('produces the plugin headers and verifies regardless of method case', () => {
+    const headers = signPluginRequest('solana-plugin', secret, request, timestamp);
+
+    expect(headers[PLUGIN_ID_HEADER]).toBe('solana-plugin');
+    expect(headers[PLUGIN_TIMESTAMP_HEADER]).toBe(String(timestamp));
+    expect(signed()).toBe(true);
+  });
+
+  it('rejects a changed method, path, body or secret', () => {
+    expect(signed({ method: 'GET' })).toBe(false);
+    expect(signed({ path: '/internal/decisions/settlement' })).toBe(false);
+    expect(signed({ body: '{"intentId":"i-2"}' })).toBe(false);
+    expect(signed({ secret: derivePluginSecret('master-secret', 'solana-plugin', 'salt-2') })).toBe(false);
+  });
+
+  it('rejects missing, malformed or stale timestamps and signatures', () => {
+    expect(signed({ timestamp: undefined })).toBe(false);
+    expect(signed({ timestamp: '17e8' })).toBe(false);
+    expect(signed({ signature: undefined })).toBe(false);
+    expect(signed({ signature: 'abcd' })).toBe(false);
+    expect(signed({ now: timestamp + 301 })).toBe(false);
+    expect(signed({ now: timestamp + 300 })).toBe(true);
+  });
+});
@@ -0,0 +1,67 @@
+import crypto from 'crypto';
+import {
+  buildSignatureHeader,
+  computeSignature,
+  parseSignatureHeader,
+  verifyWebhookSignature,
+} from '../../../../src/common/webhooks/signature';
+
+const rawBody = '{"id":"evt_1","event":"PaymentReceived","data":{"amount":"10.00"}}';
+const timestamp = 1_760_000_000;
+
+describe('computeSignature', () => {
+  it('is the hex HMAC-SHA256 of "<timestamp>.<body>"', () => {
+    const expected = crypto.createHmac('sha256', 'secret').update(`${timestamp}.${rawBody}`).digest('hex');
+
+    expect(computeSignature('secret', timestamp, rawBody)).toBe(expected);
+  });
+});
+
+describe('buildSignatureHeader / parseSignatureHeader', () => {
+  it('signs with every secret and round-trips through the parser', () => {
+    const header = buildSignatureHeader(['current', 'previous'], rawBody, timestamp);
+
+    expect(header).toMatch(/^t=1760000000,v1=[0-9a-f]{64},v1=[0-9a-f]{64}$/);
+    expect(parseSignatureHeader(header)).toEqual({
+      timestamp,
+      signatures: [computeSignature('current', timestamp, rawBody), computeSignature('previous', timestamp, rawBody)],
+    });
+  });
+
+  it('ignores unknown schemes and rejects headers without a timestamp or v1 signature', () => {
+    expect(parseSignatureHeader(`t=${timestamp},v0=abc,v1=def`)).toEqual({ timestamp, signatures: ['def'] });
+    expect(parseSignatureHeader('v1=def')).toBeNull();
+    expect(parseSignatureHeader(`t=${timestamp}`)).toBeNull();
+    expect(parseSignatureHeader('t=soon,v1=def')).toBeNull();
+  });
+});
+
+describe('verifyWebhookSignature', () => {
+  const header = buildSignatureHeader(['secret'], rawBody, timestamp);
+
+  it('accepts a fresh signature over the exact body, as a string or Buffer', () => {
+    expect(verifyWebhookSignature({ rawBody, header, secret: 'secret', now: timestamp + 10 })).toBe(true);
+    expect(verifyWebhookSignature({ rawBody: Buffer.from(rawBody), header, secret: 'secret', now: timestamp })).toBe(true);
+  });
+
+  it('accepts either signature while a rotated secret is in its grace window', () => {
+    const rotated = buildSignatureHeader(['new-secret', 'secret'], rawBody, timestamp);
+
+    expect(verifyWebhookSignature({ rawBody, header: rotated, secret: 'secret', now: timestamp })).toBe(true);
+    expect(verifyWebhookSignature({ rawBody, header: rotated, secret: 'new-secret', now: timestamp })).toBe(true);
+  });
+
+  it('rejects a wrong secret, a modified body or a missing header', () => {
+    expect(verifyWebhookSignature({ rawBody, header, secret: 'other', now: timestamp })).toBe(false);
+    expect(verifyWebhookSignature({ rawBody: `${rawBody} `, header, secret: 'secret', now: timestamp })).toBe(false);
+    expect(verifyWebhookSignature({ rawBody, header: undefined, secret: 'secret', now: timestamp })).toBe(false);
+  });
+
+  it('rejects signatures outside the tolerance window', () => {
+    expect(verifyWebhookSignature({ rawBody, header, secret: 'secret', now: timestamp + 301 })).toBe(false);
+    expect(verifyWebhookSignature({ rawBody, header, secret: 'secret', now: timestamp - 301 })).toBe(false);
+    expect(
+      verifyWebhookSignature({ rawBody, header, secret: 'secret', now: timestamp + 900, toleranceSeconds: 1000 })
+    ).toBe(true);
+  });
+});
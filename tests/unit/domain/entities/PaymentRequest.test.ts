@@ -0,0 +1,30 @@
+import { PaymentRequest, SettlementStatus } from '../../../../src/domain/entities/PaymentRequest';
+import { ConflictError } from '../../../../src/common/errors/AppError';
+
+describe('PaymentRequest settlement transitions', () => {
+  it('allows the transitions in the transition table', () => {
+    expect(PaymentRequest.canTransitionSettlement(SettlementStatus.PENDING, SettlementStatus.PAID)).toBe(true);
+    expect(PaymentRequest.canTransitionSettlement(SettlementStatus.PAID, SettlementStatus.SETTLED)).toBe(true);
+    expect(PaymentRequest.canTransitionSettlement(SettlementStatus.SETTLED, SettlementStatus.REISSUED)).toBe(true);
+  });
+
+  it('rejects moving a settled payment back to pending', () => {
+    expect(PaymentRequest.canTransitionSettlement(SettlementStatus.SETTLED, SettlementStatus.PENDING)).toBe(false);
+  });
+
+  it('throws a 409 listing the allowed targets', () => {
+    let caught: unknown;
+    try {
+      PaymentRequest.assertSettlementTransition(SettlementStatus.PAID, SettlementStatus.CANCELED);
+    } catch (error) {
+      caught = error;
+    }
+
+    expect(caught).toBeInstanceOf(ConflictError);
+    expect(caught).toMatchObject({
+      statusCode: 409,
+      code: 'INVALID_SETTLEMENT_TRANSITION',
+      details: { from: 'PAID', to: 'CANCELED', allowed: ['SETTLED', 'REJECTED'] },
+    });
+  });
+});
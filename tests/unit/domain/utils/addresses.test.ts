@@ -0,0 +1,101 @@
+import {
+  normalizeAddressFields,
+  validateAddress,
+  validateBitcoinAddress,
+  validateEvmAddress,
+  validateSolanaAddress,
+  validateTronAddress,
+} from '../../../../src/domain/utils/addresses';
+import { ValidationError } from '../../../../src/common/errors/AppError';
+
+const EIP55 = '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed';
+
+describe('validateEvmAddress', () => {
+  it('returns the EIP-55 checksum form of unchecksummed addresses', () => {
+    expect(validateEvmAddress(EIP55.toLowerCase())).toEqual({ valid: true, address: EIP55 });
+    expect(validateEvmAddress(EIP55)).toEqual({ valid: true, address: EIP55 });
+  });
+
+  it('rejects a mixed-case address with a wrong checksum', () => {
+    const typo = EIP55.replace('aAeb', 'aaEb');
+    expect(validateEvmAddress(typo)).toMatchObject({ valid: false, error: expect.stringContaining('checksum') });
+  });
+
+  it('rejects malformed addresses', () => {
+    expect(validateEvmAddress('0x1234').valid).toBe(false);
+  });
+});
+
+describe('validateBitcoinAddress', () => {
+  it('accepts base58 P2PKH and P2SH addresses', () => {
+    expect(validateBitcoinAddress('1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa').valid).toBe(true);
+    expect(validateBitcoinAddress('3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy').valid).toBe(true);
+  });
+
+  it('accepts segwit v0 and taproot addresses in lower case', () => {
+    expect(validateBitcoinAddress('BC1QW508D6QEJXTDG4Y5R3ZARVARY0C5XW7KV8F3T4')).toEqual({
+      valid: true,
+      address: 'bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4',
+    });
+    expect(
+      validateBitcoinAddress('bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0').valid
+    ).toBe(true);
+  });
+
+  it('rejects mixed case, bad checksums and testnet addresses', () => {
+    expect(validateBitcoinAddress('bc1qW508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4').valid).toBe(false);
+    expect(validateBitcoinAddress('bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t5').valid).toBe(false);
+    expect(validateBitcoinAddress('tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx').valid).toBe(false);
+    expect(validateBitcoinAddress('1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNb').valid).toBe(false);
+  });
+});
+
+describe('validateSolanaAddress and validateTronAddress', () => {
+  it('accepts 32-byte Solana keys only', () => {
+    expect(validateSolanaAddress('So11111111111111111111111111111111111111112').valid).toBe(true);
+    expect(validateSolanaAddress('So1111111111').valid).toBe(false);
+    expect(validateSolanaAddress('0OIl').valid).toBe(false);
+  });
+
+  it('accepts base58check Tron addresses', () => {
+    expect(validateTronAddress('TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t').valid).toBe(true);
+    expect(validateTronAddress('TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6u').valid).toBe(false);
+  });
+});
+
+describe('validateAddress', () => {
+  it('trims input and dispatches by network', () => {
+    expect(validateAddress('polygon', ` ${EIP55.toLowerCase()} `)).toEqual({ valid: true, address: EIP55 });
+  });
+
+  it('rejects missing addresses and networks without a validator', () => {
+    expect(validateAddress('ETHEREUM', '')).toMatchObject({ valid: false });
+    expect(validateAddress('DOGECOIN', 'D8vFz4p1L37jdg47HXKtSHA5uYLYxbGgPD')).toMatchObject({
+      valid: false,
+      error: expect.stringContaining('DOGECOIN'),
+    });
+  });
+});
+
+describe('normalizeAddressFields', () => {
+  it('returns canonical addresses and skips empty fields', () => {
+    expect(
+      normalizeAddressFields('ETHEREUM', { walletAddress: EIP55.toLowerCase(), contractAddress: null })
+    ).toEqual({ walletAddress: EIP55 });
+  });
+
+  it('reports every invalid field at once', () => {
+    let caught: unknown;
+    try {
+      normalizeAddressFields('ETHEREUM', { walletAddress: '0x12', contractAddress: 'nope' });
+    } catch (error) {
+      caught = error;
+    }
+
+    expect(caught).toBeInstanceOf(ValidationError);
+    expect((caught as ValidationError).details).toEqual([
+      expect.objectContaining({ field: 'walletAddress', type: 'address.invalid' }),
+      expect.objectContaining({ field: 'contractAddress', type: 'address.invalid' }),
+    ]);
+  });
+});
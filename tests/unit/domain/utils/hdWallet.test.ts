@@ -0,0 +1,71 @@
+import {
+  deriveAddress,
+  supportsAddressDerivation,
+  validateExtendedPublicKey,
+} from '../../../../src/domain/utils/hdWallet';
+import { validateTronAddress } from '../../../../src/domain/utils/addresses';
+import { ValidationError } from '../../../../src/common/errors/AppError';
+
+// Account keys of the "abandon abandon ... about" test mnemonic (BIP44 / BIP84 test vectors)
+const BIP44_BITCOIN_XPUB =
+  'xpub6BosfCnifzxcFwrSzQiqu2DBVTshkCXacvNsWGYJVVhhawA7d4R5WSWGFNbi8Aw6ZRc1brxMyWMzG3DSSSSoekkudhUd9yLb6qx39T9nMdj';
+const BIP84_ZPUB =
+  'zpub6rFR7y4Q2AijBEqTUquhVz398htDFrtymD9xYYfG1m4wAcvPhXNfE3EfH1r1ADqtfSdVCToUG868RvUUkgDKf31mGDtKsAYz2oz2AGutZYs';
+const BIP44_ETHEREUM_XPUB =
+  'xpub6DCoCpSuQZB2jawqnGMEPS63ePKWkwWPH4TU45Q7LPXWuNd8TMtVxRrgjtEshuqpK3mdhaWHPFsBngh5GFZaM6si3yZdUsT8ddYM3PwnATt';
+
+describe('deriveAddress', () => {
+  it('derives BIP84 native segwit addresses from a zpub', () => {
+    expect(deriveAddress('BITCOIN', BIP84_ZPUB, '0', 0)).toBe('bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu');
+    expect(deriveAddress('BITCOIN', BIP84_ZPUB, '0', 1)).toBe('bc1qnjg0jd8228aq7egyzacy8cys3knf9xvrerkf9g');
+    expect(deriveAddress('BITCOIN', BIP84_ZPUB, '1', 0)).toBe('bc1q8c6fshw2dlwun7ekn9qwf37cu2rn755upcp6el');
+  });
+
+  it('derives legacy P2PKH addresses from an xpub', () => {
+    expect(deriveAddress('BITCOIN', BIP44_BITCOIN_XPUB, '0', 0)).toBe('1LqBGSKuX5yYUonjxT5qGfpUsXKYYWeabA');
+  });
+
+  it('derives checksummed EVM addresses and valid Tron addresses', () => {
+    expect(deriveAddress('ETHEREUM', BIP44_ETHEREUM_XPUB, '0', 0)).toBe('0x9858EfFD232B4033E47d90003D41EC34EcaEda94');
+    expect(deriveAddress('POLYGON', BIP44_ETHEREUM_XPUB, '0', 0)).toBe('0x9858EfFD232B4033E47d90003D41EC34EcaEda94');
+    expect(validateTronAddress(deriveAddress('TRON', BIP44_ETHEREUM_XPUB, '0', 0)).valid).toBe(true);
+  });
+
+  it('rejects indexes outside the non-hardened range', () => {
+    expect(() => deriveAddress('BITCOIN', BIP84_ZPUB, '0', -1)).toThrow(RangeError);
+    expect(() => deriveAddress('BITCOIN', BIP84_ZPUB, '0', 0x80000000)).toThrow(RangeError);
+  });
+});
+
+describe('validateExtendedPublicKey', () => {
+  function fieldOf(run: () => void): string | undefined {
+    try {
+      run();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ValidationError);
+      return (error as ValidationError).details?.[0]?.field;
+    }
+    return undefined;
+  }
+
+  it('accepts a key and path it can derive from', () => {
+    expect(() => validateExtendedPublicKey('BITCOIN', BIP84_ZPUB, '0')).not.toThrow();
+  });
+
+  it('only accepts segwit key prefixes on Bitcoin', () => {
+    expect(fieldOf(() => validateExtendedPublicKey('ETHEREUM', BIP84_ZPUB, '0'))).toBe('xpub');
+  });
+
+  it('refuses private keys, corrupted keys and Solana', () => {
+    expect(fieldOf(() => validateExtendedPublicKey('BITCOIN', `xprv${BIP44_BITCOIN_XPUB.slice(4)}`, '0'))).toBe('xpub');
+    expect(fieldOf(() => validateExtendedPublicKey('BITCOIN', `${BIP44_BITCOIN_XPUB.slice(0, -1)}k`, '0'))).toBe('xpub');
+    expect(supportsAddressDerivation('solana')).toBe(false);
+    expect(fieldOf(() => validateExtendedPublicKey('SOLANA', BIP44_BITCOIN_XPUB, '0'))).toBe('xpub');
+  });
+
+  it('refuses hardened or malformed derivation paths', () => {
+    expect(fieldOf(() => validateExtendedPublicKey('BITCOIN', BIP84_ZPUB, "0'"))).toBe('derivationPath');
+    expect(fieldOf(() => validateExtendedPublicKey('BITCOIN', BIP84_ZPUB, '0/'))).toBe('derivationPath');
+    expect(fieldOf(() => validateExtendedPublicKey('BITCOIN', BIP84_ZPUB, '2147483648'))).toBe('derivationPath');
+  });
+});
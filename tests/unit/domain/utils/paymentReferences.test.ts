@@ -0,0 +1,19 @@
+import { base58 } from '@scure/base';
+import { generatePaymentReference, paymentReferenceType } from '../../../../src/domain/utils/paymentReferences';
+
+describe('payment references', () => {
+  it('generates a random 32-byte Solana Pay reference key', () => {
+    const reference = generatePaymentReference('solana')!;
+
+    expect(paymentReferenceType('SOLANA')).toBe('solana-pay-reference');
+    expect(base58.decode(reference)).toHaveLength(32);
+    expect(generatePaymentReference('SOLANA')).not.toBe(reference);
+  });
+
+  it('has no reference on networks matched by address', () => {
+    for (const network of ['BITCOIN', 'ETHEREUM', 'TRON', 'XRP']) {
+      expect(paymentReferenceType(network)).toBeNull();
+      expect(generatePaymentReference(network)).toBeNull();
+    }
+  });
+});
@@ -0,0 +1,72 @@
+import { Prisma } from '@prisma/client';
+import { buildPaymentUri, PaymentUriInput } from '../../../../src/domain/utils/paymentUris';
+
+function uri(overrides: Partial<PaymentUriInput>): string | null {
+  return buildPaymentUri({
+    network: 'BITCOIN',
+    address: 'bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu',
+    amount: new Prisma.Decimal('0.00125000'),
+    decimals: 8,
+    contractAddress: null,
+    ...overrides,
+  });
+}
+
+describe('buildPaymentUri', () => {
+  it('builds BIP21 URIs with a plain decimal amount and encoded label', () => {
+    expect(uri({ label: 'Acme & Co', message: 'Order 42' })).toBe(
+      'bitcoin:bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu?amount=0.00125&label=Acme%20%26%20Co&message=Order%2042'
+    );
+  });
+
+  it('never uses exponent notation for tiny amounts', () => {
+    expect(uri({ amount: new Prisma.Decimal('1e-8') })).toContain('amount=0.00000001');
+  });
+
+  it('builds EIP-681 native transfers in wei with the chain id', () => {
+    expect(
+      uri({
+        network: 'polygon',
+        address: '0x9858EfFD232B4033E47d90003D41EC34EcaEda94',
+        amount: new Prisma.Decimal('1.5'),
+        decimals: 18,
+      })
+    ).toBe('ethereum:0x9858EfFD232B4033E47d90003D41EC34EcaEda94@137?value=1500000000000000000');
+  });
+
+  it('builds EIP-681 token transfers, rounding base units up', () => {
+    expect(
+      uri({
+        network: 'ETHEREUM',
+        address: '0x9858EfFD232B4033E47d90003D41EC34EcaEda94',
+        amount: new Prisma.Decimal('10.0000001'),
+        decimals: 6,
+        contractAddress: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+      })
+    ).toBe(
+      'ethereum:0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48@1/transfer' +
+        '?address=0x9858EfFD232B4033E47d90003D41EC34EcaEda94&uint256=10000001'
+    );
+  });
+
+  it('builds Solana Pay transfer requests with the token mint and reference', () => {
+    expect(
+      uri({
+        network: 'SOLANA',
+        address: 'So11111111111111111111111111111111111111112',
+        amount: new Prisma.Decimal('2.50'),
+        decimals: 6,
+        contractAddress: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+        reference: '11111111111111111111111111111111',
+        label: null,
+      })
+    ).toBe(
+      'solana:So11111111111111111111111111111111111111112?amount=2.5' +
+        '&spl-token=EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v&reference=11111111111111111111111111111111'
+    );
+  });
+
+  it('returns null for networks without a payment URI scheme', () => {
+    expect(uri({ network: 'TRON', address: 'TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t' })).toBeNull();
+  });
+});
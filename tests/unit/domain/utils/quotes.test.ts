@@ -0,0 +1,36 @@
+import { Prisma } from '@prisma/client';
+import { quoteCryptoAmount } from '../../../../src/domain/utils/quotes';
+
+const decimal = (value: string) => new Prisma.Decimal(value);
+
+describe('quoteCryptoAmount', () => {
+  it('divides the fiat amount by the rate', () => {
+    expect(quoteCryptoAmount(decimal('100'), decimal('2500'), 18).toFixed()).toBe('0.04');
+  });
+
+  it('rounds up to the token decimals so the buyer never underpays', () => {
+    // 10 / 3 = 3.333333…
+    expect(quoteCryptoAmount(decimal('10'), decimal('3'), 6).toFixed()).toBe('3.333334');
+    expect(quoteCryptoAmount(decimal('10'), decimal('3'), 0).toFixed()).toBe('4');
+  });
+
+  it('does not round an amount that is already exact at the token precision', () => {
+    expect(quoteCryptoAmount(decimal('25.50'), decimal('1'), 6).toFixed()).toBe('25.5');
+  });
+
+  it('never quotes below the fiat value at the quoted rate', () => {
+    const amountFiat = decimal('19.99');
+    const quoteRate = decimal('64123.45');
+    const amount = quoteCryptoAmount(amountFiat, quoteRate, 8);
+
+    expect(amount.decimalPlaces()).toBeLessThanOrEqual(8);
+    expect(amount.mul(quoteRate).gte(amountFiat)).toBe(true);
+  });
+
+  it('caps the precision at the 18 decimals the amount column stores', () => {
+    const amount = quoteCryptoAmount(decimal('1'), decimal('3'), 24);
+
+    expect(amount.decimalPlaces()).toBe(18);
+    expect(amount.toFixed()).toBe('0.333333333333333334');
+  });
+});
@@ -0,0 +1,39 @@
+import { assertRefundTransition, REFUND_STATUS_TIMESTAMPS } from '../../../../src/domain/utils/refunds';
+import { ConflictError } from '../../../../src/common/errors/AppError';
+import { refundSchemas } from '../../../../src/common/validation/schemas';
+
+describe('assertRefundTransition', () => {
+  it('allows requested -> approved -> sent -> confirmed', () => {
+    expect(() => assertRefundTransition('REQUESTED', 'APPROVED')).not.toThrow();
+    expect(() => assertRefundTransition('APPROVED', 'SENT')).not.toThrow();
+    expect(() => assertRefundTransition('SENT', 'CONFIRMED')).not.toThrow();
+  });
+
+  it('allows canceling until the refund is sent', () => {
+    expect(() => assertRefundTransition('REQUESTED', 'CANCELED')).not.toThrow();
+    expect(() => assertRefundTransition('APPROVED', 'CANCELED')).not.toThrow();
+    expect(() => assertRefundTransition('SENT', 'CANCELED')).toThrow(ConflictError);
+  });
+
+  it('rejects skipped steps and changes to terminal refunds with the allowed targets', () => {
+    expect(() => assertRefundTransition('REQUESTED', 'SENT')).toThrow(
+      expect.objectContaining({
+        code: 'INVALID_REFUND_TRANSITION',
+        details: { from: 'REQUESTED', to: 'SENT', allowed: ['APPROVED', 'CANCELED'] },
+      })
+    );
+    expect(() => assertRefundTransition('CONFIRMED', 'CANCELED')).toThrow(ConflictError);
+    expect(() => assertRefundTransition('CANCELED', 'APPROVED')).toThrow(ConflictError);
+  });
+
+  it('records a timestamp for every status a refund can move to', () => {
+    expect(Object.keys(REFUND_STATUS_TIMESTAMPS).sort()).toEqual(['APPROVED', 'CANCELED', 'CONFIRMED', 'SENT']);
+  });
+});
+
+describe('refundSchemas.refundParams', () => {
+  it('only accepts UUID refund ids', () => {
+    expect(refundSchemas.refundParams.validate({ refundId: '0b6f3c1e-2f61-4a8e-9a57-5d8f8b2b1c01' }).error).toBeUndefined();
+    expect(refundSchemas.refundParams.validate({ refundId: 'not-a-uuid' }).error?.message).toBe('Invalid ID format');
+  });
+});
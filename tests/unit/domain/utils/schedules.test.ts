@@ -0,0 +1,84 @@
+import {
+  cronExpressionProblem,
+  cronIntervalProblem,
+  nextScheduleRunAt,
+} from '../../../../src/domain/utils/schedules';
+
+const from = new Date('2025-11-10T12:00:00Z');
+
+describe('cronExpressionProblem', () => {
+  it('accepts 5- and 6-field expressions', () => {
+    expect(cronExpressionProblem('0 9 * * 1', 'Europe/Berlin')).toBeNull();
+    expect(cronExpressionProblem('0 0 9 1 * *', 'UTC')).toBeNull();
+  });
+
+  it('returns the parser message for invalid expressions', () => {
+    expect(cronExpressionProblem('61 9 * * *', 'UTC')).toEqual(expect.any(String));
+  });
+});
+
+describe('cronIntervalProblem', () => {
+  it('allows daily and less frequent schedules', () => {
+    expect(cronIntervalProblem('0 9 * * *', 'UTC', from)).toBeNull();
+    expect(cronIntervalProblem('0 9 1,15 * *', 'UTC', from)).toBeNull();
+  });
+
+  it('rejects schedules running more than once a day', () => {
+    expect(cronIntervalProblem('* * * * *', 'UTC', from)).toContain('1 minute(s) apart');
+    expect(cronIntervalProblem('* * * * * *', 'UTC', from)).toContain('0 minute(s) apart');
+    expect(cronIntervalProblem('0 9,17 * * 1', 'UTC', from)).toContain('480 minute(s) apart');
+  });
+
+  it('measures gaps in local time, so daily runs across a daylight saving change pass', () => {
+    // Berlin leaves summer time on 2025-10-26, a 25-hour day; it enters it on 2026-03-29, a 23-hour day
+    expect(cronIntervalProblem('0 9 * * *', 'Europe/Berlin', new Date('2025-10-24T00:00:00Z'))).toBeNull();
+    expect(cronIntervalProblem('30 2 * * *', 'Europe/Berlin', new Date('2026-03-27T00:00:00Z'))).toBeNull();
+  });
+});
+
+describe('nextScheduleRunAt', () => {
+  it('returns startAt while it is still ahead', () => {
+    const startAt = new Date('2025-12-01T09:00:00Z');
+
+    expect(nextScheduleRunAt({ cadence: 'WEEKLY', cronExpression: null, startAt, timezone: 'UTC' }, from)).toEqual(
+      startAt
+    );
+  });
+
+  it('counts weekly runs from startAt and skips the runs that were missed', () => {
+    const startAt = new Date('2025-10-01T09:00:00Z'); // a Wednesday
+
+    expect(nextScheduleRunAt({ cadence: 'WEEKLY', cronExpression: null, startAt, timezone: 'UTC' }, from)).toEqual(
+      new Date('2025-11-12T09:00:00Z')
+    );
+  });
+
+  it('bills monthly schedules starting on the 31st on the last day of shorter months', () => {
+    const schedule = {
+      cadence: 'MONTHLY' as const,
+      cronExpression: null,
+      startAt: new Date('2025-01-31T10:00:00Z'),
+      timezone: 'UTC',
+    };
+
+    expect(nextScheduleRunAt(schedule, new Date('2025-02-01T00:00:00Z'))).toEqual(new Date('2025-02-28T10:00:00Z'));
+    expect(nextScheduleRunAt(schedule, new Date('2025-03-01T00:00:00Z'))).toEqual(new Date('2025-03-31T10:00:00Z'));
+  });
+
+  it('keeps the local time across daylight saving changes', () => {
+    const startAt = new Date('2025-10-20T07:00:00Z'); // Monday 09:00 in Berlin (CEST)
+
+    expect(
+      nextScheduleRunAt({ cadence: 'WEEKLY', cronExpression: null, startAt, timezone: 'Europe/Berlin' }, from)
+    ).toEqual(new Date('2025-11-17T08:00:00Z')); // Monday 09:00 in Berlin (CET)
+  });
+
+  it('evaluates cron schedules in the merchant timezone', () => {
+    expect(
+      nextScheduleRunAt(
+        { cadence: 'CRON', cronExpression: '0 9 * * *', startAt: from, timezone: 'America/New_York' },
+        from
+      )
+    ).toEqual(new Date('2025-11-10T14:00:00Z'));
+  });
+});
@@ -0,0 +1,65 @@
+import { Prisma } from '@prisma/client';
+import {
+  canAdvanceRequestStatus,
+  classifyReceivedAmount,
+  maximumAcceptedAmount,
+  minimumAcceptedAmount,
+} from '../../../../src/domain/utils/settlement';
+
+const decimal = (value: string) => new Prisma.Decimal(value);
+
+describe('classifyReceivedAmount', () => {
+  const expected = decimal('1.5');
+
+  it('accepts the exact amount', () => {
+    expect(classifyReceivedAmount(expected, decimal('1.5'), 1)).toBe('WITHIN_TOLERANCE');
+  });
+
+  it('accepts amounts inside the tolerance band on either side', () => {
+    expect(classifyReceivedAmount(expected, decimal('1.49'), 1)).toBe('WITHIN_TOLERANCE');
+    expect(classifyReceivedAmount(expected, decimal('1.51'), 1)).toBe('WITHIN_TOLERANCE');
+  });
+
+  it('treats amounts exactly on the tolerance boundaries as within tolerance', () => {
+    expect(minimumAcceptedAmount(expected, 1).toFixed()).toBe('1.485');
+    expect(maximumAcceptedAmount(expected, 1).toFixed()).toBe('1.515');
+    expect(classifyReceivedAmount(expected, decimal('1.485'), 1)).toBe('WITHIN_TOLERANCE');
+    expect(classifyReceivedAmount(expected, decimal('1.515'), 1)).toBe('WITHIN_TOLERANCE');
+  });
+
+  it('flags amounts just outside the band', () => {
+    expect(classifyReceivedAmount(expected, decimal('1.484999999999999999'), 1)).toBe('UNDERPAID');
+    expect(classifyReceivedAmount(expected, decimal('1.515000000000000001'), 1)).toBe('OVERPAID');
+  });
+
+  it('requires the exact amount when the tolerance is zero', () => {
+    expect(classifyReceivedAmount(expected, decimal('1.5'), 0)).toBe('WITHIN_TOLERANCE');
+    expect(classifyReceivedAmount(expected, decimal('1.499999999999999999'), decimal('0'))).toBe('UNDERPAID');
+    expect(classifyReceivedAmount(expected, decimal('1.500000000000000001'), decimal('0'))).toBe('OVERPAID');
+  });
+
+  it('accepts a decimal tolerance', () => {
+    expect(classifyReceivedAmount(decimal('100'), decimal('99.5'), decimal('0.5'))).toBe('WITHIN_TOLERANCE');
+    expect(classifyReceivedAmount(decimal('100'), decimal('99.49'), decimal('0.5'))).toBe('UNDERPAID');
+  });
+});
+
+
+describe('canAdvanceRequestStatus', () => {
+  it('moves open requests forward on new evidence', () => {
+    expect(canAdvanceRequestStatus('PENDING', 'PROCESSING')).toBe(true);
+    expect(canAdvanceRequestStatus('PROCESSING', 'COMPLETED')).toBe(true);
+    expect(canAdvanceRequestStatus('PARTIALLY_PAID', 'PROCESSING')).toBe(true);
+  });
+
+  it('never moves a request back to pending', () => {
+    expect(canAdvanceRequestStatus('PROCESSING', 'PENDING')).toBe(false);
+  });
+
+  it('keeps final requests where they are', () => {
+    for (const from of ['COMPLETED', 'EXPIRED', 'CANCELLED', 'FAILED'] as const) {
+      expect(canAdvanceRequestStatus(from, 'PROCESSING')).toBe(false);
+      expect(canAdvanceRequestStatus(from, 'COMPLETED')).toBe(false);
+    }
+  });
+});
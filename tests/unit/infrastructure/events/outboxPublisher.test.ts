@@ -0,0 +1,97 @@
+import { Prisma } from '@prisma/client';
+import {
+  EventSourcedAggregate,
+  publishAggregateEvents,
+  publishDomainEvents,
+  toOutboxPayload,
+} from '../../../../src/infrastructure/events/outboxPublisher';
+import { PaymentIntentExpired, PaymentRequestCreated } from '../../../../src/domain/events/DomainEvent';
+
+const merchantId = '0b6f3c1e-2f61-4a8e-9a57-5d8f8b2b1c01';
+
+describe('outboxPublisher', () => {
+  let tx: { outbox: { createMany: jest.Mock } };
+
+  beforeEach(() => {
+    tx = { outbox: { createMany: jest.fn().mockResolvedValue({ count: 0 }) } };
+  });
+
+  describe('toOutboxPayload', () => {
+    it('adds the event name and serializes dates to ISO strings', () => {
+      const expiresAt = new Date('2025-11-10T12:00:00.000Z');
+      const event = new PaymentIntentExpired('intent-1', 'request-1', merchantId, expiresAt);
+
+      expect(toOutboxPayload(event)).toEqual({
+        event: 'PaymentIntentExpired',
+        eventId: event.eventId,
+        occurredAt: event.occurredAt.toISOString(),
+        paymentIntentId: 'intent-1',
+        paymentRequestId: 'request-1',
+        merchantId,
+        expiresAt: '2025-11-10T12:00:00.000Z',
+      });
+    });
+  });
+
+  describe('publishDomainEvents', () => {
+    it('writes one outbox row per event through the caller transaction', async () => {
+      const created = new PaymentRequestCreated('request-1', merchantId, 25, 'USD');
+      const expired = new PaymentIntentExpired('intent-1', 'request-1', merchantId, new Date());
+
+      await publishDomainEvents(tx as unknown as Prisma.TransactionClient, [created, expired]);
+
+      expect(tx.outbox.createMany).toHaveBeenCalledTimes(1);
+      expect(tx.outbox.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            id: created.eventId,
+            eventType: 'PaymentRequestCreated',
+            aggregateId: 'request-1',
+            merchantId,
+            webhookId: null,
+            createdAt: created.occurredAt,
+          }),
+          expect.objectContaining({
+            id: expired.eventId,
+            eventType: 'PaymentIntentExpired',
+            aggregateId: 'request-1',
+            merchantId,
+          }),
+        ],
+      });
+    });
+
+    it('targets a single webhook when one is given', async () => {
+      const event = new PaymentRequestCreated('request-1', merchantId, 25, 'USD');
+
+      await publishDomainEvents(tx as unknown as Prisma.TransactionClient, [event], { webhookId: 'hook-1' });
+
+      expect(tx.outbox.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ webhookId: 'hook-1' })],
+      });
+    });
+
+    it('does not touch the outbox when there are no events', async () => {
+      await publishDomainEvents(tx as unknown as Prisma.TransactionClient, []);
+
+      expect(tx.outbox.createMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('publishAggregateEvents', () => {
+    it('publishes the collected events and clears them from the aggregate', async () => {
+      const event = new PaymentRequestCreated('request-1', merchantId, 25, 'USD');
+      const aggregate: EventSourcedAggregate = {
+        getDomainEvents: jest.fn(() => [event]),
+        clearDomainEvents: jest.fn(),
+      };
+
+      await publishAggregateEvents(tx as unknown as Prisma.TransactionClient, aggregate);
+
+      expect(tx.outbox.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ id: event.eventId })],
+      });
+      expect(aggregate.clearDomainEvents).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import axios from 'axios';
+import { redis } from '../../../../src/infrastructure/cache/redis';
+import { CoinGeckoPriceProvider } from '../../../../src/infrastructure/pricing/CoinGeckoPriceProvider';
+
+jest.mock('axios', () => ({
+  __esModule: true,
+  default: { get: jest.fn() },
+}));
+
+jest.mock('../../../../src/infrastructure/cache/redis', () => ({
+  redis: { get: jest.fn(), set: jest.fn() },
+}));
+
+const get = axios.get as jest.Mock;
+const cache = redis as unknown as { get: jest.Mock; set: jest.Mock };
+
+function cachedPrice(price: number, ageSeconds: number): string {
+  return JSON.stringify({ price, fetchedAt: Date.now() - ageSeconds * 1000 });
+}
+
+describe('CoinGeckoPriceProvider', () => {
+  let provider: CoinGeckoPriceProvider;
+
+  beforeEach(() => {
+    cache.get.mockResolvedValue(null);
+    cache.set.mockResolvedValue('OK');
+    provider = new CoinGeckoPriceProvider(60);
+  });
+
+  it('asks for the price in the requested fiat currency', async () => {
+    get.mockResolvedValue({ data: { ethereum: { eur: 2900.5 } } });
+
+    const quote = await provider.getQuote({ symbol: 'eth' }, 'EUR');
+
+    expect(get).toHaveBeenCalledWith(
+      expect.stringContaining('/simple/price'),
+      expect.objectContaining({ params: { ids: 'ethereum', vs_currencies: 'eur' } })
+    );
+    expect(quote).toMatchObject({ symbol: 'ETH', currency: 'EUR', price: 2900.5, source: 'coingecko' });
+  });
+
+  it('caches prices per coin and currency', async () => {
+    get.mockResolvedValue({ data: { ethereum: { gbp: 2500 } } });
+
+    await provider.getQuote({ symbol: 'ETH' }, 'GBP');
+
+    expect(cache.get).toHaveBeenCalledWith('price:ethereum:GBP');
+    expect(cache.set).toHaveBeenCalledWith('price:ethereum:GBP', expect.any(String), 'EX', 3600);
+  });
+
+  it('serves a cached price within the TTL without calling the API', async () => {
+    cache.get.mockImplementation(async (key: string) => (key === 'price:ethereum:USD' ? cachedPrice(3100, 10) : null));
+
+    const quote = await provider.getQuote({ symbol: 'ETH' }, 'USD');
+
+    expect(get).not.toHaveBeenCalled();
+    expect(quote?.price).toBe(3100);
+  });
+
+  it('never serves a price cached for another currency', async () => {
+    cache.get.mockImplementation(async (key: string) => (key === 'price:ethereum:USD' ? cachedPrice(3100, 10) : null));
+    get.mockResolvedValue({ data: { ethereum: { eur: 2900 } } });
+
+    const quote = await provider.getQuote({ symbol: 'ETH' }, 'EUR');
+
+    expect(get).toHaveBeenCalledTimes(1);
+    expect(quote).toMatchObject({ currency: 'EUR', price: 2900 });
+  });
+
+  it('falls back to an expired cached price with its real age when the API fails', async () => {
+    cache.get.mockResolvedValue(cachedPrice(140, 600));
+    get.mockRejectedValue(new Error('503'));
+
+    const quote = await provider.getQuote({ symbol: 'SOL' }, 'USD');
+
+    expect(quote?.price).toBe(140);
+    expect(Date.now() - quote!.fetchedAt.getTime()).toBeGreaterThanOrEqual(600 * 1000);
+  });
+
+  it('uses the catalog price id before the built-in map', async () => {
+    get.mockResolvedValue({ data: { 'bridged-usdc': { usd: 0.999 } } });
+
+    await provider.getQuote({ symbol: 'USDC', priceIds: { coingecko: 'bridged-usdc' } }, 'USD');
+
+    expect(get).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.objectContaining({ params: { ids: 'bridged-usdc', vs_currencies: 'usd' } })
+    );
+  });
+
+  it('does not quote coins it has no id for', async () => {
+    await expect(provider.getQuote({ symbol: 'NOPE' }, 'USD')).resolves.toBeNull();
+    expect(get).not.toHaveBeenCalled();
+  });
+});
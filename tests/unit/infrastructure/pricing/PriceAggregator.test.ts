@@ -0,0 +1,80 @@
+import { PriceAggregator } from '../../../../src/infrastructure/pricing/PriceAggregator';
+import { PriceProvider } from '../../../../src/infrastructure/pricing/PriceProvider';
+import { BadRequestError, ServiceUnavailableError } from '../../../../src/common/errors/AppError';
+
+function provider(name: string, price: number | null | Error, ageSeconds = 0): PriceProvider {
+  return {
+    name,
+    getQuote: async (asset, currency) => {
+      if (price instanceof Error) {
+        throw price;
+      }
+      if (price === null) {
+        return null;
+      }
+      return {
+        symbol: asset.symbol,
+        currency,
+        price,
+        source: name,
+        fetchedAt: new Date(Date.now() - ageSeconds * 1000),
+      };
+    },
+  };
+}
+
+function aggregator(...providers: PriceProvider[]): PriceAggregator {
+  return new PriceAggregator(providers, { maxDeviationPct: 2, maxQuoteAgeSeconds: 300 });
+}
+
+describe('PriceAggregator', () => {
+  it('takes the median of the agreeing sources', async () => {
+    const quote = await aggregator(provider('a', 100), provider('b', 101), provider('c', 100.5)).getQuote('sol', 'usd');
+
+    expect(quote).toMatchObject({ symbol: 'SOL', currency: 'USD', price: 100.5, rejected: [] });
+    expect(quote.sources.map((source) => source.source)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('rejects outliers before taking the final median', async () => {
+    const quote = await aggregator(provider('a', 100), provider('b', 101), provider('c', 150)).getQuote('SOL');
+
+    expect(quote.price).toBe(100.5);
+    expect(quote.rejected).toEqual([expect.objectContaining({ source: 'c', reason: 'outlier' })]);
+  });
+
+  it('refuses a price when two sources disagree', async () => {
+    await expect(aggregator(provider('a', 100), provider('b', 120)).getQuote('SOL')).rejects.toThrow(
+      ServiceUnavailableError
+    );
+  });
+
+  it('skips failing providers and reports the oldest accepted source age', async () => {
+    const quote = await aggregator(provider('a', 100, 30), provider('b', new Error('timeout')), provider('c', 100, 90))
+      .getQuote('SOL');
+
+    expect(quote.sources).toHaveLength(2);
+    expect(quote.ageSeconds).toBe(90);
+  });
+
+  it('drops stale sources for fresh quotes', async () => {
+    const quote = await aggregator(provider('a', 100, 10), provider('b', 100.2, 600)).getFreshQuote('SOL');
+
+    expect(quote.sources.map((source) => source.source)).toEqual(['a']);
+    expect(quote.rejected).toEqual([expect.objectContaining({ source: 'b', reason: 'stale' })]);
+  });
+
+  it('fails when every source is stale', async () => {
+    await expect(aggregator(provider('a', 100, 600)).getFreshQuote('SOL')).rejects.toThrow(ServiceUnavailableError);
+  });
+
+  it('separates unknown coins from unavailable prices', async () => {
+    await expect(aggregator(provider('a', null)).getQuote('NOPE')).rejects.toThrow(BadRequestError);
+    await expect(aggregator(provider('a', new Error('down'))).getQuote('SOL')).rejects.toThrow(ServiceUnavailableError);
+  });
+
+  it('rejects unsupported fiat currencies', async () => {
+    await expect(aggregator(provider('a', 100)).getQuote('SOL', 'XYZ')).rejects.toMatchObject({
+      code: 'UNSUPPORTED_CURRENCY',
+    });
+  });
+});
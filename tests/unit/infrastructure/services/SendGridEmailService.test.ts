@@ -0,0 +1,67 @@
+import sgMail from '@sendgrid/mail';
+import { SendGridEmailService } from '../../../../src/infrastructure/services/SendGridEmailService';
+
+jest.mock('@sendgrid/mail', () => ({
+  __esModule: true,
+  default: { setApiKey: jest.fn(), send: jest.fn() },
+}));
+
+jest.mock('../../../../src/config', () => ({
+  config: { email: { sendgridApiKey: 'SG.test-key', fromAddress: 'noreply@suzaa.com' } },
+}));
+
+const send = sgMail.send as jest.Mock;
+
+function sentHtml(): string {
+  expect(send).toHaveBeenCalledTimes(1);
+  return send.mock.calls[0][0].html;
+}
+
+describe('SendGridEmailService', () => {
+  let service: SendGridEmailService;
+
+  beforeEach(() => {
+    send.mockResolvedValue([{ statusCode: 202 }, {}]);
+    service = new SendGridEmailService();
+  });
+
+  describe('sendWebhookFailureNotification', () => {
+    it('escapes the merchant URL and the endpoint error in the HTML body', async () => {
+      await service.sendWebhookFailureNotification('merchant@example.com', {
+        url: 'https://hooks.example.com/?a=1&b="<x>"',
+        attempts: 5,
+        lastError: '<script>alert(1)</script>',
+      });
+
+      const html = sentHtml();
+      expect(html).toContain('https://hooks.example.com/?a=1&amp;b=&quot;&lt;x&gt;&quot;');
+      expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+      expect(html).not.toContain('<script>');
+    });
+
+    it('keeps the plain-text body unescaped', async () => {
+      await service.sendWebhookFailureNotification('merchant@example.com', {
+        url: 'https://hooks.example.com/?a=1&b=2',
+        attempts: 5,
+        lastError: 'HTTP 500 <html>',
+      });
+
+      expect(send.mock.calls[0][0].text).toContain('URL: https://hooks.example.com/?a=1&b=2\nLast Error: HTTP 500 <html>');
+    });
+  });
+
+  describe('sendWebhookDisabledNotification', () => {
+    it('escapes the merchant URL and the endpoint error in the HTML body', async () => {
+      await service.sendWebhookDisabledNotification('merchant@example.com', {
+        url: 'https://hooks.example.com/?next="><img src=x>',
+        consecutiveFailures: 20,
+        lastError: 'Bad gateway <b>502</b> & retry',
+      });
+
+      const html = sentHtml();
+      expect(html).toContain('https://hooks.example.com/?next=&quot;&gt;&lt;img src=x&gt;');
+      expect(html).toContain('Bad gateway &lt;b&gt;502&lt;/b&gt; &amp; retry');
+      expect(html).not.toContain('<img');
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { PrismaClient } from '@prisma/client';
+import { ExpirySweeper } from '../../../../src/infrastructure/workers/ExpirySweeper';
+
+const merchantId = '0b6f3c1e-2f61-4a8e-9a57-5d8f8b2b1c01';
+
+function partialIntentRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'intent-1',
+    paymentRequestId: 'request-1',
+    merchantId,
+    requestStatus: 'PARTIALLY_PAID',
+    requestSettlementStatus: 'PENDING',
+    ...overrides,
+  };
+}
+
+describe('ExpirySweeper.sweep', () => {
+  let tx: any;
+  let sweeper: ExpirySweeper;
+
+  // The sweep queries, in order: advisory lock, expired intents, top-up windows, expired requests
+  function queryResults(partialIntents: unknown[], locked = true) {
+    tx.$queryRaw
+      .mockResolvedValueOnce([{ locked }])
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce(partialIntents)
+      .mockResolvedValueOnce([]);
+  }
+
+  beforeEach(() => {
+    tx = {
+      $queryRaw: jest.fn(),
+      advisoryLock: { upsert: jest.fn().mockResolvedValue({}) },
+      idempotencyKey: { deleteMany: jest.fn().mockResolvedValue({ count: 0 }) },
+      paymentIntent: { update: jest.fn().mockResolvedValue({}) },
+      paymentRequest: { update: jest.fn().mockResolvedValue({}) },
+      settlementTransition: { create: jest.fn().mockResolvedValue({}) },
+      outbox: { createMany: jest.fn().mockResolvedValue({ count: 0 }) },
+    };
+    const prisma = { $transaction: jest.fn((fn: (client: unknown) => unknown) => fn(tx)) };
+
+    sweeper = new ExpirySweeper(prisma as unknown as PrismaClient);
+  });
+
+  it('does nothing when another instance holds the lock', async () => {
+    queryResults([], false);
+
+    await expect(sweeper.sweep()).resolves.toBe(0);
+    expect(tx.$queryRaw).toHaveBeenCalledTimes(1);
+    expect(tx.advisoryLock.upsert).not.toHaveBeenCalled();
+  });
+
+  it('completes an underpaid intent at PAID once its top-up window has closed', async () => {
+    queryResults([partialIntentRow()]);
+
+    await expect(sweeper.sweep()).resolves.toBe(1);
+
+    expect(tx.paymentIntent.update).toHaveBeenCalledWith({
+      where: { id: 'intent-1' },
+      data: { status: 'COMPLETED', settlementStatus: 'PAID' },
+    });
+    expect(tx.paymentRequest.update).toHaveBeenCalledWith({
+      where: { id: 'request-1' },
+      data: { status: 'COMPLETED', settlementStatus: 'PAID' },
+    });
+    expect(tx.settlementTransition.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ paymentRequestId: 'request-1', fromStatus: 'PENDING', toStatus: 'PAID' }),
+    });
+    expect(tx.outbox.createMany).toHaveBeenCalledWith({
+      data: [expect.objectContaining({ eventType: 'PaymentSettlementStatusChanged' })],
+    });
+  });
+
+  it.each(['CANCELLED', 'EXPIRED', 'FAILED'])('keeps a %s request final when closing the window', async (status) => {
+    queryResults([partialIntentRow({ requestStatus: status })]);
+
+    await sweeper.sweep();
+
+    expect(tx.paymentRequest.update).toHaveBeenCalledWith({
+      where: { id: 'request-1' },
+      data: { status, settlementStatus: 'PAID' },
+    });
+  });
+
+  it('leaves a settlement decision the transition table does not allow from here untouched', async () => {
+    queryResults([partialIntentRow({ requestSettlementStatus: 'REJECTED' })]);
+
+    await sweeper.sweep();
+
+    expect(tx.paymentRequest.update).toHaveBeenCalledWith({
+      where: { id: 'request-1' },
+      data: { status: 'COMPLETED', settlementStatus: 'REJECTED' },
+    });
+    expect(tx.settlementTransition.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,106 @@
+import { PrismaClient } from '@prisma/client';
+import { OutboxDispatcher } from '../../../../src/infrastructure/workers/OutboxDispatcher';
+import { IWebhookService } from '../../../../src/infrastructure/services/IWebhookService';
+
+const merchantId = '0b6f3c1e-2f61-4a8e-9a57-5d8f8b2b1c01';
+
+function outboxRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'event-1',
+    eventType: 'PaymentReceived',
+    aggregateId: 'intent-1',
+    merchantId,
+    webhookId: null,
+    payload: { intentId: 'intent-1' },
+    retryCount: 0,
+    maxRetries: 5,
+    ...overrides,
+  };
+}
+
+describe('OutboxDispatcher.dispatchBatch', () => {
+  let tx: any;
+  let webhookService: { queueWebhook: jest.Mock; getDeliveryStatus: jest.Mock };
+  let dispatcher: OutboxDispatcher;
+
+  beforeEach(() => {
+    tx = {
+      $queryRaw: jest.fn(),
+      webhook: { findMany: jest.fn().mockResolvedValue([]) },
+      outbox: { update: jest.fn().mockResolvedValue({}) },
+    };
+    const prisma = { $transaction: jest.fn((fn: (client: unknown) => unknown) => fn(tx)) };
+    webhookService = { queueWebhook: jest.fn().mockResolvedValue(undefined), getDeliveryStatus: jest.fn() };
+
+    dispatcher = new OutboxDispatcher(
+      prisma as unknown as PrismaClient,
+      webhookService as unknown as IWebhookService,
+    );
+  });
+
+  it('queues the event for every subscribed webhook and marks the row dispatched', async () => {
+    tx.$queryRaw.mockResolvedValue([outboxRow()]);
+    tx.webhook.findMany.mockResolvedValue([
+      { id: 'hook-1', url: 'https://a.example/hook', merchant: { email: 'm@example.com' } },
+      { id: 'hook-2', url: 'https://b.example/hook', merchant: { email: 'm@example.com' } },
+    ]);
+
+    await expect(dispatcher.dispatchBatch()).resolves.toBe(1);
+
+    expect(tx.webhook.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { merchantId, enabled: true, events: { has: 'PaymentReceived' } },
+      })
+    );
+    expect(webhookService.queueWebhook).toHaveBeenCalledTimes(2);
+    expect(webhookService.queueWebhook).toHaveBeenCalledWith(
+      expect.objectContaining({ webhookId: 'hook-1', eventId: 'event-1', trigger: 'event' })
+    );
+    expect(tx.outbox.update).toHaveBeenCalledWith({
+      where: { id: 'event-1' },
+      data: expect.objectContaining({ dispatchedAt: expect.any(Date), lastError: null }),
+    });
+  });
+
+  it('sends targeted rows to their one webhook as a test delivery', async () => {
+    tx.$queryRaw.mockResolvedValue([outboxRow({ eventType: 'WebhookTest', webhookId: 'hook-9' })]);
+    tx.webhook.findMany.mockResolvedValue([
+      { id: 'hook-9', url: 'https://a.example/hook', merchant: { email: 'm@example.com' } },
+    ]);
+
+    await dispatcher.dispatchBatch();
+
+    expect(tx.webhook.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'hook-9', merchantId } })
+    );
+    expect(webhookService.queueWebhook).toHaveBeenCalledWith(expect.objectContaining({ trigger: 'test' }));
+  });
+
+  it('marks events without a merchant dispatched without looking up webhooks', async () => {
+    tx.$queryRaw.mockResolvedValue([outboxRow({ merchantId: null })]);
+
+    await dispatcher.dispatchBatch();
+
+    expect(tx.webhook.findMany).not.toHaveBeenCalled();
+    expect(webhookService.queueWebhook).not.toHaveBeenCalled();
+    expect(tx.outbox.update).toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ dispatchedAt: expect.any(Date) }) })
+    );
+  });
+
+  it('records a failed dispatch for retry instead of marking it dispatched', async () => {
+    tx.$queryRaw.mockResolvedValue([outboxRow({ retryCount: 2 })]);
+    tx.webhook.findMany.mockResolvedValue([
+      { id: 'hook-1', url: 'https://a.example/hook', merchant: { email: 'm@example.com' } },
+    ]);
+    webhookService.queueWebhook.mockRejectedValue(new Error('queue unavailable'));
+
+    await dispatcher.dispatchBatch();
+
+    expect(tx.outbox.update).toHaveBeenCalledTimes(1);
+    expect(tx.outbox.update).toHaveBeenCalledWith({
+      where: { id: 'event-1' },
+      data: { retryCount: 3, lastAttemptAt: expect.any(Date), lastError: 'queue unavailable' },
+    });
+  });
+});